@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { ViewState, LogEntry } from './types';
 import { useVault } from './hooks/useVault';
 import { useAutoLock } from './hooks/useAutoLock';
@@ -7,18 +7,26 @@ import { Dashboard } from './components/Dashboard';
 import { WalletManager } from './components/WalletManager';
 import { SignerTool } from './components/SignerTool';
 import { TransferHub } from './components/TransferHub';
+import { TransactionHistory } from './components/TransactionHistory';
+import { SweepPanel } from './components/SweepPanel';
 import { Settings } from './components/Settings';
 import { Documentation } from './components/Documentation';
 import { Button } from './components/Button';
 import { Input } from './components/Input';
 import { logger } from './services/systemLogger';
-import { Shield, Lock, Unlock, LogOut, LayoutDashboard, Wallet, PenTool, Settings as SettingsIcon, Bird, Eye, BookOpen, Send } from 'lucide-react';
+import { createBackup, BACKUP_EXTENSION } from './services/backupService';
+import { executeRequest } from './services/requestEngine';
+import { Shield, Lock, Unlock, LogOut, LayoutDashboard, Wallet, PenTool, Settings as SettingsIcon, Bird, Eye, BookOpen, Send, ShieldAlert, Upload, History, Combine } from 'lucide-react';
 
 export default function App() {
   const [inputPassword, setInputPassword] = useState('');
   const [loginError, setLoginError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
   const [view, setView] = useState<ViewState>('dashboard');
   const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [restoreError, setRestoreError] = useState('');
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const backupInputRef = useRef<HTMLInputElement>(null);
 
   // Subscribe to system logs
   useEffect(() => {
@@ -33,19 +41,38 @@ export default function App() {
     isLocked, 
     hasVault, 
     wallets, 
+    seeds,
     settings,
-    masterPassword,
+    dataKey,
+    spendLedger,
+    nonces,
+    nonceStates,
+    transactions,
+    transactionHistory,
+    distributions,
+    distributionRuns,
     loading, 
+    integrityError,
     createVault, 
     unlockVault, 
+    restoreFromBackup,
     lockVault, 
+    changeMasterPassword,
+    resetVault,
     addWallet, 
+    addWallets,
+    addSeed,
     removeWallet, 
     updateWalletMetadata,
     updateSettings,
-    importVaultData
+    previewImport,
+    importWallets
   } = useVault();
 
+  useEffect(() => {
+    if (integrityError) logger.log('Vault integrity check failed, unlock blocked', 'error', 'Security');
+  }, [integrityError]);
+
   // Auto-lock security
   useAutoLock(isLocked, () => {
       lockVault();
@@ -55,7 +82,9 @@ export default function App() {
   const handleUnlock = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoginError('');
+    setIsUnlocking(true);
     const success = await unlockVault(inputPassword);
+    setIsUnlocking(false);
     if (success) {
       setInputPassword('');
       logger.log('Vault unlocked successfully', 'success', 'Auth');
@@ -71,27 +100,58 @@ export default function App() {
       setLoginError('Password must be at least 6 characters');
       return;
     }
+    setIsUnlocking(true);
     await createVault(inputPassword);
+    setIsUnlocking(false);
     setInputPassword('');
     logger.log('New Vault initialized', 'success', 'System');
   };
 
-  const exportVault = () => {
-    const exportData = { wallets, settings };
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], {type: "application/json"});
+  const exportVault = async (passphrase: string) => {
+    if (!dataKey) return;
+    const backup = await createBackup(wallets, seeds, settings, dataKey, passphrase);
+    const blob = new Blob([backup], {type: "application/json"});
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `falconvault_backup_${new Date().toISOString().split('T')[0]}.json`;
+    link.download = `falconvault_backup_${new Date().toISOString().split('T')[0]}${BACKUP_EXTENSION}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
     logger.log('Vault backup exported', 'info', 'System');
   };
 
+  const handleRestoreBackup = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (evt) => {
+      const content = evt.target?.result as string;
+      setRestoreError('');
+      setIsUnlocking(true);
+      try {
+        if (await restoreFromBackup(content, inputPassword, restorePassphrase)) {
+          setInputPassword('');
+          setRestorePassphrase('');
+          setLoginError('');
+          logger.log('Vault restored from backup after integrity failure', 'warning', 'Security');
+        } else {
+          setRestoreError('Backup restored, but the vault could not be unlocked.');
+        }
+      } catch (err: any) {
+        setRestoreError(err.message || 'Restore failed');
+      }
+      setIsUnlocking(false);
+    };
+    reader.readAsText(file);
+  };
+
   const clearVault = () => {
     if(confirm('CRITICAL WARNING: ALL WALLETS WILL BE DELETED PERMANENTLY. \n\nAre you sure?')) {
-        localStorage.removeItem('falconvault_v1_store');
+        resetVault();
         logger.log('Vault reset performed', 'warning', 'System');
         window.location.reload();
     }
@@ -104,8 +164,61 @@ export default function App() {
 
   if (loading) return <div className="flex items-center justify-center h-screen bg-slate-950 text-slate-500 animate-pulse">Initializing Secure Environment...</div>;
 
+  // --- Integrity Recovery ---
+  if (integrityError && (isLocked || !dataKey)) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-slate-950 p-4">
+        <div className="w-full max-w-md bg-slate-900 border border-red-900/50 rounded-2xl p-8 shadow-2xl">
+          <div className="flex justify-center mb-6">
+            <div className="p-4 bg-red-500/10 rounded-full ring-1 ring-red-500/50">
+              <ShieldAlert className="w-12 h-12 text-red-500" />
+            </div>
+          </div>
+
+          <h1 className="text-2xl font-bold text-center text-white mb-2">Integrity Check Failed</h1>
+          <p className="text-center text-slate-400 mb-6 text-sm">
+            Your master password is correct, but the stored wallets, metadata or settings were modified outside FalconVault.
+            The vault stays locked so no tampered address or setting is ever used.
+          </p>
+          <p className="text-center text-slate-500 mb-8 text-xs">
+            Restore a backup exported from this vault. Encrypted <span className="font-mono">{BACKUP_EXTENSION}</span> files need their backup passphrase.
+          </p>
+
+          <Input
+            type="password"
+            placeholder="Backup Passphrase"
+            value={restorePassphrase}
+            onChange={(e) => setRestorePassphrase(e.target.value)}
+            className="text-center mb-4"
+          />
+
+          <input
+            type="file"
+            ref={backupInputRef}
+            onChange={handleRestoreBackup}
+            accept={`.json,${BACKUP_EXTENSION}`}
+            className="hidden"
+          />
+          <Button onClick={() => backupInputRef.current?.click()} className="w-full" size="lg" isLoading={isUnlocking}>
+            <Upload className="w-4 h-4 mr-2" /> Restore from Backup
+          </Button>
+          {restoreError && <p className="text-red-500 text-xs text-center font-mono mt-4">{restoreError}</p>}
+
+          <div className="mt-8 pt-6 border-t border-slate-800 flex justify-center">
+            <button
+              className="text-xs text-red-900/50 hover:text-red-500 transition-colors"
+              onClick={clearVault}
+            >
+              Emergency Reset
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // --- Lock Screen ---
-  if (isLocked) {
+  if (isLocked || !dataKey) {
     return (
       <div className="flex items-center justify-center h-screen bg-slate-950 p-4">
         <div className="w-full max-w-md bg-slate-900 border border-slate-800 rounded-2xl p-8 shadow-2xl">
@@ -135,7 +248,7 @@ export default function App() {
             />
             {loginError && <p className="text-red-500 text-xs text-center font-mono">{loginError}</p>}
             
-            <Button type="submit" className="w-full" size="lg">
+            <Button type="submit" className="w-full" size="lg" isLoading={isUnlocking}>
               {hasVault ? (
                 <>
                   <Unlock className="w-4 h-4 mr-2" /> Unlock Vault
@@ -202,6 +315,18 @@ export default function App() {
             isActive={view === 'signer'} 
             onClick={() => setView('signer')} 
           />
+          <NavItem 
+            icon={<Combine />} 
+            label="Batch Sweep" 
+            isActive={view === 'sweep'} 
+            onClick={() => setView('sweep')} 
+          />
+          <NavItem 
+            icon={<History />} 
+            label="History" 
+            isActive={view === 'history'} 
+            onClick={() => setView('history')} 
+          />
 
           <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 px-4 mt-6">Developer</div>
           <NavItem 
@@ -258,9 +383,17 @@ export default function App() {
             {view === 'wallets' && (
               <WalletManager 
                 wallets={wallets} 
-                password={masterPassword}
+                seeds={seeds}
+                dataKey={dataKey}
                 settings={settings}
+                nonceStates={nonceStates}
+                onResetNonce={(address, chainId) => {
+                    nonces.reset(address, chainId);
+                    logger.log(`Nonce tracking reset for ${address} on chain ${chainId}`, 'info', 'WalletMgr');
+                }}
                 onNavigate={setView}
+                onAddWallets={addWallets}
+                onAddSeed={addSeed}
                 onAddWallet={(w) => {
                     addWallet(w);
                     logger.log(`Wallet imported: ${w.name}`, 'success', 'WalletMgr');
@@ -279,17 +412,58 @@ export default function App() {
             {view === 'transfer' && (
               <TransferHub 
                 wallets={wallets} 
-                password={masterPassword}
+                dataKey={dataKey}
+                fees={settings.fees}
+                tokens={settings.tokens}
+                nonces={nonces}
+                transactions={transactions}
+                policies={settings.policies}
+                spendLedger={spendLedger}
+                history={transactionHistory}
+                distributions={distributions}
+                distributionRuns={distributionRuns}
+              />
+            )}
+
+            {view === 'sweep' && (
+              <SweepPanel
+                wallets={wallets}
+                settings={settings}
+                dataKey={dataKey}
+                nonces={nonces}
+                transactions={transactions}
+                spendLedger={spendLedger}
+              />
+            )}
+
+            {view === 'history' && (
+              <TransactionHistory
+                wallets={wallets}
+                history={transactionHistory}
+                onReplace={async (hash, kind) => {
+                    const response = await executeRequest(
+                        { type: kind === 'cancel' ? 'vault_cancelTransaction' : 'vault_speedUpTransaction', payload: { hash } },
+                        { wallets, seeds, dataKey, onAddWallets: addWallets, policies: settings.policies, spendLedger, fees: settings.fees, nonces, transactions, tokens: settings.tokens }
+                    );
+                    if (response.status === 'error') throw new Error(response.error);
+                }}
               />
             )}
 
             {view === 'signer' && (
               <SignerTool 
                 wallets={wallets} 
-                password={masterPassword}
-                onAddWallet={(w) => {
-                    addWallet(w);
-                    logger.log(`Wallet imported via API: ${w.name}`, 'success', 'API');
+                seeds={seeds}
+                dataKey={dataKey}
+                policies={settings.policies}
+                spendLedger={spendLedger}
+                fees={settings.fees}
+                nonces={nonces}
+                transactions={transactions}
+                tokens={settings.tokens}
+                onAddWallets={async (added) => {
+                    await addWallets(added);
+                    logger.log(`Wallets added via API: ${added.map(w => w.name).join(', ')}`, 'success', 'API');
                 }}
               />
             )}
@@ -307,7 +481,13 @@ export default function App() {
                 }}
                 onExport={exportVault} 
                 onClear={clearVault} 
-                onImport={(json) => importVaultData(json, masterPassword)}
+                onPreviewImport={previewImport}
+                onImport={importWallets}
+                onChangePassword={async (oldPassword, newPassword, onProgress) => {
+                    const skipped = await changeMasterPassword(oldPassword, newPassword, onProgress);
+                    logger.log(`Master password changed, ${wallets.length - skipped.length} keys re-encrypted`, 'success', 'Security');
+                    return skipped;
+                }}
               />
             )}
           </div>
@@ -1,7 +1,8 @@
 
 import React, { useEffect, useState, useRef } from 'react';
 import { WalletData, VaultSettings, LogEntry } from '../types';
-import { NETWORKS } from '../services/cryptoService';
+import { listNetworks } from '../services/networkRegistry';
+import { EndpointHealth, checkEndpoints, getEndpointHealth } from '../services/providerPool';
 import { Activity, Server, Shield, Cpu, Terminal, Wifi, Database } from 'lucide-react';
 
 interface DashboardProps {
@@ -11,8 +12,23 @@ interface DashboardProps {
   onNavigate: (view: any) => void;
 }
 
+const CIRCUIT_STYLES: Record<EndpointHealth['circuit'], string> = {
+  closed: 'bg-emerald-500',
+  'half-open': 'bg-amber-500',
+  open: 'bg-red-500'
+};
+
+// Host only: private endpoints often carry an API key in the path
+const endpointHost = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch (e) {
+    return url;
+  }
+};
+
 export const Dashboard: React.FC<DashboardProps> = ({ wallets, settings, logs, onNavigate }) => {
-  const [latency, setLatency] = useState<number | null>(null);
+  const [health, setHealth] = useState<EndpointHealth[]>(() => getEndpointHealth());
   const [isCheckingNetwork, setIsCheckingNetwork] = useState(false);
   const logEndRef = useRef<HTMLDivElement>(null);
 
@@ -21,32 +37,28 @@ export const Dashboard: React.FC<DashboardProps> = ({ wallets, settings, logs, o
     logEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [logs]);
 
-  // Real Network Latency Check
+  // Endpoint health of every configured network, refreshed from the provider pool
   useEffect(() => {
     const checkHealth = async () => {
         setIsCheckingNetwork(true);
-        const start = Date.now();
         try {
-            // Simple POST to mainnet RPC to check connectivity
-            // NETWORKS.mainnet is an array, pick the first one for the health check
-            await fetch(NETWORKS.mainnet[0], {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_blockNumber', params: [] })
-            });
-            setLatency(Date.now() - start);
-        } catch (e) {
-            setLatency(-1); // Error code
+            setHealth(await checkEndpoints());
         } finally {
             setIsCheckingNetwork(false);
         }
     };
     checkHealth();
-    // Poll every 30 seconds
-    const interval = setInterval(checkHealth, 30000);
-    return () => clearInterval(interval);
+    // Probe every 30 seconds; in between, show what regular traffic has recorded
+    const probe = setInterval(checkHealth, 30000);
+    const refresh = setInterval(() => setHealth(getEndpointHealth()), 5000);
+    return () => {
+        clearInterval(probe);
+        clearInterval(refresh);
+    };
   }, []);
 
+  const healthyCount = health.filter(h => h.circuit === 'closed' && h.successes > 0).length;
+
   // Calculate Memory Usage (Approximate JSON size of wallet data)
   const estimatedSizeKB = (JSON.stringify(wallets).length / 1024).toFixed(2);
 
@@ -75,13 +87,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ wallets, settings, logs, o
               <div className="grid grid-cols-2 gap-4">
                   <div className="bg-slate-950 p-4 rounded-lg border border-slate-800">
                       <div className="flex items-center text-xs text-slate-500 mb-2 uppercase font-bold">
-                          <Wifi className="w-3 h-3 mr-1" /> Network Latency
+                          <Wifi className="w-3 h-3 mr-1" /> RPC Endpoints
                       </div>
-                      <div className={`text-xl font-mono ${latency === -1 ? 'text-red-500' : 'text-slate-100'}`}>
-                          {isCheckingNetwork ? '...' : latency === -1 ? 'OFFLINE' : `${latency}ms`}
+                      <div className={`text-xl font-mono ${healthyCount === 0 ? 'text-red-500' : 'text-slate-100'}`}>
+                          {healthyCount}/{health.length} up
                       </div>
                       <div className="text-[10px] text-slate-600 mt-1 truncate">
-                          Target: Mainnet RPC
+                          {isCheckingNetwork ? 'Checking...' : `${listNetworks().length} networks`}
                       </div>
                   </div>
 
@@ -123,8 +135,32 @@ export const Dashboard: React.FC<DashboardProps> = ({ wallets, settings, logs, o
               </div>
           </div>
 
+          {/* Endpoint Health */}
+          <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 flex-1 min-h-0 flex flex-col">
+              <div className="flex items-center text-slate-100 font-semibold mb-4">
+                  <Wifi className="w-5 h-5 mr-2 text-sky-500" />
+                  RPC Health
+              </div>
+              <div className="flex-1 overflow-y-auto space-y-4 scrollbar-thin scrollbar-thumb-slate-800">
+                  {listNetworks().map(network => (
+                      <div key={network.key}>
+                          <div className="text-[10px] font-bold text-slate-500 uppercase mb-1">{network.name}</div>
+                          {health.filter(h => h.network === network.key).map(h => (
+                              <div key={h.url} className="flex items-center gap-2 text-xs py-0.5" title={h.lastError}>
+                                  <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${h.successes + h.failures === 0 ? 'bg-slate-700' : CIRCUIT_STYLES[h.circuit]}`}></span>
+                                  <span className="font-mono text-slate-400 truncate flex-1">{endpointHost(h.url)}</span>
+                                  <span className="font-mono text-slate-300 w-16 text-right">{h.latencyMs !== undefined ? `${h.latencyMs}ms` : '-'}</span>
+                                  <span className={`font-mono w-12 text-right ${h.errorRate > 0.2 ? 'text-amber-400' : 'text-slate-500'}`}>{Math.round(h.errorRate * 100)}% err</span>
+                                  <span className={`w-16 text-right uppercase text-[10px] font-bold ${h.circuit === 'closed' ? 'text-slate-600' : h.circuit === 'open' ? 'text-red-400' : 'text-amber-400'}`}>{h.circuit === 'closed' ? 'ok' : h.circuit}</span>
+                              </div>
+                          ))}
+                      </div>
+                  ))}
+              </div>
+          </div>
+
           {/* Quick Actions / Info */}
-          <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 flex-1">
+          <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
               <div className="flex items-center text-slate-100 font-semibold mb-4">
                   <Server className="w-5 h-5 mr-2 text-indigo-500" />
                   Service Overview
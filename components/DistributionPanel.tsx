@@ -0,0 +1,279 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { WalletData, FeeSettings, RegisteredToken, SigningPolicy } from '../types';
+import { Button } from './Button';
+import { listNetworks, nativeSymbolFor } from '../services/networkRegistry';
+import { NonceManager } from '../services/nonceManager';
+import { TransactionStore } from '../services/txStore';
+import { SpendLedger } from '../services/policyEngine';
+import {
+  DistributionStore,
+  DistributionRun,
+  DistributionRow,
+  DistributionPreview,
+  parseDistributionCsv,
+  previewDistribution,
+  createDistributionRun,
+  executeDistribution,
+  remainingRows,
+  reconcileRun
+} from '../services/distributionService';
+import { logger } from '../services/systemLogger';
+import { Upload, Calculator, Play, StopCircle, RotateCcw, Trash2, AlertTriangle, Check } from 'lucide-react';
+
+interface DistributionPanelProps {
+  wallet: WalletData;
+  wallets: WalletData[];
+  dataKey: CryptoKey;
+  fees: FeeSettings;
+  tokens: RegisteredToken[];
+  nonces: NonceManager;
+  transactions: TransactionStore;
+  policies: SigningPolicy[];
+  spendLedger?: SpendLedger;
+  distributions: DistributionStore;
+  runs: DistributionRun[];
+}
+
+const ROW_STYLES: Record<DistributionRow['status'], string> = {
+  pending: 'text-slate-500',
+  sent: 'text-emerald-400',
+  failed: 'text-red-400'
+};
+
+const selectClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:border-sky-500 outline-none';
+
+export const DistributionPanel: React.FC<DistributionPanelProps> = ({ wallet, wallets, dataKey, fees, tokens, nonces, transactions, policies, spendLedger, distributions, runs }) => {
+  const [csv, setCsv] = useState('');
+  const [network, setNetwork] = useState('mainnet');
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<DistributionPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<'preview' | 'run' | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const stopRef = useRef(false);
+
+  const parsed = useMemo(() => parseDistributionCsv(csv, tokens, network), [csv, tokens, network]);
+  const activeRun = runs.find(r => r.id === activeRunId);
+  const walletRuns = runs.filter(r => r.walletId === wallet.id);
+
+  // Rows the next execution pays: the resumed run's remaining rows, or the freshly parsed CSV
+  const toPay = activeRun ? remainingRows(reconcileRun(activeRun, transactions)) : parsed.rows;
+  const runNetwork = activeRun ? activeRun.network : network;
+  const nativeSymbol = nativeSymbolFor(runNetwork);
+
+  const resetPreview = () => {
+    setPreview(null);
+    setPreviewError(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setCsv(await file.text());
+    setActiveRunId(null);
+    resetPreview();
+    e.target.value = '';
+  };
+
+  const handlePreview = async () => {
+    setBusy('preview');
+    resetPreview();
+    try {
+      setPreview(await previewDistribution(wallet, runNetwork, toPay, tokens, fees));
+    } catch (e: any) {
+      setPreviewError(e.shortMessage || e.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleExecute = async () => {
+    const verb = activeRun ? 'Resume' : 'Start';
+    if (!confirm(`${verb} payout of ${toPay.length} row(s) from ${wallet.name} on ${runNetwork}? Transactions are signed and broadcast immediately.`)) return;
+
+    const run = activeRun || createDistributionRun(wallet, network, parsed.rows);
+    if (!activeRun) {
+      distributions.save(run);
+      setActiveRunId(run.id);
+      setCsv('');
+    }
+
+    stopRef.current = false;
+    setBusy('run');
+    logger.log(`${verb} payout of ${toPay.length} rows from ${wallet.name} on ${runNetwork}`, 'info', 'Distribution');
+    try {
+      const result = await executeDistribution(run, wallet, { dataKey, wallets, fees, tokens, nonces, transactions, policies, spendLedger }, distributions, () => stopRef.current);
+      const left = remainingRows(result).length;
+      logger.log(left === 0 ? `Payout run complete (${result.rows.length} rows)` : `Payout run paused with ${left} row(s) left`, left === 0 ? 'success' : 'warning', 'Distribution');
+    } catch (e: any) {
+      logger.log(`Payout run failed: ${e.message}`, 'error', 'Distribution');
+    } finally {
+      setBusy(null);
+      resetPreview();
+    }
+  };
+
+  const sentCount = activeRun ? activeRun.rows.filter(r => r.status === 'sent').length : 0;
+  const canExecute = !!preview?.sufficient && toPay.length > 0 && (activeRun ? !activeRun.unverified : parsed.issues.length === 0) && busy === null;
+
+  return (
+    <div className="space-y-6">
+      {!activeRun && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Network</label>
+              <select className={selectClass} value={network} onChange={e => { setNetwork(e.target.value); resetPreview(); }}>
+                {listNetworks().map(n => n.key).map(n => <option key={n} value={n}>{n.toUpperCase()}</option>)}
+              </select>
+            </div>
+            <div className="col-span-2 flex items-end justify-end">
+              <input ref={fileRef} type="file" accept=".csv,text/csv,text/plain" className="hidden" onChange={handleFile} />
+              <Button variant="secondary" onClick={() => fileRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-2" /> Load CSV
+              </Button>
+            </div>
+          </div>
+          <textarea
+            className="w-full h-40 bg-slate-950 border border-slate-700 rounded-lg p-3 text-xs font-mono text-slate-300 focus:border-sky-500 outline-none"
+            placeholder={`address,amount,asset\n0x1234...,0.05,${nativeSymbol}\n0xabcd...,250,USDC`}
+            value={csv}
+            onChange={e => { setCsv(e.target.value); resetPreview(); }}
+          />
+          {csv.trim() && (
+            <div className="text-xs">
+              <span className="text-slate-400">{parsed.rows.length} valid row(s)</span>
+              {parsed.issues.length > 0 && (
+                <ul className="mt-2 space-y-1 text-red-400 max-h-24 overflow-y-auto">
+                  {parsed.issues.map(issue => <li key={issue.line}>Line {issue.line}: {issue.message}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {activeRun && (
+        <div className="flex items-center justify-between text-sm">
+          <div>
+            <span className="text-white font-bold">Run from {activeRun.walletLabel}</span>
+            <span className="text-slate-500 ml-2">{activeRun.network} · {sentCount}/{activeRun.rows.length} sent · started {new Date(activeRun.createdAt).toLocaleString()}</span>
+            {activeRun.unverified && (
+              <div className="flex items-center text-xs text-red-400 mt-1">
+                <AlertTriangle className="w-4 h-4 mr-2" /> This run failed its integrity check and cannot be resumed. Start a new run from the CSV instead.
+              </div>
+            )}
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => { setActiveRunId(null); resetPreview(); }} disabled={busy === 'run'}>New CSV</Button>
+        </div>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <div className="bg-slate-950 border border-slate-800 rounded-xl p-4">
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 uppercase">
+              <tr>
+                <th className="text-left pb-2 font-medium">Asset</th>
+                <th className="text-right pb-2 font-medium">Rows</th>
+                <th className="text-right pb-2 font-medium">Total</th>
+                <th className="text-right pb-2 font-medium">Balance</th>
+                <th className="text-right pb-2 font-medium">Max Fees ({nativeSymbol})</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono text-slate-300">
+              {preview.totals.map(t => (
+                <tr key={t.asset} className={t.sufficient ? '' : 'text-red-400'}>
+                  <td className="py-1">{t.asset}</td>
+                  <td className="py-1 text-right">{t.count}</td>
+                  <td className="py-1 text-right">{t.amount}</td>
+                  <td className="py-1 text-right">{t.balance}</td>
+                  <td className="py-1 text-right">{t.maxFees}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className={`mt-3 flex items-center text-xs ${preview.sufficient ? 'text-emerald-400' : 'text-red-400'}`}>
+            {preview.sufficient ? <Check className="w-4 h-4 mr-2" /> : <AlertTriangle className="w-4 h-4 mr-2" />}
+            {preview.sufficient
+              ? `Balances cover all rows plus up to ${preview.totalMaxFees} ${nativeSymbol} in fees.`
+              : `Insufficient balance for the amounts plus up to ${preview.totalMaxFees} ${nativeSymbol} in fees.`}
+          </div>
+        </div>
+      )}
+      {previewError && <div className="text-xs text-red-400">{previewError}</div>}
+
+      <div className="flex gap-3">
+        <Button variant="secondary" onClick={handlePreview} disabled={toPay.length === 0 || busy !== null || (!activeRun && parsed.issues.length > 0)} isLoading={busy === 'preview'}>
+          <Calculator className="w-4 h-4 mr-2" /> Preview Cost
+        </Button>
+        <Button onClick={handleExecute} disabled={!canExecute} isLoading={busy === 'run'}>
+          {activeRun ? <RotateCcw className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+          {activeRun ? `Resume (${toPay.length} left)` : 'Start Payout'}
+        </Button>
+        {busy === 'run' && (
+          <Button variant="ghost" onClick={() => { stopRef.current = true; }}>
+            <StopCircle className="w-4 h-4 mr-2" /> Stop
+          </Button>
+        )}
+      </div>
+
+      {/* Rows of the active run */}
+      {activeRun && (
+        <div className="max-h-72 overflow-y-auto border border-slate-800 rounded-xl">
+          <table className="w-full text-left text-xs">
+            <thead className="bg-slate-900 text-slate-500 uppercase sticky top-0">
+              <tr>
+                <th className="px-3 py-2 font-medium">Line</th>
+                <th className="px-3 py-2 font-medium">Recipient</th>
+                <th className="px-3 py-2 font-medium text-right">Amount</th>
+                <th className="px-3 py-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/50 bg-slate-950 text-slate-300">
+              {activeRun.rows.map(row => (
+                <tr key={row.line}>
+                  <td className="px-3 py-2 text-slate-500">{row.line}</td>
+                  <td className="px-3 py-2 font-mono truncate max-w-[180px]">{row.address}</td>
+                  <td className="px-3 py-2 text-right font-mono">{row.amount} {row.asset}</td>
+                  <td className="px-3 py-2">
+                    <span className={`font-bold uppercase text-[10px] ${ROW_STYLES[row.status]}`}>{row.status}</span>
+                    {row.txHash && <div className="text-[10px] font-mono text-slate-500">{row.txHash.slice(0, 18)}…</div>}
+                    {row.error && <div className="text-[10px] text-red-400 truncate max-w-[220px]" title={row.error}>{row.error}</div>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Earlier runs from this wallet */}
+      {!activeRun && walletRuns.length > 0 && (
+        <div>
+          <h4 className="text-[10px] font-black text-slate-600 uppercase tracking-widest mb-2">Previous Runs</h4>
+          <div className="space-y-1">
+            {walletRuns.map(run => {
+              const left = remainingRows(run).length;
+              return (
+                <div key={run.id} className="flex items-center justify-between p-2 rounded-lg bg-slate-950 border border-slate-800 text-xs">
+                  <span className="text-slate-400">
+                    {new Date(run.createdAt).toLocaleString()} · {run.network} · {run.rows.length - left}/{run.rows.length} sent
+                  </span>
+                  <div className="flex gap-2">
+                    <button onClick={() => { setActiveRunId(run.id); resetPreview(); }} className="text-sky-400 hover:text-sky-300 font-bold">
+                      {left > 0 && !run.unverified ? 'Resume' : 'View'}
+                    </button>
+                    <button onClick={() => distributions.remove(run.id)} className="text-slate-500 hover:text-red-400" title="Forget run">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
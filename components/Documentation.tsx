@@ -27,10 +27,32 @@ export const Documentation: React.FC = () => {
 {`{
   "type": "eth_signTransaction",    // Method Name
   "walletLabel": "Deployer_1",      // Target Wallet (Optional for read-only)
-  "network": "mainnet",             // Target Network (Optional for non-RPC)
+  "network": "mainnet",             // Network key from Settings (Optional for non-RPC)
   "payload": { ... }                // Method Arguments
 }`}
              </pre>
+
+             <h4 className="text-sm font-bold text-slate-300 mt-6 mb-2">Authentication</h4>
+             <p className="text-slate-400 text-sm mb-4">Remote callers must send an API key issued under <span className="text-sky-300">Settings &rarr; RPC API Keys</span>. Each key is limited to a set of operations and wallet labels.</p>
+             <pre className="bg-slate-950 p-4 rounded-lg text-xs font-mono text-slate-300 overflow-x-auto border border-slate-800">
+{`Authorization: Bearer fv_3f9a...
+# or
+X-API-Key: fv_3f9a...`}
+             </pre>
+             <h4 className="text-sm font-bold text-slate-300 mt-6 mb-2">Rejection Codes</h4>
+             <pre className="bg-slate-950 p-4 rounded-lg text-xs font-mono text-slate-300 overflow-x-auto border border-slate-800">
+{`INVALID_REQUEST       // 400 - malformed JSON, a body that is not an object with a type, or a payload missing or of the wrong type
+UNAUTHORIZED          // 401 - missing, invalid or revoked key
+FORBIDDEN_OPERATION   // 403 - operation not in the key's scopes
+FORBIDDEN_WALLET      // 403 - walletLabel not allowed for the key
+POLICY_*              // 403 - denied by a signing policy (see below)
+CHAIN_MISMATCH        // 400 - chainId missing or not that of the requested network
+FEE_CAP_EXCEEDED      // 400 - max fee above the cap set in Settings
+INVALID_TYPED_DATA    // 400 - EIP-712 payload cannot be hashed as given
+NOT_REPLACEABLE       // 400 - speed-up/cancel of a transaction that is no longer pending
+BROADCAST_UNCERTAIN   // 400 - broadcast timed out; the transaction may still be mined, its nonce stays reserved
+EXECUTION_ERROR       // 400 - the operation itself failed`}
+             </pre>
           </div>
         </section>
 
@@ -101,29 +123,54 @@ export const Documentation: React.FC = () => {
               <Key className="w-6 h-6 mr-3 text-amber-500" />
               <h3 className="text-2xl font-bold text-white">2. Signature Methods</h3>
           </div>
-          <p className="text-slate-400 text-sm mb-6">These methods require the <code className="text-amber-300">walletLabel</code> parameter. The vault must be unlocked.</p>
+          <p className="text-slate-400 text-sm mb-4">These methods require the <code className="text-amber-300">walletLabel</code> parameter. The vault must be unlocked.</p>
+          <p className="text-slate-400 text-sm mb-4">Accounts derived from an HD seed can be addressed by <code className="text-amber-300">derivationPath</code> or <code className="text-amber-300">derivationIndex</code> instead. Add <code className="text-amber-300">seedLabel</code> when the vault holds several seeds. Only accounts already derived in the vault resolve.</p>
+          <pre className="bg-slate-950 p-4 rounded-lg text-xs font-mono text-slate-300 overflow-x-auto border border-slate-800 mb-6">
+{`{
+  "type": "personal_sign",
+  "seedLabel": "Ops_Seed",
+  "derivationIndex": 42,            // or "derivationPath": "m/44'/60'/0'/0/42"
+  "payload": "hello"
+}`}
+          </pre>
+          <p className="text-slate-400 text-sm mb-4">Signing policies (<span className="text-sky-300">Settings &rarr; Signing Policies</span>) are checked before the key is decrypted. A denied request names the policy and the rule that fired:</p>
+          <pre className="bg-slate-950 p-4 rounded-lg text-xs font-mono text-slate-300 overflow-x-auto border border-slate-800 mb-6">
+{`{
+  "status": "error",
+  "code": "POLICY_DAILY_LIMIT",     // POLICY_RECIPIENT_NOT_ALLOWED | POLICY_VALUE_LIMIT | POLICY_CHAIN_NOT_ALLOWED
+                                    // POLICY_SELECTOR_NOT_ALLOWED | POLICY_MESSAGE_BLOCKED
+  "error": "Policy 'Hot wallets' denied the request: ...",
+  "policy": { "id": "...", "name": "Hot wallets", "rule": "maxValuePerDay" }
+}`}
+          </pre>
           
           <div className="space-y-6">
             
             <MethodCard 
                 title="eth_signTransaction"
-                desc="Signs a transaction object. Returns the raw signed RLP encoded transaction and its hash."
+                desc="Signs a transaction object. Missing chainId, nonce, gas limit and fee fields are filled in from the target network (chainId or 'network'), using the fee multiplier and max-fee cap from Settings. A missing nonce is reserved locally per wallet and chain, so back-to-back requests get consecutive nonces before any of them is broadcast; the completed transaction is returned as 'transaction'. A chainId that differs from 'network', or is 0, is rejected with CHAIN_MISMATCH. Returns the raw signed RLP encoded transaction and its hash, plus a decoded preview: known ERC-20/721/1155, permit and multicall selectors with token amounts, and risk flags such as UNLIMITED_APPROVAL, APPROVAL_FOR_ALL or NO_CONTRACT_CODE."
                 req={`{
   "type": "eth_signTransaction",
   "walletLabel": "Wallet_A",
+  "network": "mainnet",
   "payload": {
     "to": "0x...",
     "value": "100000",
-    "chainId": 1,
-    "nonce": 5,
-    "gasLimit": "21000"
+    "data": "0x"
   }
 }`}
                 res={`{
   "status": "success",
   "walletLabel": "Wallet_A",
   "signedTx": "0xf86b8085...",
-  "txHash": "0xabc123..."
+  "txHash": "0xabc123...",
+  "transaction": { "to": "0x...", "value": "100000", "chainId": 1, "nonce": 5, "gasLimit": "21000", "maxFeePerGas": "...", "maxPriorityFeePerGas": "..." },
+  "preview": {
+    "kind": "contract_call",
+    "summary": "Approve 0x1111…2222 to spend Unlimited USDC",
+    "call": { "standard": "ERC20", "method": "approve(address,uint256)", "args": [...] },
+    "risks": [{ "code": "UNLIMITED_APPROVAL", "level": "danger", "message": "..." }]
+  }
 }`}
             />
 
@@ -143,25 +190,34 @@ export const Documentation: React.FC = () => {
 
             <MethodCard 
                 title="eth_signTypedData"
-                desc="Signs structured data (EIP-712)."
+                desc="Signs structured data (EIP-712). Accepts the eth_signTypedData_v4 shape (object or JSON string) as well as { domain, types, value }. primaryType is optional when the types have a single root. A domain without chainId is rejected with CHAIN_MISMATCH, and so is one that differs from 'network' when set. Permit, Permit2 and Seaport orders are reported with their spender, amount and deadline."
                 req={`{
   "type": "eth_signTypedData",
   "walletLabel": "Wallet_A",
+  "network": "mainnet",              // Optional, checked against domain.chainId
   "payload": {
-    "domain": { ... },
-    "types": { ... },
-    "value": { ... }
+    "types": { "EIP712Domain": [...], "Permit": [...] },
+    "primaryType": "Permit",
+    "domain": { "name": "USD Coin", "chainId": 1, ... },
+    "message": { ... }
   }
 }`}
                 res={`{
   "status": "success",
-  "signature": "0x..."
+  "signature": "0x...",
+  "typedData": {
+    "primaryType": "Permit",
+    "kind": "Permit",
+    "approvals": [{ "token": "0xa0b8...", "spender": "0x...", "amount": "Unlimited", "deadline": "Never" }],
+    "tree": [...],
+    "risks": [{ "code": "UNLIMITED_APPROVAL", "level": "danger", "message": "..." }]
+  }
 }`}
             />
 
              <MethodCard 
                 title="eth_sendRawTransaction"
-                desc="Submits a pre-signed transaction for broadcast."
+                desc="Submits a pre-signed transaction for broadcast. The transaction is decoded first; one signed for another chain than 'network', or without a chainId, is rejected with CHAIN_MISMATCH. If the broadcast fails, a nonce reserved by eth_signTransaction is released and handed out again."
                 req={`{
   "type": "eth_sendRawTransaction",
   "network": "mainnet",
@@ -175,6 +231,24 @@ export const Documentation: React.FC = () => {
 }`}
             />
 
+             <MethodCard 
+                title="vault_speedUpTransaction / vault_cancelTransaction"
+                desc="Replaces a pending transaction from the history at the same nonce and broadcasts the replacement. Speed-up re-sends the original call; cancel sends 0 ETH from the wallet to itself, with an estimated gas limit. Both fee fields are raised by at least 10% over the original, or to the current network estimate (with the Settings multiplier) if that is higher. The replacement is signed under the same policies and fee cap as eth_signTransaction; a cancel is exempt from allowedRecipients, and the daily limit counts a nonce once, at its highest value. An API key also needs the eth_signTransaction scope and access to the wallet."
+                req={`{
+  "type": "vault_speedUpTransaction",   // or vault_cancelTransaction
+  "payload": {
+      "hash": "0x..."                   // Pending transaction from vault_getTransactions
+  }
+}`}
+                res={`{
+  "status": "success",
+  "txHash": "0x456...",
+  "replacedTxHash": "0x123...",
+  "signedTx": "0x02f8...",
+  "transaction": { "nonce": 12, "maxFeePerGas": "...", "maxPriorityFeePerGas": "...", ... }
+}`}
+            />
+
           </div>
         </section>
 
@@ -227,6 +301,51 @@ export const Documentation: React.FC = () => {
   "status": "success",
   "walletId": "b492...",
   "address": "0x..."
+}`}
+            />
+
+             <MethodCard 
+                title="vault_createWallet"
+                desc="Generate 1-100 new random wallets inside the vault. Labels continue the prefix numbering; private keys never leave the vault."
+                req={`{
+  "type": "vault_createWallet",
+  "payload": {
+      "count": 2,
+      "labelPrefix": "Hot_",
+      "metadata": { "notes": "optional" }
+  }
+}`}
+                res={`{
+  "status": "success",
+  "wallets": [
+    { "label": "Hot_1", "address": "0x..." },
+    { "label": "Hot_2", "address": "0x..." }
+  ]
+}`}
+            />
+
+             <MethodCard 
+                title="vault_getTransactions"
+                desc="Lists transactions signed or broadcast from the vault, newest first, with their decoded intent and status: signed, pending, mined, reverted or dropped. Receipts and confirmation counts are refreshed in the background. Optional walletLabel (or derivationPath/derivationIndex), payload.network, payload.status and payload.limit narrow the list; API keys only see their own wallets."
+                req={`{
+  "type": "vault_getTransactions",
+  "walletLabel": "Hot_1",
+  "payload": { "status": "pending", "limit": 20 }
+}`}
+                res={`{
+  "status": "success",
+  "transactions": [{
+    "hash": "0x...",
+    "walletLabel": "Hot_1",
+    "network": "mainnet",
+    "chainId": 1,
+    "nonce": 12,
+    "summary": "Transfer 100 USDC to 0x1111…2222",
+    "status": "mined",
+    "blockNumber": 19000000,
+    "confirmations": 4,
+    "gasUsed": "46109"
+  }]
 }`}
             />
           </div>
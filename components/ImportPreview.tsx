@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Check, X, ListPlus } from 'lucide-react';
+import { ImportPreview as ImportPreviewData, ImportEntry, ImportCategory, ImportResolution, IMPORT_RESOLUTIONS } from '../services/importService';
+
+interface ImportPreviewProps {
+  preview: ImportPreviewData;
+  onApply: (preview: ImportPreviewData) => Promise<void>;
+  onCancel: () => void;
+}
+
+const CATEGORY_STYLES: Record<ImportCategory, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30' },
+  duplicate_address: { label: 'Duplicate Address', className: 'bg-amber-500/10 text-amber-400 border-amber-500/30' },
+  label_conflict: { label: 'Label Conflict', className: 'bg-sky-500/10 text-sky-400 border-sky-500/30' },
+  undecryptable: { label: 'Undecryptable', className: 'bg-red-500/10 text-red-400 border-red-500/30' }
+};
+
+const RESOLUTION_LABELS: Record<ImportResolution, string> = {
+  import: 'Import',
+  skip: 'Skip',
+  rename: 'Import as...',
+  overwrite_metadata: 'Overwrite metadata',
+  keep_both: 'Keep both'
+};
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ preview, onApply, onCancel }) => {
+  const [entries, setEntries] = useState<ImportEntry[]>(preview.entries);
+  const [error, setError] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+
+  const updateEntry = (index: number, changes: Partial<ImportEntry>) => {
+      setEntries(prev => prev.map((e, i) => i === index ? { ...e, ...changes } : e));
+  };
+
+  const handleApply = async () => {
+      setError('');
+      setIsApplying(true);
+      try {
+          await onApply({ ...preview, entries });
+      } catch (e: any) {
+          setError(e.message || 'Import failed');
+      }
+      setIsApplying(false);
+  };
+
+  const counts = entries.reduce((acc, e) => ({ ...acc, [e.category]: (acc[e.category] || 0) + 1 }), {} as Record<string, number>);
+
+  return (
+    <div className="mt-6 border border-slate-700 rounded-xl bg-slate-950/50 p-4">
+       <div className="flex flex-wrap items-center gap-2 mb-4">
+          <span className="text-sm font-medium text-white mr-2">Import Preview</span>
+          {(Object.keys(CATEGORY_STYLES) as ImportCategory[]).filter(c => counts[c]).map(c => (
+              <span key={c} className={`text-xs px-2 py-0.5 rounded border ${CATEGORY_STYLES[c].className}`}>
+                  {counts[c]} {CATEGORY_STYLES[c].label}
+              </span>
+          ))}
+       </div>
+
+       {entries.length === 0 && <p className="text-slate-500 text-sm mb-4">The backup contains no wallets.</p>}
+
+       <div className="space-y-2 max-h-96 overflow-y-auto">
+          {entries.map((entry, i) => (
+              <div key={`${entry.wallet.id}-${i}`} className="flex flex-col md:flex-row md:items-center gap-3 bg-slate-900 border border-slate-800 rounded-lg p-3">
+                  <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                          <span className="text-sm text-white font-medium truncate">{entry.wallet.name}</span>
+                          <span className={`text-[10px] px-1.5 py-0.5 rounded border ${CATEGORY_STYLES[entry.category].className}`}>
+                              {CATEGORY_STYLES[entry.category].label}
+                          </span>
+                      </div>
+                      <div className="text-xs text-slate-500 font-mono truncate">{entry.wallet.address}</div>
+                      {entry.existing && (
+                          <div className="text-xs text-slate-500">Vault: {entry.existing.name} ({entry.existing.address.slice(0, 10)}...)</div>
+                      )}
+                  </div>
+                  <select
+                      className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 outline-none focus:border-sky-500 h-[42px]"
+                      value={entry.resolution}
+                      onChange={(e) => updateEntry(i, { resolution: e.target.value as ImportResolution })}
+                      disabled={IMPORT_RESOLUTIONS[entry.category].length === 1}
+                  >
+                      {IMPORT_RESOLUTIONS[entry.category].map(r => (
+                          <option key={r} value={r}>{RESOLUTION_LABELS[r]}</option>
+                      ))}
+                  </select>
+                  {(entry.resolution === 'rename' || (entry.resolution === 'keep_both' && entry.renameTo !== undefined)) && (
+                      <div className="md:w-48">
+                          <Input
+                              value={entry.renameTo || ''}
+                              onChange={(e) => updateEntry(i, { renameTo: e.target.value })}
+                              placeholder="New label"
+                          />
+                      </div>
+                  )}
+              </div>
+          ))}
+       </div>
+
+       {preview.newAttributes.length > 0 && (
+           <div className="mt-4 text-xs text-slate-400 flex items-center">
+               <ListPlus className="w-4 h-4 mr-2 text-sky-500" />
+               Adds attribute fields: {preview.newAttributes.map(d => d.label).join(', ')}
+           </div>
+       )}
+       {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+
+       <div className="flex gap-3 mt-4">
+          <Button onClick={handleApply} isLoading={isApplying}>
+              <Check className="w-4 h-4 mr-2" />
+              Apply Import
+          </Button>
+          <Button onClick={onCancel} variant="ghost">
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+          </Button>
+       </div>
+    </div>
+  );
+};
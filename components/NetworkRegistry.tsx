@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Globe, Plus, Pencil, Trash2, PlugZap } from 'lucide-react';
+import { NetworkConfig, RegisteredToken } from '../types';
+import { saveNetwork, removeNetwork, probeChainId } from '../services/networkRegistry';
+import { MULTICALL3_ADDRESS } from '../services/balanceScanner';
+
+interface NetworkRegistryProps {
+  networks: NetworkConfig[];
+  tokens: RegisteredToken[];
+  onChange: (networks: NetworkConfig[]) => void;
+}
+
+interface NetworkForm {
+  key: string;
+  chainId: string;
+  name: string;
+  nativeSymbol: string;
+  explorer: string;
+  rpcUrls: string; // One per line, highest priority first
+  multicall3: string;
+}
+
+const EMPTY_FORM: NetworkForm = { key: '', chainId: '', name: '', nativeSymbol: 'ETH', explorer: '', rpcUrls: '', multicall3: '' };
+
+const toForm = (network: NetworkConfig): NetworkForm => ({
+  key: network.key,
+  chainId: String(network.chainId),
+  name: network.name,
+  nativeSymbol: network.nativeSymbol,
+  explorer: network.explorer || '',
+  rpcUrls: network.rpcUrls.join('\n'),
+  multicall3: network.multicall3 || ''
+});
+
+const splitUrls = (text: string) => text.split(/\r?\n/).map(u => u.trim()).filter(Boolean);
+
+export const NetworkRegistry: React.FC<NetworkRegistryProps> = ({ networks, tokens, onChange }) => {
+  const [editingKey, setEditingKey] = useState<string | null>(null); // '' while adding a new network
+  const [form, setForm] = useState<NetworkForm>(EMPTY_FORM);
+  const [error, setError] = useState('');
+  const [probes, setProbes] = useState<Record<string, string>>({});
+  const [isProbing, setIsProbing] = useState(false);
+
+  const openForm = (network?: NetworkConfig) => {
+    setEditingKey(network ? network.key : '');
+    setForm(network ? toForm(network) : EMPTY_FORM);
+    setError('');
+    setProbes({});
+  };
+
+  const closeForm = () => {
+    setEditingKey(null);
+    setError('');
+    setProbes({});
+  };
+
+  const handleSave = () => {
+    try {
+      const entry: NetworkConfig = {
+        key: form.key,
+        chainId: Number(form.chainId),
+        name: form.name,
+        nativeSymbol: form.nativeSymbol,
+        explorer: form.explorer,
+        rpcUrls: splitUrls(form.rpcUrls),
+        multicall3: form.multicall3
+      };
+      onChange(saveNetwork(networks, entry, editingKey || undefined));
+      closeForm();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleRemove = (network: NetworkConfig) => {
+    const tokenCount = tokens.filter(t => t.network === network.key).length;
+    const tokenNote = tokenCount > 0 ? ` Its ${tokenCount} registered token(s) are removed too.` : '';
+    if (!confirm(`Remove ${network.name} (${network.key}) from the registry?${tokenNote}`)) return;
+    onChange(removeNetwork(networks, network.key));
+  };
+
+  // Asks every endpoint for its chain ID, so a wrong URL is caught before it is saved
+  const handleProbe = async () => {
+    setIsProbing(true);
+    const expected = Number(form.chainId);
+    const results: Record<string, string> = {};
+    await Promise.all(splitUrls(form.rpcUrls).map(async url => {
+      try {
+        const chainId = await probeChainId(url);
+        results[url] = chainId === expected ? `OK (chain ${chainId})` : `Serves chain ${chainId}, expected ${form.chainId || '?'}`;
+      } catch (e: any) {
+        results[url] = `Unreachable: ${e.message}`;
+      }
+    }));
+    setProbes(results);
+    setIsProbing(false);
+  };
+
+  const setField = (field: keyof NetworkForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
+      <h3 className="text-lg font-medium text-white mb-4 flex items-center">
+        <Globe className="w-5 h-5 mr-2 text-sky-500" />
+        Networks
+      </h3>
+      <p className="text-slate-400 text-sm mb-6">
+        Chains the vault scans, signs for and broadcasts to. RPC endpoints are tried in the listed order, so put a private node first and keep public ones as fallback. Local chains such as Anvil or Hardhat work with their HTTP endpoint.
+      </p>
+
+      <div className="space-y-2 mb-6">
+        {networks.map(network => (
+          <div key={network.key} className="flex items-center justify-between p-3 bg-slate-950 border border-slate-800 rounded-lg">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-white font-medium">{network.name}</span>
+                <span className="text-xs font-mono text-slate-500">{network.key}</span>
+                <span className="text-xs text-slate-600">chain {network.chainId} · {network.nativeSymbol}</span>
+              </div>
+              <div className="text-xs font-mono text-slate-500 truncate">
+                {network.rpcUrls[0]}{network.rpcUrls.length > 1 && ` (+${network.rpcUrls.length - 1} fallback)`}
+              </div>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <button
+                onClick={() => openForm(network)}
+                className="text-slate-500 hover:text-sky-400 transition-colors p-1"
+                title="Edit Network"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleRemove(network)}
+                disabled={networks.length === 1}
+                className="text-slate-500 hover:text-red-400 transition-colors p-1 disabled:opacity-30 disabled:hover:text-slate-500"
+                title={networks.length === 1 ? 'At least one network is required' : 'Remove Network'}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editingKey === null ? (
+        <Button variant="secondary" onClick={() => openForm()}>
+          <Plus className="w-4 h-4 mr-2" /> Add Network
+        </Button>
+      ) : (
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700/50 space-y-3">
+          <h4 className="text-sm font-bold text-slate-300">{editingKey ? `Edit ${editingKey}` : 'Add Network'}</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {/* The key is referenced by registered tokens and payout runs, so it is fixed once created */}
+            <Input label="Key" placeholder="e.g. anvil" value={form.key} onChange={setField('key')} disabled={!!editingKey} className="font-mono" />
+            <Input label="Chain ID" placeholder="e.g. 31337" value={form.chainId} onChange={setField('chainId')} className="font-mono" />
+            <Input label="Native Symbol" value={form.nativeSymbol} onChange={setField('nativeSymbol')} />
+            <div className="md:col-span-2">
+              <Input label="Name" placeholder="e.g. Local Anvil" value={form.name} onChange={setField('name')} />
+            </div>
+            <Input label="Explorer URL (optional)" placeholder="https://..." value={form.explorer} onChange={setField('explorer')} />
+            <div className="md:col-span-3">
+              <Input label="Multicall3 Address (optional)" placeholder={`Default: ${MULTICALL3_ADDRESS}`} value={form.multicall3} onChange={setField('multicall3')} className="font-mono" />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-1">RPC Endpoints (one per line, highest priority first)</label>
+            <textarea
+              className="w-full h-24 bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-xs font-mono text-slate-100 outline-none focus:border-sky-500"
+              placeholder={'http://127.0.0.1:8545'}
+              value={form.rpcUrls}
+              onChange={setField('rpcUrls')}
+            />
+          </div>
+          {Object.keys(probes).length > 0 && (
+            <ul className="space-y-1 text-xs font-mono">
+              {Object.entries(probes).map(([url, result]) => (
+                <li key={url} className={result.startsWith('OK') ? 'text-emerald-400' : 'text-red-400'}>
+                  {url}: {result}
+                </li>
+              ))}
+            </ul>
+          )}
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <div className="flex gap-2">
+            <Button onClick={handleSave}>{editingKey ? 'Save Network' : 'Add Network'}</Button>
+            <Button variant="secondary" onClick={handleProbe} isLoading={isProbing} disabled={splitUrls(form.rpcUrls).length === 0}>
+              <PlugZap className="w-4 h-4 mr-2" /> Check Endpoints
+            </Button>
+            <Button variant="ghost" onClick={closeForm}>Cancel</Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,26 +2,57 @@
 import React, { useRef, useState } from 'react';
 import { Button } from './Button';
 import { Input } from './Input';
-import { Download, AlertTriangle, Shield, Clock, Upload, Check, ListPlus, Trash2, Plus } from 'lucide-react';
-import { AttributeDefinition, AttributeType, VaultSettings } from '../types';
+import { Download, AlertTriangle, Shield, Clock, Upload, Check, ListPlus, Trash2, Plus, KeyRound, Copy, Lock, Fuel } from 'lucide-react';
+import { AttributeDefinition, AttributeType, VaultSettings, OperationType } from '../types';
+import { OPERATION_GROUPS, generateApiKey } from '../services/apiKeys';
+import { BACKUP_EXTENSION } from '../services/backupService';
+import { ImportPreview as ImportPreviewData } from '../services/importService';
+import { ImportPreview } from './ImportPreview';
+import { SigningPolicies } from './SigningPolicies';
+import { TokenRegistry } from './TokenRegistry';
+import { NetworkRegistry } from './NetworkRegistry';
 
 interface SettingsProps {
   settings?: VaultSettings;
   onUpdateSettings?: (s: Partial<VaultSettings>) => void;
-  onExport: () => void;
-  onImport: (json: string) => Promise<{success: boolean; error?: any; count?: number}>;
+  onExport: (passphrase: string) => Promise<void>;
+  onPreviewImport: (content: string, passphrase: string) => Promise<ImportPreviewData>;
+  onImport: (preview: ImportPreviewData) => Promise<number>;
   onClear: () => void;
+  onChangePassword?: (oldPassword: string, newPassword: string, onProgress: (done: number, total: number) => void) => Promise<string[]>; // Resolves with wallets left in a legacy packet
 }
 
-export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings, onExport, onImport, onClear }) => {
+export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings, onExport, onPreviewImport, onImport, onClear, onChangePassword }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [importStatus, setImportStatus] = useState<string>('');
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [backupConfirm, setBackupConfirm] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreviewData | null>(null);
   
   // New Attribute State
   const [newAttrLabel, setNewAttrLabel] = useState('');
   const [newAttrType, setNewAttrType] = useState<AttributeType>('text');
   const [newAttrOptions, setNewAttrOptions] = useState('');
 
+  // New API Key State
+  const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyScopes, setNewKeyScopes] = useState<OperationType[]>(OPERATION_GROUPS[0].operations);
+  const [newKeyWallets, setNewKeyWallets] = useState('');
+  const [issuedSecret, setIssuedSecret] = useState<string | null>(null);
+
+  // Fee Settings State
+  const [feeMultiplier, setFeeMultiplier] = useState(String(settings?.fees.multiplier ?? 1));
+  const [maxFeeGwei, setMaxFeeGwei] = useState(settings?.fees.maxFeeGwei !== undefined ? String(settings.fees.maxFeeGwei) : '');
+  const [feeStatus, setFeeStatus] = useState<{msg: string, type: 'error' | 'success'} | null>(null);
+
+  // Password Change State
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [rekeyProgress, setRekeyProgress] = useState<{done: number, total: number} | null>(null);
+  const [passwordStatus, setPasswordStatus] = useState<{msg: string, type: 'error' | 'success'} | null>(null);
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
@@ -30,12 +61,12 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
       reader.onload = async (evt) => {
           const content = evt.target?.result as string;
           if (content) {
-              const result = await onImport(content);
-              if (result.success) {
-                  setImportStatus(`Successfully imported ${result.count} wallets.`);
-                  setTimeout(() => setImportStatus(''), 3000);
-              } else {
-                  setImportStatus(`Error: ${result.error?.message || 'Invalid format'}`);
+              setImportStatus('');
+              try {
+                  setImportPreview(await onPreviewImport(content, backupPassphrase));
+              } catch (err: any) {
+                  setImportPreview(null);
+                  setImportStatus(`Error: ${err.message || 'Invalid format'}`);
               }
           }
       };
@@ -43,6 +74,30 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
       e.target.value = '';
   };
 
+  const handleApplyImport = async (preview: ImportPreviewData) => {
+      const count = await onImport(preview);
+      setImportPreview(null);
+      setImportStatus(`Successfully imported ${count} wallets.`);
+      setTimeout(() => setImportStatus(''), 3000);
+  };
+
+  const handleExport = async () => {
+      if (backupPassphrase !== backupConfirm) {
+          setImportStatus('Error: Backup passphrases do not match');
+          return;
+      }
+      setIsExporting(true);
+      try {
+          await onExport(backupPassphrase);
+          setImportStatus('Successfully exported encrypted backup.');
+          setBackupConfirm('');
+          setTimeout(() => setImportStatus(''), 3000);
+      } catch (e: any) {
+          setImportStatus(`Error: ${e.message || 'Export failed'}`);
+      }
+      setIsExporting(false);
+  };
+
   const addAttribute = () => {
       if (!newAttrLabel.trim() || !settings || !onUpdateSettings) return;
       
@@ -70,6 +125,78 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
       });
   };
 
+  const toggleScope = (op: OperationType) => {
+      setNewKeyScopes(prev => prev.includes(op) ? prev.filter(s => s !== op) : [...prev, op]);
+  };
+
+  const createApiKey = async () => {
+      if (!newKeyName.trim() || newKeyScopes.length === 0 || !settings || !onUpdateSettings) return;
+
+      const walletLabels = newKeyWallets.split(',').map(s => s.trim()).filter(Boolean);
+      const { secret, record } = await generateApiKey(newKeyName.trim(), newKeyScopes, walletLabels);
+      onUpdateSettings({
+          apiKeys: [...settings.apiKeys, record]
+      });
+
+      setIssuedSecret(secret);
+      setNewKeyName('');
+      setNewKeyWallets('');
+      setNewKeyScopes(OPERATION_GROUPS[0].operations);
+  };
+
+  const revokeApiKey = (id: string) => {
+      if (!settings || !onUpdateSettings) return;
+      if (!confirm('Revoke this API key? Services using it will immediately lose access.')) return;
+      onUpdateSettings({
+          apiKeys: settings.apiKeys.filter(k => k.id !== id)
+      });
+  };
+
+  const saveFeeSettings = () => {
+      if (!onUpdateSettings) return;
+      const multiplier = Number(feeMultiplier);
+      const cap = maxFeeGwei.trim() ? Number(maxFeeGwei) : undefined;
+      if (!Number.isFinite(multiplier) || multiplier < 1 || multiplier > 10) {
+          setFeeStatus({ msg: 'Fee multiplier must be between 1 and 10', type: 'error' });
+          return;
+      }
+      if (cap !== undefined && (!Number.isFinite(cap) || cap <= 0)) {
+          setFeeStatus({ msg: 'Max fee must be a positive number of gwei', type: 'error' });
+          return;
+      }
+      onUpdateSettings({ fees: { multiplier, maxFeeGwei: cap } });
+      setFeeStatus({ msg: 'Fee settings saved.', type: 'success' });
+      setTimeout(() => setFeeStatus(null), 3000);
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!onChangePassword) return;
+      setPasswordStatus(null);
+
+      if (newPassword.length < 6) {
+          setPasswordStatus({ msg: 'New password must be at least 6 characters', type: 'error' });
+          return;
+      }
+      if (newPassword !== confirmPassword) {
+          setPasswordStatus({ msg: 'New passwords do not match', type: 'error' });
+          return;
+      }
+
+      setRekeyProgress({ done: 0, total: 0 });
+      try {
+          const skipped = await onChangePassword(currentPassword, newPassword, (done, total) => setRekeyProgress({ done, total }));
+          setPasswordStatus(skipped.length === 0
+              ? { msg: 'Master password changed. All keys were re-encrypted.', type: 'success' }
+              : { msg: `Master password changed. ${skipped.length} key(s) in the legacy format could not be opened with the current password and still need their old one: ${skipped.join(', ')}`, type: 'error' });
+          setCurrentPassword(''); setNewPassword(''); setConfirmPassword('');
+      } catch (err: any) {
+          setPasswordStatus({ msg: err.message, type: 'error' });
+      } finally {
+          setRekeyProgress(null);
+      }
+  };
+
   return (
     <div className="space-y-6 animate-in slide-in-from-right-4 duration-500 max-w-4xl mx-auto pb-12">
       <div className="flex items-center space-x-3 mb-6">
@@ -153,6 +280,156 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
              </div>
         )}
 
+        {/* API Keys */}
+        {settings && onUpdateSettings && (
+             <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
+                <h3 className="text-lg font-medium text-white mb-4 flex items-center">
+                    <KeyRound className="w-5 h-5 mr-2 text-sky-500" />
+                    RPC API Keys
+                </h3>
+                <p className="text-slate-400 text-sm mb-6">
+                    Callers of <code className="text-sky-300">POST /api/v1/rpc</code> must present one of these keys. Each key is limited to the selected operations and wallet labels.
+                </p>
+
+                {issuedSecret && (
+                    <div className="mb-6 p-4 bg-amber-950/20 border border-amber-900/50 rounded-lg">
+                        <p className="text-xs text-amber-500 font-bold uppercase mb-2">Copy this key now. It will not be shown again.</p>
+                        <div className="flex items-center justify-between">
+                            <code className="text-amber-300 font-mono text-sm break-all select-all">{issuedSecret}</code>
+                            <div className="flex space-x-2 ml-4">
+                                <button onClick={() => navigator.clipboard.writeText(issuedSecret)} className="text-amber-500/70 hover:text-amber-400 p-2" title="Copy">
+                                    <Copy className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => setIssuedSecret(null)} className="text-xs text-slate-500 hover:text-white">Dismiss</button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {/* List Existing */}
+                <div className="space-y-3 mb-6">
+                    {settings.apiKeys.length === 0 && <p className="text-sm text-slate-600 italic">No API keys issued.</p>}
+                    {settings.apiKeys.map((key) => (
+                        <div key={key.id} className="flex items-center justify-between p-3 bg-slate-950 border border-slate-800 rounded-lg">
+                            <div className="min-w-0">
+                                <span className="text-white font-medium mr-2">{key.name}</span>
+                                <code className="text-xs text-slate-500 font-mono">{key.prefix}…</code>
+                                <div className="text-xs text-slate-500 mt-1 truncate">Scopes: {key.scopes.join(', ')}</div>
+                                <div className="text-xs text-slate-500 truncate">Wallets: {key.walletLabels.length > 0 ? key.walletLabels.join(', ') : 'All'}</div>
+                            </div>
+                            <button 
+                                onClick={() => revokeApiKey(key.id)}
+                                className="text-slate-500 hover:text-red-400 transition-colors p-2"
+                                title="Revoke Key"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                {/* Issue New */}
+                <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700/50 space-y-4">
+                    <h4 className="text-sm font-bold text-slate-300">Issue New Key</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <Input 
+                            placeholder="Name (e.g. Withdrawal Service)" 
+                            value={newKeyName}
+                            onChange={(e) => setNewKeyName(e.target.value)}
+                        />
+                        <Input 
+                            placeholder="Wallet labels, comma separated (empty = all, hot_* allowed)" 
+                            value={newKeyWallets}
+                            onChange={(e) => setNewKeyWallets(e.target.value)}
+                        />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {OPERATION_GROUPS.map(group => (
+                            <div key={group.label}>
+                                <div className="text-xs font-bold text-slate-500 uppercase mb-2">{group.label}</div>
+                                {group.operations.map(op => (
+                                    <label key={op} className="flex items-center text-xs font-mono text-slate-300 mb-1 cursor-pointer">
+                                        <input 
+                                            type="checkbox" 
+                                            className="mr-2 accent-sky-500"
+                                            checked={newKeyScopes.includes(op)}
+                                            onChange={() => toggleScope(op)}
+                                        />
+                                        {op}
+                                    </label>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                    <Button onClick={createApiKey} disabled={!newKeyName.trim() || newKeyScopes.length === 0}>
+                        <Plus className="w-4 h-4 mr-2" /> Issue Key
+                    </Button>
+                </div>
+             </div>
+        )}
+
+        {/* Signing Policies */}
+        {settings && onUpdateSettings && (
+             <SigningPolicies
+                policies={settings.policies}
+                onChange={(policies) => onUpdateSettings({ policies })}
+             />
+        )}
+
+        {/* Networks */}
+        {settings && onUpdateSettings && (
+             <NetworkRegistry
+                networks={settings.networks}
+                tokens={settings.tokens}
+                // Tokens of a removed network go with it
+                onChange={(networks) => onUpdateSettings({ networks, tokens: settings.tokens.filter(t => networks.some(n => n.key === t.network)) })}
+             />
+        )}
+
+        {/* Token Registry */}
+        {settings && onUpdateSettings && (
+             <TokenRegistry
+                tokens={settings.tokens}
+                onChange={(tokens) => onUpdateSettings({ tokens })}
+             />
+        )}
+
+        {/* Transaction Fees */}
+        {settings && onUpdateSettings && (
+             <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
+                <h3 className="text-lg font-medium text-white mb-4 flex items-center">
+                    <Fuel className="w-5 h-5 mr-2 text-sky-500" />
+                    Transaction Fees
+                </h3>
+                <p className="text-slate-400 text-sm mb-6">
+                    Transactions without nonce, gas or fee fields are completed from the target network. The network fee estimate is multiplied by the factor below; transactions whose max fee exceeds the cap are refused.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                    <Input 
+                        label="Fee multiplier"
+                        type="number"
+                        step="0.05"
+                        min="1"
+                        value={feeMultiplier}
+                        onChange={(e) => setFeeMultiplier(e.target.value)}
+                    />
+                    <Input 
+                        label="Max fee cap (gwei)"
+                        type="number"
+                        placeholder="No cap"
+                        value={maxFeeGwei}
+                        onChange={(e) => setMaxFeeGwei(e.target.value)}
+                    />
+                    <Button onClick={saveFeeSettings} className="h-[42px]">
+                        <Check className="w-4 h-4 mr-2" /> Save
+                    </Button>
+                </div>
+                {feeStatus && (
+                    <p className={`mt-3 text-sm ${feeStatus.type === 'error' ? 'text-red-400' : 'text-emerald-400'}`}>{feeStatus.msg}</p>
+                )}
+             </div>
+        )}
+
         {/* Security Policies */}
         <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
            <h3 className="text-lg font-medium text-white mb-4 flex items-center">
@@ -173,6 +450,46 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
            </div>
         </div>
 
+        {/* Master Password */}
+        {onChangePassword && (
+            <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
+               <h3 className="text-lg font-medium text-white mb-4 flex items-center">
+                  <Lock className="w-5 h-5 mr-2 text-sky-500" />
+                  Change Master Password
+               </h3>
+               <p className="text-slate-400 text-sm mb-6">
+                  A new vault data key is generated and wrapped by the new password, and every wallet key is re-encrypted under it. The vault is only updated once all keys succeed.
+               </p>
+               <form onSubmit={handleChangePassword} className="space-y-4 max-w-md">
+                  <Input type="password" label="Current Password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} disabled={!!rekeyProgress} />
+                  <Input type="password" label="New Password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} disabled={!!rekeyProgress} />
+                  <Input type="password" label="Confirm New Password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} disabled={!!rekeyProgress} />
+
+                  {rekeyProgress && rekeyProgress.total > 0 && (
+                      <div>
+                          <div className="flex justify-between text-xs text-slate-500 mb-1">
+                              <span>Re-encrypting keys...</span>
+                              <span className="font-mono">{rekeyProgress.done} / {rekeyProgress.total}</span>
+                          </div>
+                          <div className="h-2 bg-slate-950 rounded-full overflow-hidden border border-slate-800">
+                              <div className="h-full bg-sky-500 transition-all" style={{ width: `${(rekeyProgress.done / rekeyProgress.total) * 100}%` }} />
+                          </div>
+                      </div>
+                  )}
+
+                  <Button type="submit" isLoading={!!rekeyProgress} disabled={!currentPassword || !newPassword}>
+                      Re-encrypt Vault
+                  </Button>
+               </form>
+               {passwordStatus && (
+                   <div className={`mt-4 text-sm ${passwordStatus.type === 'error' ? 'text-red-400' : 'text-emerald-400'} flex items-center`}>
+                       {passwordStatus.type === 'success' && <Check className="w-4 h-4 mr-2" />}
+                       {passwordStatus.msg}
+                   </div>
+               )}
+            </div>
+        )}
+
         {/* Data Management */}
         <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
            <h3 className="text-lg font-medium text-white mb-4 flex items-center">
@@ -180,15 +497,32 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
               Vault Data Management
            </h3>
            <p className="text-slate-400 text-sm mb-6">
-              Backup your encrypted vault. The backup file contains encrypted keys and your custom attribute configurations.
+              Backup your vault as an encrypted <span className="font-mono">{BACKUP_EXTENSION}</span> file. Keys, labels, addresses, metadata and settings are all encrypted under a separate backup passphrase.
               <br/>
-              <strong className="text-sky-500">You must use the same master password to decrypt imported wallets.</strong>
+              <strong className="text-sky-500">Backups can be restored into any vault, but only with the passphrase they were exported with.</strong>
+              {' '}For plain <span className="font-mono">.json</span> backups from older versions, enter the master password they were exported under.
            </p>
+
+           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              <Input
+                  label="Backup Passphrase"
+                  type="password"
+                  value={backupPassphrase}
+                  onChange={(e) => setBackupPassphrase(e.target.value)}
+                  placeholder="Min. 8 characters"
+              />
+              <Input
+                  label="Confirm (export only)"
+                  type="password"
+                  value={backupConfirm}
+                  onChange={(e) => setBackupConfirm(e.target.value)}
+              />
+           </div>
            
            <div className="flex flex-col sm:flex-row gap-4">
-              <Button onClick={onExport} variant="secondary">
+              <Button onClick={handleExport} variant="secondary" isLoading={isExporting} disabled={!backupPassphrase}>
                  <Download className="w-4 h-4 mr-2" />
-                 Download Backup (.json)
+                 Download Backup ({BACKUP_EXTENSION})
               </Button>
 
               <div className="relative">
@@ -196,7 +530,7 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
                       type="file" 
                       ref={fileInputRef}
                       onChange={handleFileUpload}
-                      accept=".json"
+                      accept={`.json,${BACKUP_EXTENSION}`}
                       className="hidden"
                   />
                   <Button onClick={() => fileInputRef.current?.click()} variant="primary">
@@ -205,6 +539,13 @@ export const Settings: React.FC<SettingsProps> = ({ settings, onUpdateSettings,
                   </Button>
               </div>
            </div>
+           {importPreview && (
+               <ImportPreview
+                   preview={importPreview}
+                   onApply={handleApplyImport}
+                   onCancel={() => setImportPreview(null)}
+               />
+           )}
            {importStatus && (
                <div className={`mt-4 text-sm ${importStatus.includes('Error') ? 'text-red-400' : 'text-emerald-400'} flex items-center`}>
                    {importStatus.includes('Success') && <Check className="w-4 h-4 mr-2" />}
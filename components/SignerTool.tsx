@@ -1,16 +1,32 @@
 
 import React, { useState } from 'react';
-import { WalletData, ApiRequest, ServiceResponse } from '../types';
+import { WalletData, SeedData, ApiRequest, ServiceResponse, SigningPolicy, TransactionPreview, TypedDataReview, FeeSettings, RegisteredToken } from '../types';
 import { Button } from './Button';
-import { decryptData, signMessage, signTransaction, signTypedData, fetchBalance, broadcastTransaction, fetchNonce, ethCall, estimateGas, NETWORKS, getNetworkMetadata, createWalletFromKey, encryptData } from '../services/cryptoService';
-import { Terminal, Lock, CheckCircle, AlertCircle, Play, Code, Network, Send, RefreshCw, Calculator, ArrowDown } from 'lucide-react';
+import { fetchNonce } from '../services/cryptoService';
+import { listNetworks, getNetworkMetadata, getChainIdForNetwork } from '../services/networkRegistry';
+import { executeRequest } from '../services/requestEngine';
+import { SpendLedger } from '../services/policyEngine';
+import { NonceManager } from '../services/nonceManager';
+import { TransactionStore, broadcastAndTrack } from '../services/txStore';
+import { decodeTransaction } from '../services/txDecoder';
+import { TransactionPreviewPanel } from './TransactionPreviewPanel';
+import { normalizeTypedData, reviewTypedData } from '../services/typedDataReview';
+import { TypedDataReviewPanel } from './TypedDataReviewPanel';
+import { Terminal, Lock, CheckCircle, AlertCircle, Play, Code, Network, Send, RefreshCw, Calculator, ArrowDown, ScanSearch } from 'lucide-react';
 import { logger } from '../services/systemLogger';
 import { ethers } from 'ethers';
 
 interface SignerToolProps {
   wallets: WalletData[];
-  password: string;
-  onAddWallet: (wallet: WalletData) => void;
+  seeds: SeedData[];
+  dataKey: CryptoKey;
+  policies: SigningPolicy[];
+  spendLedger?: SpendLedger;
+  fees: FeeSettings;
+  nonces: NonceManager;
+  transactions: TransactionStore;
+  tokens: RegisteredToken[];
+  onAddWallets: (wallets: WalletData[]) => void | Promise<void>;
 }
 
 // Full API Templates (Strictly 10 interfaces)
@@ -50,11 +66,8 @@ const TEMPLATES = {
   "payload": {
     "to": "0xDESTINATION",
     "value": "1000000000000000",
-    "chainId": 1,
-    "nonce": 0,
-    "gasLimit": "21000",
-    "maxFeePerGas": "30000000000",
-    "maxPriorityFeePerGas": "1500000000"
+    "data": "0x",
+    "chainId": 1
   }
 }`,
   eth_sendRawTransaction: `{
@@ -63,24 +76,44 @@ const TEMPLATES = {
   "payload": {
      "raw": "0x02f8..." 
   }
+}`,
+  vault_speedUpTransaction: `{
+  "type": "vault_speedUpTransaction",
+  "payload": {
+     "hash": "0x..."
+  }
+}`,
+  vault_cancelTransaction: `{
+  "type": "vault_cancelTransaction",
+  "payload": {
+     "hash": "0x..."
+  }
 }`,
   eth_signTypedData: `{
   "type": "eth_signTypedData",
   "walletLabel": "SELECT_WALLET_LABEL",
+  "network": "mainnet",
   "payload": {
-    "domain": {
-      "name": "Ether Mail",
-      "version": "1",
-      "chainId": 1,
-      "verifyingContract": "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC"
-    },
     "types": {
+      "EIP712Domain": [
+        { "name": "name", "type": "string" },
+        { "name": "version", "type": "string" },
+        { "name": "chainId", "type": "uint256" },
+        { "name": "verifyingContract", "type": "address" }
+      ],
       "Person": [
         { "name": "name", "type": "string" },
         { "name": "wallet", "type": "address" }
       ]
     },
-    "value": {
+    "primaryType": "Person",
+    "domain": {
+      "name": "Ether Mail",
+      "version": "1",
+      "chainId": 1,
+      "verifyingContract": "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC"
+    },
+    "message": {
       "name": "Bob",
       "wallet": "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB"
     }
@@ -100,10 +133,26 @@ const TEMPLATES = {
       "label": "MyNewWallet",
       "privateKey": "0x..."
   }
+}`,
+  vault_createWallet: `{
+  "type": "vault_createWallet",
+  "payload": {
+      "count": 5,
+      "labelPrefix": "Hot_",
+      "metadata": { "notes": "Batch 2024-05" }
+  }
+}`,
+  vault_getTransactions: `{
+  "type": "vault_getTransactions",
+  "walletLabel": "SELECT_WALLET_LABEL",
+  "payload": {
+      "status": "pending",
+      "limit": 20
+  }
 }`
 };
 
-export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAddWallet }) => {
+export const SignerTool: React.FC<SignerToolProps> = ({ wallets, seeds, dataKey, policies, spendLedger, fees, nonces, transactions, tokens, onAddWallets }) => {
   const [requestJson, setRequestJson] = useState(TEMPLATES.eth_getBalance);
   const [responseJson, setResponseJson] = useState<string>('');
   const [lastSignature, setLastSignature] = useState<{sig: string, chainId?: number} | null>(null);
@@ -111,6 +160,9 @@ export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAdd
   const [broadcastState, setBroadcastState] = useState<{status: 'idle'|'sending'|'success'|'error', msg?: string}>({status: 'idle'});
   const [isFetchingNonce, setIsFetchingNonce] = useState(false);
   const [logs, setLogs] = useState<string[]>([]);
+  const [preview, setPreview] = useState<TransactionPreview | null>(null);
+  const [typedReview, setTypedReview] = useState<TypedDataReview | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
   
   // ABI Encoder State
   const [showAbiTool, setShowAbiTool] = useState(false);
@@ -132,6 +184,8 @@ export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAdd
     setRequestJson(JSON.stringify(template, null, 2));
     setLastSignature(null); 
     setBroadcastState({status: 'idle'});
+    setPreview(null);
+    setTypedReview(null);
     
     // Auto-open ABI tool for generic calls
     if (type === 'eth_call') setShowAbiTool(true);
@@ -191,7 +245,10 @@ export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAdd
       if (!networkKey) networkKey = 'mainnet';
 
       addLog(`Fetching next nonce for ${targetAddress.slice(0,8)}... on ${networkKey}`);
-      const nonce = await fetchNonce(targetAddress, networkKey);
+      const onChain = await fetchNonce(targetAddress, networkKey);
+      // Nonces signed here but not yet broadcast aren't in the pending count
+      const tracked = nonces.list().find(s => s.address === targetAddress!.toLowerCase() && s.chainId === getChainIdForNetwork(networkKey!));
+      const nonce = tracked ? Math.max(onChain, tracked.released.find(n => n >= onChain) ?? tracked.next) : onChain;
       
       if (request.payload) {
           request.payload.nonce = nonce;
@@ -210,178 +267,78 @@ export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAdd
     }
   };
 
+  const handlePreview = async () => {
+    setIsDecoding(true);
+    setPreview(null);
+    setTypedReview(null);
+    try {
+      const request = JSON.parse(requestJson);
+      if (request.type === 'eth_signTransaction') {
+          const decoded = await decodeTransaction(request.payload, request.network, tokens);
+          setPreview(decoded);
+          addLog(`Preview: ${decoded.summary}`);
+      } else if (request.type === 'eth_signTypedData') {
+          const review = reviewTypedData(normalizeTypedData(request.payload), request.network);
+          setTypedReview(review);
+          addLog(`Preview: ${review.kind ? `${review.kind} ` : ''}${review.primaryType}`);
+      } else {
+          throw new Error("Preview is available for eth_signTransaction and eth_signTypedData requests");
+      }
+    } catch (e: any) {
+      addLog(`Preview Error: ${e.message}`);
+    } finally {
+      setIsDecoding(false);
+    }
+  };
+
   const handleProcessRequest = async () => {
     setStatus('processing');
     setResponseJson('');
     setLogs([]);
     setLastSignature(null);
     setBroadcastState({status: 'idle'});
+    setPreview(null);
+    setTypedReview(null);
     addLog("Received API request...");
 
+    let request: ApiRequest;
     try {
-      let request: ApiRequest;
-      try {
-        request = JSON.parse(requestJson);
-        addLog(`Payload parsed. Type: ${request.type}`);
-      } catch (e) {
-        throw new Error("Invalid JSON format.");
-      }
-
-      // --- 1. VAULT MANAGEMENT METHODS (No Crypto, No Keys for retrieval) ---
-      if (request.type.startsWith('vault_')) {
-          let response: ServiceResponse;
-          
-          if (request.type === 'vault_listWallets') {
-             response = {
-                 status: 'success',
-                 operation: request.type,
-                 wallets: wallets.map(w => ({ label: w.name, address: w.address }))
-             };
-          } else if (request.type === 'vault_getAddress') {
-             const w = wallets.find(w => w.name === request.walletLabel);
-             if (!w) throw new Error(`Wallet not found: ${request.walletLabel}`);
-             response = {
-                 status: 'success',
-                 operation: request.type,
-                 address: w.address
-             };
-          } else if (request.type === 'vault_importPrivateKey') {
-              // Handle Import via API
-              if (!request.payload?.label || !request.payload?.privateKey) {
-                  throw new Error("Import requires 'label' and 'privateKey' in payload");
-              }
-              const label = request.payload.label;
-              if (wallets.some(w => w.name === label)) throw new Error(`Wallet label '${label}' already exists`);
-              
-              const { address, valid } = createWalletFromKey(request.payload.privateKey);
-              if (!valid) throw new Error("Invalid Private Key");
-
-              const encrypted = await encryptData(request.payload.privateKey, password);
-              const newWallet: WalletData = {
-                  id: crypto.randomUUID(),
-                  name: label,
-                  address,
-                  encryptedPrivateKey: encrypted,
-                  createdAt: Date.now(),
-                  metadata: { notes: 'Imported via API' }
-              };
-              
-              onAddWallet(newWallet);
-              
-              response = {
-                  status: 'success',
-                  operation: request.type,
-                  walletId: newWallet.id,
-                  address: newWallet.address,
-                  walletLabel: newWallet.name
-              };
-          } else {
-              throw new Error("Unknown vault method");
-          }
-          
-          setResponseJson(JSON.stringify(response, null, 2));
-          setStatus('success');
-          return;
-      }
-
-      // --- 2. READ-ONLY RPC METHODS (No Private Key) ---
-      if (['eth_getBalance', 'eth_call', 'eth_estimateGas', 'eth_sendRawTransaction'].includes(request.type)) {
-           const network = request.network || 'mainnet';
-           addLog(`Executing Read-Only/RPC Op on ${network}...`);
-           
-           let response: ServiceResponse = { status: 'success', operation: request.type };
-
-           if (request.type === 'eth_getBalance') {
-               const addr = request.address || request.payload?.address;
-               if (!addr) throw new Error("Missing 'address'");
-               const bal = await fetchBalance(addr, network);
-               if (bal === 'Error') throw new Error("RPC Error fetching balance");
-               response.balance_wei = bal.wei.toString();
-               response.balance_eth = bal.eth;
-           } 
-           else if (request.type === 'eth_call') {
-               if (!request.payload) throw new Error("Missing payload");
-               const res = await ethCall(request.payload, network);
-               response.result = res;
-           }
-           else if (request.type === 'eth_estimateGas') {
-               if (!request.payload) throw new Error("Missing payload");
-               const gas = await estimateGas(request.payload, network);
-               response.gas = gas.toString();
-           }
-           else if (request.type === 'eth_sendRawTransaction') {
-               if (!request.payload?.raw) throw new Error("Missing payload.raw (hex string)");
-               const txHash = await broadcastTransaction(request.payload.raw, network);
-               response.txHash = txHash;
-           }
-
-           setResponseJson(JSON.stringify(response, null, 2));
-           setStatus('success');
-           addLog("RPC Operation Successful.");
-           return;
-      }
-
-      // --- 3. SIGNATURE METHODS (Requires Private Key) ---
-      
-      // Resolve Wallet
-      let targetWallet: WalletData | undefined;
-      if (request.walletLabel) {
-          targetWallet = wallets.find(w => w.name === request.walletLabel);
-          if (targetWallet) {
-             addLog(`Resolved Wallet Label '${request.walletLabel}'`);
-          }
-      }
-
-      if (!targetWallet) {
-          throw new Error(`Operation ${request.type} requires a valid 'walletLabel' present in the vault.`);
-      }
-
-      addLog(`Decrypting key for ${targetWallet.name}...`);
-      const privateKey = await decryptData(targetWallet.encryptedPrivateKey, password);
-      addLog("Decryption successful.");
-
-      let response: ServiceResponse = { status: 'success', operation: request.type, walletLabel: targetWallet.name };
-
-      if (request.type === 'personal_sign') {
-         addLog("Signing message...");
-         const sig = await signMessage(privateKey, request.payload);
-         response.signature = sig;
-      } 
-      else if (request.type === 'eth_signTransaction') {
-         addLog("Signing transaction...");
-         const sig = await signTransaction(privateKey, request.payload);
-         response.signedTx = sig;
-         response.txHash = ethers.keccak256(sig);
-         
-         // Store for UI broadcast
-         if (request.payload.chainId) {
-             setLastSignature({ sig: sig, chainId: Number(request.payload.chainId) });
-         }
-      } 
-      else if (request.type === 'eth_signTypedData') {
-         addLog("Signing typed data (EIP-712)...");
-         const sig = await signTypedData(privateKey, request.payload);
-         response.signature = sig;
-      } 
-      else {
-          throw new Error("Unsupported operation type");
-      }
-      
-      setResponseJson(JSON.stringify(response, null, 2));
-      setStatus('success');
-      addLog("Signature generated successfully.");
-      logger.log(`Signed ${request.type} with ${targetWallet.name}`, 'success', 'Signer');
-
-    } catch (err: any) {
-      setStatus('error');
+      request = JSON.parse(requestJson);
+      addLog(`Payload parsed. Type: ${request.type}`);
+    } catch (e) {
       const errorResponse: ServiceResponse = {
           status: 'error',
           code: 'EXECUTION_ERROR',
-          error: err.message
+          error: "Invalid JSON format."
       };
+      setStatus('error');
       setResponseJson(JSON.stringify(errorResponse, null, 2));
-      addLog(`Error: ${err.message}`);
-      logger.log(`Op failed: ${err.message}`, 'error', 'Signer');
+      addLog(`Error: ${errorResponse.error}`);
+      return;
+    }
+
+    const response = await executeRequest(request, {
+        wallets,
+        seeds,
+        dataKey,
+        onAddWallets,
+        policies,
+        spendLedger,
+        fees,
+        nonces,
+        transactions,
+        tokens,
+        trace: addLog
+    });
+
+    setResponseJson(JSON.stringify(response, null, 2));
+    setStatus(response.status);
+    if (response.preview) setPreview(response.preview);
+    if (response.typedData) setTypedReview(response.typedData);
+
+    // Store for UI broadcast; replacements are broadcast by the engine already
+    if (response.signedTx && response.transaction?.chainId && !response.replacedTxHash) {
+        setLastSignature({ sig: response.signedTx, chainId: Number(response.transaction.chainId) });
     }
   };
 
@@ -398,7 +355,7 @@ export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAdd
       addLog(`Broadcasting transaction to ${meta.name} (ChainID: ${lastSignature.chainId})...`);
 
       try {
-          const txHash = await broadcastTransaction(lastSignature.sig, meta.key);
+          const txHash = await broadcastAndTrack(lastSignature.sig, meta.key, { wallets, nonces, transactions, tokens });
           setBroadcastState({status: 'success', msg: txHash});
           addLog(`Broadcast Success! TxHash: ${txHash}`);
           logger.log(`Transaction broadcasted: ${txHash}`, 'success', 'RPC');
@@ -440,14 +397,16 @@ export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAdd
                         <span className="text-emerald-400 font-bold flex items-center mb-1">
                             <CheckCircle className="w-4 h-4 mr-1" /> Sent
                         </span>
-                        <a 
-                            href={`${meta.explorer}/tx/${broadcastState.msg}`} 
-                            target="_blank"
-                            rel="noreferrer"
-                            className="text-xs text-sky-500 hover:text-sky-300 underline"
-                        >
-                            View on Explorer
-                        </a>
+                        {meta.explorer && (
+                            <a 
+                                href={`${meta.explorer}/tx/${broadcastState.msg}`} 
+                                target="_blank"
+                                rel="noreferrer"
+                                className="text-xs text-sky-500 hover:text-sky-300 underline"
+                            >
+                                View on Explorer
+                            </a>
+                        )}
                     </div>
                 ) : (
                     <Button 
@@ -486,6 +445,8 @@ export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAdd
                  <div className="flex gap-1 border-r border-slate-700 pr-1 mr-1">
                     <button onClick={() => loadTemplate('vault_listWallets')} className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 transition">List</button>
                     <button onClick={() => loadTemplate('vault_importPrivateKey')} className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 transition">Import</button>
+                    <button onClick={() => loadTemplate('vault_createWallet')} className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 transition">Create</button>
+                    <button onClick={() => loadTemplate('vault_getTransactions')} className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 transition">Txs</button>
                  </div>
                  {/* RPC Methods */}
                  <div className="flex gap-1 border-r border-slate-700 pr-1 mr-1">
@@ -498,6 +459,8 @@ export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAdd
                     <button onClick={() => loadTemplate('personal_sign')} className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-purple-900/30 text-purple-400 border border-purple-900/50 transition">Sign</button>
                     <button onClick={() => loadTemplate('eth_signTransaction')} className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-purple-900/30 text-purple-400 border border-purple-900/50 transition">Tx</button>
                     <button onClick={() => loadTemplate('eth_signTypedData')} className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-purple-900/30 text-purple-400 border border-purple-900/50 transition">EIP712</button>
+                    <button onClick={() => loadTemplate('vault_speedUpTransaction')} className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-purple-900/30 text-purple-400 border border-purple-900/50 transition">Speed</button>
+                    <button onClick={() => loadTemplate('vault_cancelTransaction')} className="text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-purple-900/30 text-purple-400 border border-purple-900/50 transition">Cancel</button>
                  </div>
             </div>
           </div>
@@ -518,6 +481,15 @@ export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAdd
                     <Calculator className="w-3 h-3 mr-1" />
                     ABI
                 </button>
+                <button 
+                    onClick={handlePreview}
+                    disabled={isDecoding}
+                    className="bg-slate-800 hover:bg-slate-700 text-sky-400 text-xs px-2 py-1 rounded flex items-center border border-slate-700 shadow-sm transition-all opacity-80 hover:opacity-100"
+                    title="Decode the transaction or typed data before signing"
+                >
+                    <ScanSearch className={`w-3 h-3 mr-1 ${isDecoding ? 'animate-pulse' : ''}`} />
+                    Preview
+                </button>
                 <button 
                     onClick={handleAutoFillNonce}
                     disabled={isFetchingNonce}
@@ -530,6 +502,9 @@ export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAdd
             </div>
           </div>
           
+          {preview && <TransactionPreviewPanel preview={preview} />}
+          {typedReview && <TypedDataReviewPanel review={typedReview} />}
+
           {/* ABI Encoder Tool */}
           {showAbiTool && (
              <div className="mb-4 bg-slate-950 border border-slate-700 rounded-lg p-3 animate-in fade-in slide-in-from-top-2">
@@ -570,7 +545,7 @@ export const SignerTool: React.FC<SignerToolProps> = ({ wallets, password, onAdd
           <div className="flex justify-between items-center">
             <div className="flex items-center text-xs text-slate-500 space-x-2">
                <span>Supported Networks:</span>
-               {Object.keys(NETWORKS).slice(0, 3).map(n => (
+               {listNetworks().map(n => n.key).slice(0, 3).map(n => (
                    <span key={n} className="px-1.5 py-0.5 bg-slate-800 rounded text-slate-400">{n}</span>
                ))}
             </div>
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Gavel, Plus, Trash2, Power } from 'lucide-react';
+import { SigningPolicy } from '../types';
+
+interface SigningPoliciesProps {
+  policies: SigningPolicy[];
+  onChange: (policies: SigningPolicy[]) => void;
+}
+
+const splitList = (value: string): string[] => value.split(',').map(s => s.trim()).filter(Boolean);
+
+// Turns the add form into a policy, throwing on the first invalid field.
+const parsePolicy = (form: Record<string, string>): SigningPolicy => {
+  const name = form.name.trim();
+  if (!name) throw new Error('Policy name is required');
+
+  const allowedRecipients = splitList(form.recipients);
+  const bad = allowedRecipients.find(a => !ethers.isAddress(a));
+  if (bad) throw new Error(`Invalid address: ${bad}`);
+
+  const allowedChainIds = splitList(form.chainIds).map(Number);
+  if (allowedChainIds.some(id => !Number.isInteger(id) || id <= 0)) throw new Error('Chain IDs must be positive integers');
+
+  const allowedSelectors = splitList(form.selectors).map(s => s.toLowerCase());
+  const badSelector = allowedSelectors.find(s => !/^0x[0-9a-f]{8}$/.test(s));
+  if (badSelector) throw new Error(`Invalid function selector: ${badSelector}`);
+
+  const blockedMessagePatterns = form.patterns.split('\n').map(s => s.trim()).filter(Boolean);
+  for (const pattern of blockedMessagePatterns) {
+    try {
+      new RegExp(pattern, 'i');
+    } catch (e) {
+      throw new Error(`Invalid pattern: ${pattern}`);
+    }
+  }
+
+  const toWei = (eth: string, field: string): string | undefined => {
+    if (!eth.trim()) return undefined;
+    try {
+      return ethers.parseEther(eth.trim()).toString();
+    } catch (e) {
+      throw new Error(`Invalid ${field}: ${eth}`);
+    }
+  };
+
+  return {
+    id: crypto.randomUUID(),
+    name,
+    enabled: true,
+    walletLabels: splitList(form.wallets),
+    allowedRecipients: allowedRecipients.length ? allowedRecipients.map(a => a.toLowerCase()) : undefined,
+    maxValuePerTx: toWei(form.maxPerTx, 'per-transaction limit'),
+    maxValuePerDay: toWei(form.maxPerDay, 'daily limit'),
+    allowedChainIds: allowedChainIds.length ? allowedChainIds : undefined,
+    allowedSelectors: allowedSelectors.length ? allowedSelectors : undefined,
+    blockedMessagePatterns: blockedMessagePatterns.length ? blockedMessagePatterns : undefined,
+    createdAt: Date.now()
+  };
+};
+
+const EMPTY_FORM = { name: '', wallets: '', recipients: '', maxPerTx: '', maxPerDay: '', chainIds: '', selectors: '', patterns: '' };
+
+export const SigningPolicies: React.FC<SigningPoliciesProps> = ({ policies, onChange }) => {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState('');
+
+  const setField = (field: keyof typeof EMPTY_FORM) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const addPolicy = () => {
+    setError('');
+    try {
+      onChange([...policies, parsePolicy(form)]);
+      setForm(EMPTY_FORM);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const togglePolicy = (id: string) => {
+    onChange(policies.map(p => p.id === id ? { ...p, enabled: !p.enabled } : p));
+  };
+
+  const removePolicy = (id: string) => {
+    if (!confirm('Delete this signing policy?')) return;
+    onChange(policies.filter(p => p.id !== id));
+  };
+
+  const describe = (policy: SigningPolicy): string[] => [
+    policy.allowedRecipients && `Recipients: ${policy.allowedRecipients.length} allowlisted`,
+    policy.maxValuePerTx && `Max/tx: ${ethers.formatEther(policy.maxValuePerTx)} ETH`,
+    policy.maxValuePerDay && `Max/24h: ${ethers.formatEther(policy.maxValuePerDay)} ETH`,
+    policy.allowedChainIds && `Chains: ${policy.allowedChainIds.join(', ')}`,
+    policy.allowedSelectors && `Selectors: ${policy.allowedSelectors.join(', ')}`,
+    policy.blockedMessagePatterns && `Blocked messages: ${policy.blockedMessagePatterns.map(p => `/${p}/`).join(' ')}`
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
+      <h3 className="text-lg font-medium text-white mb-4 flex items-center">
+        <Gavel className="w-5 h-5 mr-2 text-sky-500" />
+        Signing Policies
+      </h3>
+      <p className="text-slate-400 text-sm mb-6">
+        Checked before a wallet key is decrypted, for the Signer Tool and for RPC callers alike. Every enabled policy matching the wallet must pass; empty fields don't restrict anything.
+      </p>
+
+      <div className="space-y-3 mb-6">
+        {policies.length === 0 && <p className="text-sm text-slate-600 italic">No signing policies defined.</p>}
+        {policies.map(policy => (
+          <div key={policy.id} className={`flex items-center justify-between p-3 bg-slate-950 border border-slate-800 rounded-lg ${policy.enabled ? '' : 'opacity-50'}`}>
+            <div className="min-w-0">
+              <span className="text-white font-medium mr-2">{policy.name}</span>
+              {!policy.enabled && <span className="text-xs text-slate-500 uppercase">Disabled</span>}
+              <div className="text-xs text-slate-500 mt-1 truncate">Wallets: {policy.walletLabels.length > 0 ? policy.walletLabels.join(', ') : 'All'}</div>
+              {describe(policy).map(line => (
+                <div key={line} className="text-xs text-slate-500 truncate">{line}</div>
+              ))}
+            </div>
+            <div className="flex items-center">
+              <button
+                onClick={() => togglePolicy(policy.id)}
+                className={`p-2 transition-colors ${policy.enabled ? 'text-emerald-400 hover:text-slate-400' : 'text-slate-500 hover:text-emerald-400'}`}
+                title={policy.enabled ? 'Disable Policy' : 'Enable Policy'}
+              >
+                <Power className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => removePolicy(policy.id)}
+                className="text-slate-500 hover:text-red-400 transition-colors p-2"
+                title="Delete Policy"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700/50 space-y-3">
+        <h4 className="text-sm font-bold text-slate-300">Add Policy</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <Input placeholder="Name (e.g. Hot wallet limits)" value={form.name} onChange={setField('name')} />
+          <Input placeholder="Wallet labels, comma separated (empty = all, hot_* allowed)" value={form.wallets} onChange={setField('wallets')} />
+          <Input placeholder="Max value per transaction (ETH)" value={form.maxPerTx} onChange={setField('maxPerTx')} />
+          <Input placeholder="Max value per rolling 24h (ETH)" value={form.maxPerDay} onChange={setField('maxPerDay')} />
+          <Input placeholder="Allowed chain IDs (1, 8453)" value={form.chainIds} onChange={setField('chainIds')} />
+          <Input placeholder="Allowed function selectors (0xa9059cbb)" value={form.selectors} onChange={setField('selectors')} />
+        </div>
+        <Input placeholder="Allowed recipients / contracts, comma separated" value={form.recipients} onChange={setField('recipients')} />
+        <textarea
+          className="w-full h-20 bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-sm font-mono text-slate-100 placeholder-slate-500 outline-none focus:border-sky-500"
+          placeholder={'Blocked personal_sign patterns, one regular expression per line'}
+          value={form.patterns}
+          onChange={setField('patterns')}
+        />
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <Button onClick={addPolicy} disabled={!form.name.trim()}>
+          <Plus className="w-4 h-4 mr-2" /> Add Policy
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { ethers } from 'ethers';
+import { WalletData, VaultSettings } from '../types';
+import { Button } from './Button';
+import { Input } from './Input';
+import { listNetworks, nativeSymbolFor } from '../services/networkRegistry';
+import { tokensFor } from '../services/tokenRegistry';
+import { NonceManager } from '../services/nonceManager';
+import { TransactionStore } from '../services/txStore';
+import { SpendLedger } from '../services/policyEngine';
+import { SweepAsset, SweepItem, SweepOptions, sweepWallet, resolveSweepDestination } from '../services/sweepService';
+import { logger } from '../services/systemLogger';
+import { Combine, Search, FlaskConical, Play, StopCircle, CheckSquare, Square } from 'lucide-react';
+
+interface SweepPanelProps {
+  wallets: WalletData[];
+  settings: VaultSettings;
+  dataKey: CryptoKey;
+  nonces: NonceManager;
+  transactions: TransactionStore;
+  spendLedger?: SpendLedger;
+}
+
+const STATUS_STYLES: Record<SweepItem['status'], string> = {
+  ready: 'text-sky-400',
+  skipped: 'text-slate-500',
+  sent: 'text-emerald-400',
+  failed: 'text-red-400'
+};
+
+const selectClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:border-sky-500 outline-none';
+
+export const SweepPanel: React.FC<SweepPanelProps> = ({ wallets, settings, dataKey, nonces, transactions, spendLedger }) => {
+  const [search, setSearch] = useState('');
+  const [attrKey, setAttrKey] = useState('');
+  const [attrValue, setAttrValue] = useState('');
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [network, setNetwork] = useState('mainnet');
+  const [skippedAssets, setSkippedAssets] = useState<SweepAsset[]>([]);
+  const [destination, setDestination] = useState('');
+  const [useWithdrawalAddress, setUseWithdrawalAddress] = useState(true);
+  const [running, setRunning] = useState<'dry' | 'live' | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [results, setResults] = useState<SweepItem[]>([]);
+  const [resultMode, setResultMode] = useState<'dry' | 'live' | null>(null);
+  const stopRef = useRef(false);
+
+  const matching = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const value = attrValue.trim().toLowerCase();
+    return wallets.filter(w =>
+      (!term || w.name.toLowerCase().includes(term) || w.address.toLowerCase().includes(term))
+      && (!attrKey || (w.metadata?.[attrKey] || '').toLowerCase().includes(value))
+    );
+  }, [wallets, search, attrKey, attrValue]);
+
+  const selected = matching.filter(w => !excluded.has(w.id));
+
+  const native = nativeSymbolFor(network);
+  const available = useMemo(() => [native, ...tokensFor(settings.tokens, network).map(t => t.symbol)], [native, settings.tokens, network]);
+  const options: SweepOptions = { network, assets: available.filter(a => !skippedAssets.includes(a)), tokens: settings.tokens, destination, useWithdrawalAddress };
+  const destinationError = destination.trim() && !ethers.isAddress(destination.trim()) ? 'Invalid address' : undefined;
+
+  const toggleWallet = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setExcluded(next);
+  };
+
+  const toggleAsset = (asset: SweepAsset) => {
+    setSkippedAssets(prev => prev.includes(asset) ? prev.filter(a => a !== asset) : [...prev, asset]);
+  };
+
+  const runSweep = async (dryRun: boolean) => {
+    if (!dryRun && !confirm(`Sweep ${options.assets.join(', ')} from ${selected.length} wallet(s) on ${network}? Transactions are signed and broadcast immediately.`)) return;
+
+    stopRef.current = false;
+    setRunning(dryRun ? 'dry' : 'live');
+    setResultMode(dryRun ? 'dry' : 'live');
+    setResults([]);
+    setProgress({ done: 0, total: selected.length });
+    logger.log(`${dryRun ? 'Dry run' : 'Sweep'} started for ${selected.length} wallets on ${network}`, 'info', 'Sweep');
+
+    const targets = [...selected];
+    let done = 0;
+    for (const wallet of targets) {
+      if (stopRef.current) break;
+      const items = await sweepWallet(wallet, options, { dataKey, wallets, fees: settings.fees, nonces, transactions, policies: settings.policies, spendLedger }, dryRun);
+      setResults(prev => [...prev, ...items]);
+      setProgress({ done: ++done, total: targets.length });
+    }
+
+    if (stopRef.current) logger.log(`Sweep stopped after ${done} of ${targets.length} wallets`, 'warning', 'Sweep');
+    setRunning(null);
+  };
+
+  const totals = useMemo(() => {
+    const sums: Record<string, number> = {};
+    for (const item of results) {
+      if (item.amount && (item.status === 'ready' || item.status === 'sent')) {
+        sums[item.asset] = (sums[item.asset] || 0) + parseFloat(item.amount);
+      }
+    }
+    return sums;
+  }, [results]);
+
+  const canRun = selected.length > 0 && options.assets.length > 0 && !destinationError && running === null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 animate-in fade-in duration-500">
+      {/* Selection */}
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 flex flex-col max-h-[calc(100vh-140px)]">
+        <h3 className="text-md font-bold text-white flex items-center mb-4">
+          <Search className="w-4 h-4 mr-2 text-sky-500" />
+          Source Wallets
+          <span className="ml-2 text-xs text-slate-500 font-normal">{selected.length} of {matching.length} selected</span>
+        </h3>
+        <div className="space-y-2 mb-4">
+          <Input placeholder="Search name or address..." value={search} onChange={e => setSearch(e.target.value)} />
+          <div className="grid grid-cols-2 gap-2">
+            <select className={selectClass} value={attrKey} onChange={e => setAttrKey(e.target.value)}>
+              <option value="">Any attribute</option>
+              {settings.attributeDefinitions.map(def => <option key={def.key} value={def.key}>{def.label}</option>)}
+              <option value="withdrawalAddress">Withdrawal address</option>
+            </select>
+            <Input placeholder="contains..." value={attrValue} onChange={e => setAttrValue(e.target.value)} disabled={!attrKey} />
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto space-y-1">
+          {matching.map(w => {
+            const target = resolveSweepDestination(w, options);
+            return (
+              <button key={w.id} onClick={() => toggleWallet(w.id)} className="w-full flex items-center p-2 rounded-lg hover:bg-slate-800 text-left transition-colors">
+                {excluded.has(w.id) ? <Square className="w-4 h-4 mr-2 text-slate-600 shrink-0" /> : <CheckSquare className="w-4 h-4 mr-2 text-sky-500 shrink-0" />}
+                <div className="min-w-0">
+                  <div className="text-sm text-slate-200 truncate">{w.name}</div>
+                  <div className="text-[10px] font-mono text-slate-500 truncate">→ {target || 'no destination'}</div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Options & Results */}
+      <div className="lg:col-span-2 space-y-6">
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+          <h3 className="text-md font-bold text-white flex items-center mb-4">
+            <Combine className="w-4 h-4 mr-2 text-emerald-500" />
+            Batch Sweep
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Network</label>
+              <select className={selectClass} value={network} onChange={e => setNetwork(e.target.value)}>
+                {listNetworks().map(n => n.key).map(n => <option key={n} value={n}>{n.toUpperCase()}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Assets</label>
+              <div className="flex flex-wrap gap-2">
+                {available.map(asset => (
+                  <button
+                    key={asset}
+                    onClick={() => toggleAsset(asset)}
+                    className={`flex-1 px-3 py-2 rounded-lg text-sm border transition-colors ${options.assets.includes(asset) ? 'bg-sky-500/10 border-sky-500/40 text-sky-400' : 'bg-slate-950 border-slate-700 text-slate-500'}`}
+                  >
+                    {asset}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <Input
+            label="Common destination"
+            placeholder="0x... (treasury)"
+            value={destination}
+            onChange={e => setDestination(e.target.value)}
+            error={destinationError}
+            className="font-mono"
+          />
+          <label className="flex items-center mt-3 text-sm text-slate-400 cursor-pointer">
+            <input type="checkbox" className="mr-2 accent-sky-500" checked={useWithdrawalAddress} onChange={e => setUseWithdrawalAddress(e.target.checked)} />
+            Send to each wallet's withdrawal address when it has one
+          </label>
+          <p className="text-xs text-slate-500 mt-3">Tokens are swept first; the {native} sweep leaves exactly the maximum gas of every transaction in the sweep, plus twice the L1 data fee on rollups that charge one. Signing policies and daily limits apply to every transfer.</p>
+
+          <div className="flex gap-3 mt-6">
+            <Button variant="secondary" onClick={() => runSweep(true)} disabled={!canRun} isLoading={running === 'dry'}>
+              <FlaskConical className="w-4 h-4 mr-2" /> Dry Run
+            </Button>
+            <Button onClick={() => runSweep(false)} disabled={!canRun} isLoading={running === 'live'}>
+              <Play className="w-4 h-4 mr-2" /> Execute Sweep
+            </Button>
+            {running && (
+              <Button variant="ghost" onClick={() => { stopRef.current = true; }}>
+                <StopCircle className="w-4 h-4 mr-2" /> Stop
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {resultMode && (
+          <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden">
+            <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+              <span className="text-sm font-bold text-white">{resultMode === 'dry' ? 'Dry Run' : 'Sweep'} · {progress.done}/{progress.total} wallets</span>
+              <span className="text-xs text-slate-400 font-mono">
+                {Object.entries(totals).map(([asset, sum]) => `${sum.toFixed(asset === native ? 6 : 2)} ${asset}`).join(' · ') || '-'}
+              </span>
+            </div>
+            <div className="h-1 bg-slate-800">
+              <div className="h-1 bg-sky-500 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}></div>
+            </div>
+            <div className="overflow-x-auto max-h-[400px]">
+              <table className="w-full text-left text-xs border-collapse">
+                <thead className="bg-slate-900 text-slate-500 font-mono uppercase sticky top-0">
+                  <tr>
+                    <th className="px-4 py-2 font-medium border-b border-slate-800">Wallet</th>
+                    <th className="px-4 py-2 font-medium border-b border-slate-800">Asset</th>
+                    <th className="px-4 py-2 font-medium border-b border-slate-800 text-right">Amount</th>
+                    <th className="px-4 py-2 font-medium border-b border-slate-800 text-right">Max Fee ({native})</th>
+                    <th className="px-4 py-2 font-medium border-b border-slate-800">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800/50 text-slate-300 bg-slate-950">
+                  {results.map((item, i) => (
+                    <tr key={i}>
+                      <td className="px-4 py-2">
+                        <div>{item.walletLabel}</div>
+                        {item.to && <div className="text-[10px] font-mono text-slate-500 truncate max-w-[200px]">→ {item.to}</div>}
+                      </td>
+                      <td className="px-4 py-2">{item.asset}</td>
+                      <td className="px-4 py-2 text-right font-mono">{item.amount ?? '-'}</td>
+                      <td className="px-4 py-2 text-right font-mono text-slate-500">{item.maxFee ?? '-'}</td>
+                      <td className="px-4 py-2">
+                        <span className={`font-bold uppercase text-[10px] ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                        {item.reason && <div className="text-[10px] text-slate-500">{item.reason}</div>}
+                        {item.txHash && <div className="text-[10px] font-mono text-slate-500">{item.txHash.slice(0, 18)}…</div>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Coins, Plus, Trash2 } from 'lucide-react';
+import { RegisteredToken } from '../types';
+import { listNetworks } from '../services/networkRegistry';
+import { lookupToken, addToken, removeToken } from '../services/tokenRegistry';
+
+interface TokenRegistryProps {
+  tokens: RegisteredToken[];
+  onChange: (tokens: RegisteredToken[]) => void;
+}
+
+export const TokenRegistry: React.FC<TokenRegistryProps> = ({ tokens, onChange }) => {
+  const [network, setNetwork] = useState('mainnet');
+  const [address, setAddress] = useState('');
+  const [symbol, setSymbol] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const networks = listNetworks().map(n => n.key).filter(net => tokens.some(t => t.network === net));
+
+  const handleAdd = async () => {
+    setError('');
+    setIsLoading(true);
+    try {
+      const token = await lookupToken(address.trim(), network, symbol);
+      onChange(addToken(tokens, token));
+      setAddress('');
+      setSymbol('');
+    } catch (e: any) {
+      setError(e.shortMessage || e.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemove = (token: RegisteredToken) => {
+    if (!confirm(`Remove ${token.symbol} on ${token.network} from the registry?`)) return;
+    onChange(removeToken(tokens, token.network, token.address));
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-6 rounded-xl">
+      <h3 className="text-lg font-medium text-white mb-4 flex items-center">
+        <Coins className="w-5 h-5 mr-2 text-sky-500" />
+        Token Registry
+      </h3>
+      <p className="text-slate-400 text-sm mb-6">
+        ERC-20 tokens scanned in the portfolio and offered for transfers, sweeps and payouts. Symbol and decimals are read from the contract once, when the token is added.
+      </p>
+
+      <div className="space-y-4 mb-6">
+        {tokens.length === 0 && <p className="text-sm text-slate-600 italic">No tokens registered.</p>}
+        {networks.map(net => (
+          <div key={net}>
+            <div className="text-xs font-bold text-slate-500 uppercase mb-2">{net}</div>
+            <div className="space-y-1">
+              {tokens.filter(t => t.network === net).map(token => (
+                <div key={token.address} className="flex items-center justify-between p-2 px-3 bg-slate-950 border border-slate-800 rounded-lg">
+                  <div className="min-w-0 flex items-center gap-3">
+                    <span className="text-white font-medium w-20 shrink-0">{token.symbol}</span>
+                    <span className="text-xs font-mono text-slate-500 truncate">{token.address}</span>
+                    <span className="text-xs text-slate-600 shrink-0">{token.decimals} decimals</span>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(token)}
+                    className="text-slate-500 hover:text-red-400 transition-colors p-1"
+                    title="Remove Token"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700/50 space-y-3">
+        <h4 className="text-sm font-bold text-slate-300">Add Token</h4>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <select
+            className="bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-sm text-slate-100 outline-none focus:border-sky-500"
+            value={network}
+            onChange={(e) => setNetwork(e.target.value)}
+          >
+            {listNetworks().map(n => n.key).map(net => <option key={net} value={net}>{net}</option>)}
+          </select>
+          <div className="md:col-span-2">
+            <Input placeholder="Contract address (0x...)" value={address} onChange={(e) => setAddress(e.target.value)} className="font-mono" />
+          </div>
+          <Input placeholder="Symbol (default: on-chain)" value={symbol} onChange={(e) => setSymbol(e.target.value)} />
+        </div>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <Button onClick={handleAdd} isLoading={isLoading} disabled={!address.trim()}>
+          <Plus className="w-4 h-4 mr-2" /> Add Token
+        </Button>
+      </div>
+    </div>
+  );
+};
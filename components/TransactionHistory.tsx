@@ -0,0 +1,162 @@
+import React, { useState, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { History, ExternalLink, Filter, Zap, XCircle, RefreshCw } from 'lucide-react';
+import { WalletData, TrackedTransaction, TransactionStatus } from '../types';
+import { listNetworks, getNetworkMetadata } from '../services/networkRegistry';
+import { CONFIRMATION_TARGET } from '../services/txStore';
+import { ReplacementKind } from '../services/txReplacement';
+
+interface TransactionHistoryProps {
+  wallets: WalletData[];
+  history: TrackedTransaction[];
+  onReplace: (hash: string, kind: ReplacementKind) => Promise<void>;
+}
+
+const STATUSES: TransactionStatus[] = ['signed', 'pending', 'mined', 'reverted', 'dropped'];
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  signed: 'bg-slate-800 text-slate-400 border-slate-700',
+  pending: 'bg-amber-900/20 text-amber-400 border-amber-900/50',
+  mined: 'bg-emerald-900/20 text-emerald-400 border-emerald-900/50',
+  reverted: 'bg-red-900/20 text-red-400 border-red-900/50',
+  dropped: 'bg-red-900/10 text-red-500/70 border-red-900/30'
+};
+
+const selectClass = 'bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-xs text-slate-200 outline-none focus:border-sky-500';
+
+export const TransactionHistory: React.FC<TransactionHistoryProps> = ({ wallets, history, onReplace }) => {
+  const [walletId, setWalletId] = useState('');
+  const [network, setNetwork] = useState('');
+  const [status, setStatus] = useState('');
+  const [replacing, setReplacing] = useState<string | null>(null);
+  const [replaceError, setReplaceError] = useState<{ hash: string; message: string } | null>(null);
+
+  const visible = useMemo(() => history.filter(tx =>
+    (!walletId || tx.walletId === walletId)
+    && (!network || tx.network === network)
+    && (!status || tx.status === status)
+  ), [history, walletId, network, status]);
+
+  const handleReplace = async (hash: string, kind: ReplacementKind) => {
+    if (kind === 'cancel' && !confirm('Replace this transaction with a 0 ETH transfer to the wallet itself?')) return;
+    setReplacing(hash);
+    setReplaceError(null);
+    try {
+      await onReplace(hash, kind);
+    } catch (e: any) {
+      setReplaceError({ hash, message: e.message });
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden animate-in fade-in duration-500">
+      <div className="p-4 border-b border-slate-800 flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-md font-bold text-white flex items-center">
+          <History className="w-4 h-4 mr-2 text-sky-500" />
+          Transaction History
+          <span className="ml-2 text-xs text-slate-500 font-normal">{visible.length} of {history.length}</span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <Filter className="w-3.5 h-3.5 text-slate-500" />
+          <select className={selectClass} value={walletId} onChange={e => setWalletId(e.target.value)}>
+            <option value="">All wallets</option>
+            {wallets.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+          <select className={selectClass} value={network} onChange={e => setNetwork(e.target.value)}>
+            <option value="">All networks</option>
+            {listNetworks().map(n => n.key).map(net => <option key={net} value={net}>{net}</option>)}
+          </select>
+          <select className={selectClass} value={status} onChange={e => setStatus(e.target.value)}>
+            <option value="">Any status</option>
+            {STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="p-12 text-center text-sm text-slate-500">No transactions match the filters.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm border-collapse">
+            <thead className="bg-slate-900 text-slate-500 font-mono text-xs uppercase">
+              <tr>
+                <th className="px-4 py-2 font-medium border-b border-slate-800">Time</th>
+                <th className="px-4 py-2 font-medium border-b border-slate-800">Wallet</th>
+                <th className="px-4 py-2 font-medium border-b border-slate-800">Network</th>
+                <th className="px-4 py-2 font-medium border-b border-slate-800 text-right">Nonce</th>
+                <th className="px-4 py-2 font-medium border-b border-slate-800">Intent</th>
+                <th className="px-4 py-2 font-medium border-b border-slate-800">Status</th>
+                <th className="px-4 py-2 font-medium border-b border-slate-800">Hash</th>
+                <th className="px-4 py-2 font-medium border-b border-slate-800"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/50 text-slate-300 text-xs bg-slate-950">
+              {visible.map(tx => {
+                const explorer = getNetworkMetadata(tx.chainId)?.explorer;
+                return (
+                  <tr key={tx.hash} className="hover:bg-slate-900/50 transition-colors">
+                    <td className="px-4 py-3 text-slate-500 whitespace-nowrap">{new Date(tx.createdAt).toLocaleString()}</td>
+                    <td className="px-4 py-3">{tx.walletLabel}</td>
+                    <td className="px-4 py-3 font-mono text-slate-400">{tx.network || `chain ${tx.chainId}`}</td>
+                    <td className="px-4 py-3 font-mono text-right">{tx.nonce}</td>
+                    <td className="px-4 py-3 max-w-xs">
+                      <div className="truncate" title={tx.summary}>{tx.summary}</div>
+                      {tx.value !== '0' && <div className="text-[10px] text-slate-500 font-mono">{ethers.formatEther(tx.value)} ETH</div>}
+                      {tx.error && <div className="text-[10px] text-red-400 truncate" title={tx.error}>{tx.error}</div>}
+                      {replaceError?.hash === tx.hash && <div className="text-[10px] text-red-400 truncate" title={replaceError.message}>{replaceError.message}</div>}
+                      {tx.replaces && <div className="text-[10px] text-slate-500 font-mono">replaces {tx.replaces.slice(0, 10)}…</div>}
+                      {tx.replacedBy && <div className="text-[10px] text-slate-500 font-mono">replaced by {tx.replacedBy.slice(0, 10)}…</div>}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase ${STATUS_STYLES[tx.status]}`}>{tx.status}</span>
+                      {tx.confirmations !== undefined && (
+                        <div className="text-[10px] text-slate-500 mt-1">
+                          {tx.confirmations >= CONFIRMATION_TARGET ? `${CONFIRMATION_TARGET}+` : tx.confirmations} conf. · block {tx.blockNumber}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 font-mono">
+                      {explorer ? (
+                        <a href={`${explorer}/tx/${tx.hash}`} target="_blank" rel="noreferrer" className="flex items-center text-sky-400 hover:text-sky-300">
+                          {tx.hash.slice(0, 10)}… <ExternalLink className="w-3 h-3 ml-1" />
+                        </a>
+                      ) : (
+                        <span className="text-slate-500">{tx.hash.slice(0, 10)}…</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-right">
+                      {tx.status === 'pending' && (
+                        replacing === tx.hash ? (
+                          <RefreshCw className="w-3.5 h-3.5 animate-spin text-slate-500 inline" />
+                        ) : (
+                          <div className="flex justify-end gap-1">
+                            <button
+                              onClick={() => handleReplace(tx.hash, 'speedUp')}
+                              disabled={replacing !== null}
+                              className="flex items-center text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-sky-900/30 text-sky-400 border border-sky-900/50 transition disabled:opacity-50"
+                            >
+                              <Zap className="w-3 h-3 mr-1" /> Speed up
+                            </button>
+                            <button
+                              onClick={() => handleReplace(tx.hash, 'cancel')}
+                              disabled={replacing !== null}
+                              className="flex items-center text-[10px] px-2 py-1 rounded bg-slate-800 hover:bg-red-900/30 text-red-400 border border-red-900/50 transition disabled:opacity-50"
+                            >
+                              <XCircle className="w-3 h-3 mr-1" /> Cancel
+                            </button>
+                          </div>
+                        )
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ScanSearch, ShieldAlert, AlertTriangle, Info } from 'lucide-react';
+import { TransactionPreview, DecodedCall, RiskFlag, RiskLevel } from '../types';
+
+interface TransactionPreviewPanelProps {
+  preview: TransactionPreview;
+}
+
+const RISK_STYLES: Record<RiskLevel, { icon: React.ReactNode; className: string }> = {
+  danger: { icon: <ShieldAlert className="w-4 h-4 mr-2 flex-shrink-0" />, className: 'bg-red-900/20 border-red-900/50 text-red-400' },
+  warning: { icon: <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />, className: 'bg-amber-900/20 border-amber-900/50 text-amber-400' },
+  info: { icon: <Info className="w-4 h-4 mr-2 flex-shrink-0" />, className: 'bg-slate-800 border-slate-700 text-slate-400' }
+};
+
+const RISK_ORDER: RiskLevel[] = ['danger', 'warning', 'info'];
+
+// Most severe first. Shared with the typed data review panel.
+export const RiskList: React.FC<{ risks: RiskFlag[] }> = ({ risks }) => {
+  if (risks.length === 0) return null;
+  const sorted = [...risks].sort((a, b) => RISK_ORDER.indexOf(a.level) - RISK_ORDER.indexOf(b.level));
+  return (
+    <div className="space-y-1 mb-3">
+      {sorted.map((risk, i) => (
+        <div key={i} className={`flex items-start text-xs p-2 rounded border ${RISK_STYLES[risk.level].className}`}>
+          {RISK_STYLES[risk.level].icon}
+          <span><span className="font-bold mr-1">{risk.code}</span>{risk.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const CallDetails: React.FC<{ call: DecodedCall; nested?: boolean }> = ({ call, nested }) => (
+  <div className={nested ? 'mt-2 pl-3 border-l border-slate-700' : ''}>
+    {nested && <div className="text-xs text-slate-300 mb-1">{call.summary}</div>}
+    <div className="flex items-center gap-2 text-[10px] mb-1">
+      {call.standard && <span className="px-1.5 py-0.5 rounded bg-sky-900/20 text-sky-400 border border-sky-900/50">{call.standard}</span>}
+      <code className="text-slate-500 font-mono truncate">{call.method || call.selector}</code>
+    </div>
+    {call.args.filter(a => !a.type.includes('bytes') || !call.calls).map(arg => (
+      <div key={arg.name} className="flex text-xs font-mono gap-2 min-w-0">
+        <span className="text-slate-500 flex-shrink-0">{arg.name}:</span>
+        <span className="text-slate-300 truncate" title={arg.value}>{arg.display || arg.value}</span>
+      </div>
+    ))}
+    {call.calls?.map((inner, i) => <CallDetails key={i} call={inner} nested />)}
+  </div>
+);
+
+export const TransactionPreviewPanel: React.FC<TransactionPreviewPanelProps> = ({ preview }) => {
+  return (
+    <div className="mb-4 bg-slate-950 border border-slate-700 rounded-lg p-3 animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center text-xs font-bold text-sky-500 uppercase mb-2">
+        <ScanSearch className="w-3 h-3 mr-1" /> Transaction Preview
+      </div>
+      <div className="text-sm text-white font-medium mb-1">{preview.summary}</div>
+      <div className="text-xs text-slate-500 mb-3">
+        {preview.to ? <span className="font-mono">To {preview.to}</span> : 'Contract deployment'}
+        {' · '}{preview.value} ETH
+        {preview.chainId !== undefined && <> · Chain {preview.chainId}{preview.network ? ` (${preview.network})` : ''}</>}
+      </div>
+
+      <RiskList risks={preview.risks} />
+
+      {preview.call && <CallDetails call={preview.call} />}
+    </div>
+  );
+};
@@ -1,17 +1,23 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { WalletData, AssetValues, NetworkKey } from '../types';
+import { WalletData, AssetValues, NetworkKey, FeeSettings, TrackedTransaction, RegisteredToken, SigningPolicy } from '../types';
 import { Button } from './Button';
 import { Input } from './Input';
 import { 
-  fetchBalance, 
   createTransferTransaction, 
-  fetchNonce, 
+  populateTransaction, 
   signTransaction, 
-  broadcastTransaction, 
-  NETWORKS 
+  decryptData
 } from '../services/cryptoService';
+import { listNetworks, getNetwork, nativeSymbolFor } from '../services/networkRegistry';
+import { fetchBalance } from '../services/balanceScanner';
 import { logger } from '../services/systemLogger';
+import { tokensFor, findToken } from '../services/tokenRegistry';
+import { NonceManager } from '../services/nonceManager';
+import { TransactionStore, trackSignedTransaction, broadcastAndTrack, CONFIRMATION_TARGET } from '../services/txStore';
+import { SpendLedger } from '../services/policyEngine';
+import { DistributionStore, DistributionRun } from '../services/distributionService';
+import { DistributionPanel } from './DistributionPanel';
 import { 
   Send, 
   Wallet, 
@@ -22,19 +28,29 @@ import {
   Check, 
   ExternalLink,
   ChevronRight,
-  Database
+  Database,
+  Users
 } from 'lucide-react';
-import { ethers } from 'ethers';
 
 interface TransferHubProps {
   wallets: WalletData[];
-  password: string;
+  dataKey: CryptoKey;
+  fees: FeeSettings;
+  tokens: RegisteredToken[];
+  nonces: NonceManager;
+  transactions: TransactionStore;
+  policies: SigningPolicy[];
+  spendLedger?: SpendLedger;
+  history: TrackedTransaction[];
+  distributions: DistributionStore;
+  distributionRuns: DistributionRun[];
 }
 
-export const TransferHub: React.FC<TransferHubProps> = ({ wallets, password }) => {
+export const TransferHub: React.FC<TransferHubProps> = ({ wallets, dataKey, fees, tokens, nonces, transactions, policies, spendLedger, history, distributions, distributionRuns }) => {
+  const [mode, setMode] = useState<'single' | 'batch'>('single');
   const [selectedWalletId, setSelectedWalletId] = useState<string>(wallets[0]?.id || '');
   const [network, setNetwork] = useState<string>('mainnet');
-  const [asset, setAsset] = useState<'ETH' | 'USDT' | 'USDC'>('ETH');
+  const [asset, setAsset] = useState('ETH'); // 'ETH' or a registered token symbol
   const [amount, setAmount] = useState('');
   const [toAddress, setToAddress] = useState('');
   const [status, setStatus] = useState<{status: 'idle'|'signing'|'broadcasting'|'success'|'error', msg?: string}>({status: 'idle'});
@@ -42,6 +58,24 @@ export const TransferHub: React.FC<TransferHubProps> = ({ wallets, password }) =
   const [isScanning, setIsScanning] = useState(false);
 
   const selectedWallet = useMemo(() => wallets.find(w => w.id === selectedWalletId), [wallets, selectedWalletId]);
+  const networkTokens = useMemo(() => tokensFor(tokens, network), [tokens, network]);
+  const selectedBalance = balances[selectedWalletId];
+  const currentBalance = selectedBalance && selectedBalance !== 'Error'
+    ? (asset === 'ETH' ? selectedBalance.eth : selectedBalance.tokens[asset])
+    : undefined;
+  const sentTx = status.status === 'success' ? history.find(t => t.hash === status.msg) : undefined;
+  const explorer = getNetwork(network)?.explorer;
+
+  // The selected network may have been removed in Settings
+  useEffect(() => {
+    const networks = listNetworks();
+    if (!networks.some(n => n.key === network) && networks.length > 0) setNetwork(networks[0].key);
+  });
+
+  // Tokens differ per network; fall back to ETH when the selected one isn't registered there
+  useEffect(() => {
+    if (asset !== 'ETH' && !networkTokens.some(t => t.symbol === asset)) setAsset('ETH');
+  }, [networkTokens]);
 
   // Pre-fill bound address on wallet change
   useEffect(() => {
@@ -55,7 +89,7 @@ export const TransferHub: React.FC<TransferHubProps> = ({ wallets, password }) =
     if (!selectedWallet) return;
     setIsScanning(true);
     try {
-      const result = await fetchBalance(selectedWallet.address, network);
+      const result = await fetchBalance(selectedWallet.address, network, tokens);
       setBalances(prev => ({ ...prev, [selectedWallet.id]: result }));
     } catch (e) {
       setBalances(prev => ({ ...prev, [selectedWallet.id]: 'Error' }));
@@ -72,7 +106,7 @@ export const TransferHub: React.FC<TransferHubProps> = ({ wallets, password }) =
       const val = parseFloat(bal.eth);
       setAmount(Math.max(0, val - 0.0015).toFixed(6)); // Reserved for gas
     } else {
-      setAmount(asset === 'USDT' ? bal.usdt : bal.usdc);
+      setAmount(bal.tokens[asset] || '0');
     }
   };
 
@@ -81,28 +115,24 @@ export const TransferHub: React.FC<TransferHubProps> = ({ wallets, password }) =
 
     setStatus({ status: 'signing', msg: 'Constructing & Decrypting...' });
     try {
-      const nonce = await fetchNonce(selectedWallet.address, network);
-      const txData = await createTransferTransaction(toAddress, amount, asset, network);
-      
-      const provider = new ethers.JsonRpcProvider(NETWORKS[network][0]);
-      const feeData = await provider.getFeeData();
-      const net = await provider.getNetwork();
+      const token = asset === 'ETH' ? undefined : findToken(tokens, network, asset);
+      if (asset !== 'ETH' && !token) throw new Error(`${asset} is not registered for ${network}`);
+      const txData = await createTransferTransaction(toAddress, amount, token);
+      const fullTx = await populateTransaction(txData, selectedWallet.address, network, fees, nonces);
 
-      const fullTx = {
-        ...txData,
-        nonce,
-        chainId: net.chainId,
-        maxFeePerGas: feeData.maxFeePerGas,
-        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
-        gasLimit: asset === 'ETH' ? 21000 : 85000,
-        type: 2
-      };
+      let sig: string;
+      try {
+        const pk = await decryptData(selectedWallet.encryptedPrivateKey, dataKey);
+        sig = await signTransaction(pk, fullTx);
+      } catch (e) {
+        nonces.release(selectedWallet.address, fullTx.chainId, fullTx.nonce);
+        throw e;
+      }
 
-      const pk = await decryptData(selectedWallet.encryptedPrivateKey, password);
-      const sig = await signTransaction(pk, fullTx);
+      trackSignedTransaction(transactions, sig, selectedWallet, `Transfer ${amount} ${asset} to ${toAddress}`);
 
       setStatus({ status: 'broadcasting', msg: 'Pushing to Mempool...' });
-      const txHash = await broadcastTransaction(sig, network);
+      const txHash = await broadcastAndTrack(sig, network, { wallets, nonces, transactions });
       
       setStatus({ status: 'success', msg: txHash });
       logger.log(`Withdrawal Success: ${amount} ${asset} from ${selectedWallet.name}`, 'success', 'TransferHub');
@@ -155,206 +185,208 @@ export const TransferHub: React.FC<TransferHubProps> = ({ wallets, password }) =
       </div>
 
       {/* Operation Hub */}
-      <div className="flex-1 bg-slate-900 border border-slate-800 rounded-xl p-8 flex flex-col shadow-2xl relative overflow-hidden">
+      <div className="flex-1 bg-slate-900 border border-slate-800 rounded-xl p-8 flex flex-col shadow-2xl relative overflow-y-auto">
         <div className="absolute top-0 right-0 p-8 opacity-5">
             <Send className="w-32 h-32 text-white" />
         </div>
 
-        <div className="mb-8 border-b border-slate-800 pb-6">
-          <h2 className="text-2xl font-bold text-white flex items-center">
-            <Send className="w-6 h-6 mr-3 text-sky-500" />
-            Routine Withdrawal
-          </h2>
-          <p className="text-slate-400 text-sm mt-1">Execute standard transfers using bound addresses.</p>
+        <div className="mb-8 border-b border-slate-800 pb-6 flex items-start justify-between relative">
+          <div>
+            <h2 className="text-2xl font-bold text-white flex items-center">
+              {mode === 'single' ? <Send className="w-6 h-6 mr-3 text-sky-500" /> : <Users className="w-6 h-6 mr-3 text-sky-500" />}
+              {mode === 'single' ? 'Routine Withdrawal' : 'Batch Payout'}
+            </h2>
+            <p className="text-slate-400 text-sm mt-1">
+              {mode === 'single' ? 'Execute standard transfers using bound addresses.' : 'Pay many recipients from this wallet with a CSV of address,amount,asset.'}
+            </p>
+          </div>
+          <div className="flex bg-slate-950 border border-slate-800 rounded-lg p-1 text-xs font-bold">
+            {(['single', 'batch'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1.5 rounded-md transition-colors ${mode === m ? 'bg-sky-500/20 text-sky-400' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                {m === 'single' ? 'Single' : 'Batch CSV'}
+              </button>
+            ))}
+          </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
-          {/* Controls */}
-          <div className="space-y-6">
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Network</label>
-                <select 
-                  className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-sm text-white focus:border-sky-500 outline-none transition-all shadow-inner"
-                  value={network}
-                  onChange={e => setNetwork(e.target.value)}
-                >
-                  {Object.keys(NETWORKS).map(n => <option key={n} value={n}>{n.toUpperCase()}</option>)}
-                </select>
-              </div>
-              <div>
-                <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Asset</label>
-                <select 
-                  className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-sm text-white focus:border-sky-500 outline-none transition-all shadow-inner"
-                  value={asset}
-                  onChange={e => setAsset(e.target.value as any)}
-                >
-                  <option value="ETH">ETH (Native)</option>
-                  <option value="USDT">USDT</option>
-                  <option value="USDC">USDC</option>
-                </select>
-              </div>
-            </div>
+        {mode === 'batch' && selectedWallet && (
+          <DistributionPanel
+            key={selectedWallet.id}
+            wallet={selectedWallet}
+            wallets={wallets}
+            dataKey={dataKey}
+            fees={fees}
+            tokens={tokens}
+            nonces={nonces}
+            transactions={transactions}
+            policies={policies}
+            spendLedger={spendLedger}
+            distributions={distributions}
+            runs={distributionRuns}
+          />
+        )}
 
-            <div>
-              <div className="flex justify-between items-center mb-2">
-                <label className="text-xs font-bold text-slate-500 uppercase">Amount</label>
-                <button onClick={handleSetMax} className="text-[10px] text-sky-500 hover:text-sky-400 font-black uppercase tracking-tighter">Use Max Available</button>
-              </div>
-              <div className="relative">
-                <Input 
-                  placeholder="0.00" 
-                  value={amount}
-                  onChange={e => setAmount(e.target.value)}
-                  className="bg-slate-950 border-slate-700 text-xl font-mono h-14 pl-6 pr-20"
-                />
-                <span className="absolute right-6 top-1/2 -translate-y-1/2 text-slate-500 font-black">{asset}</span>
-              </div>
-            </div>
+        {mode === 'single' && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
+              {/* Controls */}
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Network</label>
+                    <select 
+                      className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-sm text-white focus:border-sky-500 outline-none transition-all shadow-inner"
+                      value={network}
+                      onChange={e => setNetwork(e.target.value)}
+                    >
+                      {listNetworks().map(n => <option key={n.key} value={n.key}>{n.key.toUpperCase()}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Asset</label>
+                    <select 
+                      className="w-full bg-slate-950 border border-slate-700 rounded-xl px-4 py-3 text-sm text-white focus:border-sky-500 outline-none transition-all shadow-inner"
+                      value={asset}
+                      onChange={e => setAsset(e.target.value)}
+                    >
+                      <option value="ETH">{nativeSymbolFor(network)} (Native)</option>
+                      {networkTokens.map(t => <option key={t.address} value={t.symbol}>{t.symbol}</option>)}
+                    </select>
+                  </div>
+                </div>
 
-            <div>
-              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Destination Address</label>
-              <div className="relative">
-                <Input 
-                  placeholder="0x..." 
-                  value={toAddress}
-                  onChange={e => setToAddress(e.target.value)}
-                  className={`bg-slate-950 border-slate-700 h-12 ${selectedWallet?.metadata?.withdrawalAddress === toAddress ? 'border-emerald-500/30' : ''}`}
-                />
-                {selectedWallet?.metadata?.withdrawalAddress === toAddress && (
-                  <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center text-[10px] text-emerald-500 font-bold bg-emerald-500/10 px-2 py-1 rounded">
-                    <Lock className="w-3 h-3 mr-1" /> BOUND
+                <div>
+                  <div className="flex justify-between items-center mb-2">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Amount</label>
+                    <button onClick={handleSetMax} className="text-[10px] text-sky-500 hover:text-sky-400 font-black uppercase tracking-tighter">Use Max Available</button>
                   </div>
-                )}
-              </div>
-              {selectedWallet?.metadata?.withdrawalAddress && selectedWallet.metadata.withdrawalAddress !== toAddress && (
-                <button 
-                  onClick={() => setToAddress(selectedWallet.metadata?.withdrawalAddress || '')}
-                  className="mt-2 text-[10px] text-sky-500 hover:text-sky-400 flex items-center font-bold"
-                >
-                  <ArrowRight className="w-3 h-3 mr-1" /> Restore Bound Address
-                </button>
-              )}
-            </div>
-          </div>
+                  <div className="relative">
+                    <Input 
+                      placeholder="0.00" 
+                      value={amount}
+                      onChange={e => setAmount(e.target.value)}
+                      className="bg-slate-950 border-slate-700 text-xl font-mono h-14 pl-6 pr-20"
+                    />
+                    <span className="absolute right-6 top-1/2 -translate-y-1/2 text-slate-500 font-black">{asset}</span>
+                  </div>
+                </div>
 
-          {/* Wallet Summary */}
-          <div className="bg-slate-950 rounded-2xl border border-slate-800 p-6 flex flex-col shadow-inner">
-            <h4 className="text-[10px] font-black text-slate-600 uppercase tracking-widest mb-4">Account Summary</h4>
-            <div className="flex-1 space-y-4">
-              <div className="flex items-center justify-between pb-4 border-b border-slate-900">
-                <span className="text-sm text-slate-400">Current Balance</span>
-                <div className="text-right">
-                    <div className="text-xl font-mono text-white">
-                        {balances[selectedWalletId] && balances[selectedWalletId] !== 'Error' 
-                            ? (balances[selectedWalletId] as any)[asset.toLowerCase()] 
-                            : '0.00'}
-                    </div>
-                    <div className="text-[10px] text-slate-500 uppercase">{asset} on {network}</div>
+                <div>
+                  <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Destination Address</label>
+                  <div className="relative">
+                    <Input 
+                      placeholder="0x..." 
+                      value={toAddress}
+                      onChange={e => setToAddress(e.target.value)}
+                      className={`bg-slate-950 border-slate-700 h-12 ${selectedWallet?.metadata?.withdrawalAddress === toAddress ? 'border-emerald-500/30' : ''}`}
+                    />
+                    {selectedWallet?.metadata?.withdrawalAddress === toAddress && (
+                      <div className="absolute right-4 top-1/2 -translate-y-1/2 flex items-center text-[10px] text-emerald-500 font-bold bg-emerald-500/10 px-2 py-1 rounded">
+                        <Lock className="w-3 h-3 mr-1" /> BOUND
+                      </div>
+                    )}
+                  </div>
+                  {selectedWallet?.metadata?.withdrawalAddress && selectedWallet.metadata.withdrawalAddress !== toAddress && (
+                    <button 
+                      onClick={() => setToAddress(selectedWallet.metadata?.withdrawalAddress || '')}
+                      className="mt-2 text-[10px] text-sky-500 hover:text-sky-400 flex items-center font-bold"
+                    >
+                      <ArrowRight className="w-3 h-3 mr-1" /> Restore Bound Address
+                    </button>
+                  )}
                 </div>
               </div>
 
-              <div className="space-y-3">
-                 <div className="flex justify-between text-xs">
-                    <span className="text-slate-500">Signer Identity</span>
-                    <span className="text-slate-200 font-mono">{selectedWallet?.address.slice(0, 10)}...{selectedWallet?.address.slice(-8)}</span>
-                 </div>
-                 <div className="flex justify-between text-xs">
-                    <span className="text-slate-500">Protocol</span>
-                    <span className="text-slate-200 uppercase">{network} RPC v2</span>
-                 </div>
-                 <div className="flex justify-between text-xs">
-                    <span className="text-slate-500">Security</span>
-                    <span className="text-emerald-500">AES-256-GCM Verified</span>
-                 </div>
-              </div>
+              {/* Wallet Summary */}
+              <div className="bg-slate-950 rounded-2xl border border-slate-800 p-6 flex flex-col shadow-inner">
+                <h4 className="text-[10px] font-black text-slate-600 uppercase tracking-widest mb-4">Account Summary</h4>
+                <div className="flex-1 space-y-4">
+                  <div className="flex items-center justify-between pb-4 border-b border-slate-900">
+                    <span className="text-sm text-slate-400">Current Balance</span>
+                    <div className="text-right">
+                        <div className="text-xl font-mono text-white">
+                            {currentBalance ?? '0.00'}
+                        </div>
+                        <div className="text-[10px] text-slate-500 uppercase">{asset} on {network}</div>
+                    </div>
+                  </div>
 
-              {status.status !== 'idle' && (
-                <div className={`mt-6 p-4 rounded-xl border flex items-start animate-in zoom-in-95 duration-200 ${
-                  status.status === 'error' ? 'bg-red-500/10 border-red-500/30 text-red-400' :
-                  status.status === 'success' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' :
-                  'bg-sky-500/10 border-sky-500/30 text-sky-400'
-                }`}>
-                  {status.status === 'error' && <ShieldAlert className="w-5 h-5 mr-3 shrink-0" />}
-                  {status.status === 'success' && <Check className="w-5 h-5 mr-3 shrink-0" />}
-                  {(status.status === 'signing' || status.status === 'broadcasting') && <RefreshCw className="w-5 h-5 mr-3 shrink-0 animate-spin" />}
+                  <div className="space-y-3">
+                     <div className="flex justify-between text-xs">
+                        <span className="text-slate-500">Signer Identity</span>
+                        <span className="text-slate-200 font-mono">{selectedWallet?.address.slice(0, 10)}...{selectedWallet?.address.slice(-8)}</span>
+                     </div>
+                     <div className="flex justify-between text-xs">
+                        <span className="text-slate-500">Protocol</span>
+                        <span className="text-slate-200 uppercase">{network} RPC v2</span>
+                     </div>
+                     <div className="flex justify-between text-xs">
+                        <span className="text-slate-500">Security</span>
+                        <span className="text-emerald-500">AES-256-GCM Verified</span>
+                     </div>
+                  </div>
+
+                  {status.status !== 'idle' && (
+                    <div className={`mt-6 p-4 rounded-xl border flex items-start animate-in zoom-in-95 duration-200 ${
+                      status.status === 'error' ? 'bg-red-500/10 border-red-500/30 text-red-400' :
+                      status.status === 'success' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' :
+                      'bg-sky-500/10 border-sky-500/30 text-sky-400'
+                    }`}>
+                      {status.status === 'error' && <ShieldAlert className="w-5 h-5 mr-3 shrink-0" />}
+                      {status.status === 'success' && <Check className="w-5 h-5 mr-3 shrink-0" />}
+                      {(status.status === 'signing' || status.status === 'broadcasting') && <RefreshCw className="w-5 h-5 mr-3 shrink-0 animate-spin" />}
                   
-                  <div className="min-w-0 flex-1">
-                    {status.status === 'success' ? (
-                      <div className="space-y-2">
-                        <div className="font-bold">Transaction Sent</div>
-                        <div className="text-[10px] font-mono opacity-80 break-all">{status.msg}</div>
-                        <a 
-                          href="#" 
-                          className="flex items-center text-[10px] font-bold underline hover:opacity-80"
-                          onClick={(e) => {
-                            e.preventDefault();
-                            const explorer = network === 'mainnet' ? 'https://etherscan.io' : 'https://explorer.zksync.io';
-                            window.open(`${explorer}/tx/${status.msg}`, '_blank');
-                          }}
-                        >
-                          <ExternalLink className="w-3 h-3 mr-1" /> View on Explorer
-                        </a>
+                      <div className="min-w-0 flex-1">
+                        {status.status === 'success' ? (
+                          <div className="space-y-2">
+                            <div className="font-bold">Transaction Sent</div>
+                            <div className="text-[10px] font-mono opacity-80 break-all">{status.msg}</div>
+                            {sentTx && (
+                              <div className={`text-[10px] font-bold uppercase ${sentTx.status === 'reverted' || sentTx.status === 'dropped' ? 'text-red-400' : sentTx.status === 'mined' ? '' : 'text-amber-400'}`}>
+                                {sentTx.status}
+                                {sentTx.confirmations !== undefined && ` · ${Math.min(sentTx.confirmations, CONFIRMATION_TARGET)}/${CONFIRMATION_TARGET} confirmations`}
+                              </div>
+                            )}
+                            {explorer && (
+                              <a 
+                                href={`${explorer}/tx/${status.msg}`} 
+                                target="_blank"
+                                rel="noreferrer"
+                                className="flex items-center text-[10px] font-bold underline hover:opacity-80"
+                              >
+                                <ExternalLink className="w-3 h-3 mr-1" /> View on Explorer
+                              </a>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-sm">{status.msg || 'Processing...'}</span>
+                        )}
                       </div>
-                    ) : (
-                      <span className="text-sm">{status.msg || 'Processing...'}</span>
-                    )}
-                  </div>
+                    </div>
+                  )}
                 </div>
-              )}
+              </div>
             </div>
-          </div>
-        </div>
 
-        <div className="mt-auto">
-          <Button 
-            className="w-full h-16 text-lg font-black uppercase tracking-tighter shadow-xl shadow-sky-900/20" 
-            size="lg"
-            onClick={handleExecute}
-            isLoading={status.status === 'signing' || status.status === 'broadcasting'}
-            disabled={status.status === 'success' || !amount || !toAddress}
-          >
-            <Send className="w-5 h-5 mr-3" />
-            Authenticate & Broadcast Transfer
-          </Button>
-        </div>
+            <div className="mt-auto">
+              <Button 
+                className="w-full h-16 text-lg font-black uppercase tracking-tighter shadow-xl shadow-sky-900/20" 
+                size="lg"
+                onClick={handleExecute}
+                isLoading={status.status === 'signing' || status.status === 'broadcasting'}
+                disabled={status.status === 'success' || !amount || !toAddress}
+              >
+                <Send className="w-5 h-5 mr-3" />
+                Authenticate & Broadcast Transfer
+              </Button>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
 };
-
-const decryptData = async (encryptedBase64: string, password: string): Promise<string> => {
-  const packet = JSON.parse(atob(encryptedBase64));
-  const salt = new Uint8Array(packet.salt);
-  const iv = new Uint8Array(packet.iv);
-  const data = new Uint8Array(packet.data);
-
-  const enc = new TextEncoder();
-  const keyMaterial = await window.crypto.subtle.importKey(
-    "raw",
-    enc.encode(password),
-    { name: "PBKDF2" },
-    false,
-    ["deriveKey"]
-  );
-  const key = await window.crypto.subtle.deriveKey(
-    {
-      name: "PBKDF2",
-      salt: salt,
-      iterations: 100000,
-      hash: "SHA-256",
-    },
-    keyMaterial,
-    { name: "AES-GCM", length: 256 },
-    false,
-    ["decrypt"]
-  );
-  
-  const decrypted = await window.crypto.subtle.decrypt(
-    { name: "AES-GCM", iv: iv },
-    key,
-    data
-  );
-
-  return new TextDecoder().decode(decrypted);
-};
@@ -0,0 +1,62 @@
+import React from 'react';
+import { FileSignature } from 'lucide-react';
+import { TypedDataReview, TypedDataNode } from '../types';
+import { RiskList } from './TransactionPreviewPanel';
+
+interface TypedDataReviewPanelProps {
+  review: TypedDataReview;
+}
+
+const TreeNode: React.FC<{ node: TypedDataNode }> = ({ node }) => (
+  <div className="text-xs font-mono min-w-0">
+    <div className="flex gap-2 min-w-0">
+      <span className="text-slate-500 flex-shrink-0">{node.name}</span>
+      <span className="text-slate-600 flex-shrink-0">{node.type}</span>
+      {node.value !== undefined && <span className="text-slate-300 truncate" title={node.value}>{node.value}</span>}
+    </div>
+    {node.children && (
+      <div className="pl-3 border-l border-slate-800 ml-1">
+        {node.children.map((child, i) => <TreeNode key={`${child.name}-${i}`} node={child} />)}
+      </div>
+    )}
+  </div>
+);
+
+export const TypedDataReviewPanel: React.FC<TypedDataReviewPanelProps> = ({ review }) => {
+  const { domain } = review;
+  return (
+    <div className="mb-4 bg-slate-950 border border-slate-700 rounded-lg p-3 animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center text-xs font-bold text-purple-400 uppercase mb-2">
+        <FileSignature className="w-3 h-3 mr-1" /> Typed Data Review
+      </div>
+      <div className="text-sm text-white font-medium mb-1">
+        {review.kind && <span className="text-[10px] mr-2 px-1.5 py-0.5 rounded bg-purple-900/20 text-purple-400 border border-purple-900/50">{review.kind}</span>}
+        {review.primaryType}
+      </div>
+      <div className="text-xs text-slate-500 mb-3">
+        {domain.name || 'Unnamed domain'}{domain.version ? ` v${domain.version}` : ''}
+        {domain.chainId !== undefined && ` · Chain ${domain.chainId}`}
+        {domain.verifyingContract && <span className="font-mono"> · {domain.verifyingContract}</span>}
+      </div>
+
+      <RiskList risks={review.risks} />
+
+      {review.approvals.length > 0 && (
+        <div className="mb-3 space-y-1">
+          {review.approvals.map((a, i) => (
+            <div key={i} className="grid grid-cols-1 md:grid-cols-2 gap-x-3 text-xs bg-slate-900 border border-slate-800 rounded p-2 font-mono">
+              <div className="truncate"><span className="text-slate-500">token </span><span className="text-slate-300">{a.token}</span></div>
+              <div className="truncate"><span className="text-slate-500">spender </span><span className="text-slate-300">{a.spender}</span></div>
+              <div className="truncate"><span className="text-slate-500">amount </span><span className={a.amount === 'Unlimited' ? 'text-red-400' : 'text-slate-300'}>{a.amount}</span></div>
+              <div className="truncate"><span className="text-slate-500">deadline </span><span className="text-slate-300">{a.deadline}</span></div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="max-h-64 overflow-y-auto">
+        {review.tree.map((node, i) => <TreeNode key={`${node.name}-${i}`} node={node} />)}
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,35 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { WalletData, WalletMetadata, VaultSettings, AttributeDefinition, NetworkKey, AssetValues, ViewState } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { WalletData, SeedData, WalletMetadata, VaultSettings, AttributeDefinition, NetworkKey, AssetValues, ViewState } from '../types';
 import { Input } from './Input';
 import { Button } from './Button';
-import { createWalletFromKey, encryptData, decryptData, fetchBalance, createTransferTransaction, fetchNonce, signTransaction, broadcastTransaction, NETWORKS, TOKEN_ADDRESSES } from '../services/cryptoService';
+import { createWalletFromKey, encryptData, decryptData, createTransferTransaction, fetchNonce, signTransaction, broadcastTransaction, generateMnemonic, DEFAULT_DERIVATION_PATH } from '../services/cryptoService';
+import { listNetworks, getNetworkMetadata } from '../services/networkRegistry';
+import { scanPortfolio } from '../services/balanceScanner';
+import { createSeed, deriveSeedWallets, MAX_DERIVE_BATCH } from '../services/hdWallets';
+import { generateWallets, MAX_GENERATE_BATCH } from '../services/walletGenerator';
+import { importKeystores, exportKeystores, KeystoreFile } from '../services/keystoreService';
 import { logger } from '../services/systemLogger';
+import { NonceState } from '../services/nonceManager';
 import { 
   Trash2, Copy, Plus, Check, Bird, FileSpreadsheet, 
   Settings2, RefreshCw, Search, Wallet, 
   Eye, EyeOff, ShieldAlert,
-  Database, Network, Terminal, PlayCircle, ExternalLink, Calculator, Send, ArrowRight, Lock
+  Database, Network, Terminal, PlayCircle, ExternalLink, Calculator, Send, ArrowRight, Lock, GitBranch, Sparkles, FileKey, FolderOpen, Download, CheckSquare, Square, ListOrdered, RotateCcw
 } from 'lucide-react';
 import { ethers } from 'ethers';
 
 interface WalletManagerProps {
   wallets: WalletData[];
-  password: string;
+  seeds: SeedData[];
+  dataKey: CryptoKey;
   settings: VaultSettings;
+  nonceStates: NonceState[];
+  onResetNonce: (address: string, chainId: number) => void;
   onNavigate: (view: ViewState) => void;
   onAddWallet: (wallet: WalletData) => void;
+  onAddWallets: (wallets: WalletData[]) => Promise<void>;
+  onAddSeed: (seed: SeedData) => Promise<void>;
   onRemoveWallet: (id: string) => void;
   onUpdateWallet?: (id: string, metadata: WalletMetadata) => void;
 }
@@ -26,10 +37,10 @@ interface WalletManagerProps {
 // Cache structure: walletId -> network -> value
 type ScanCache = Record<string, Record<string, AssetValues | 'Error'>>;
 
-export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password, settings, onNavigate, onAddWallet, onRemoveWallet, onUpdateWallet }) => {
+export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, seeds, dataKey, settings, nonceStates, onResetNonce, onNavigate, onAddWallet, onAddWallets, onAddSeed, onRemoveWallet, onUpdateWallet }) => {
   // --- View State ---
   const [selectedWalletId, setSelectedWalletId] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'detail' | 'import'>('detail');
+  const [viewMode, setViewMode] = useState<'detail' | 'import' | 'export'>('detail');
   const [searchTerm, setSearchTerm] = useState('');
 
   // --- Scan State ---
@@ -38,12 +49,38 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
   const [isGlobalScanning, setIsGlobalScanning] = useState(false);
 
   // --- Import State ---
-  const [importTab, setImportTab] = useState<'single' | 'batch'>('single');
+  const [importTab, setImportTab] = useState<'single' | 'batch' | 'generate' | 'hd' | 'keystore'>('single');
   const [newName, setNewName] = useState('');
   const [newKey, setNewKey] = useState('');
   const [newMetadata, setNewMetadata] = useState<Record<string, string>>({});
   const [batchData, setBatchData] = useState('');
   const [importStatus, setImportStatus] = useState<{msg: string, type: 'error' | 'success'} | null>(null);
+
+  // Generate State
+  const [genCount, setGenCount] = useState('1');
+  const [genPrefix, setGenPrefix] = useState('');
+  const [genMetadata, setGenMetadata] = useState<Record<string, string>>({});
+  const [generated, setGenerated] = useState<WalletData[]>([]);
+
+  // Keystore State
+  const [ksFiles, setKsFiles] = useState<KeystoreFile[]>([]);
+  const [ksPassword, setKsPassword] = useState('');
+  const [ksProgress, setKsProgress] = useState<{done: number, total: number} | null>(null);
+  const [exportIds, setExportIds] = useState<string[]>([]);
+  const [exportPassword, setExportPassword] = useState('');
+  const [exportConfirm, setExportConfirm] = useState('');
+  const [exportOverrides, setExportOverrides] = useState<Record<string, string>>({});
+  const ksFileInputRef = useRef<HTMLInputElement>(null);
+  const ksFolderInputRef = useRef<HTMLInputElement>(null);
+
+  // HD Seed State
+  const [seedName, setSeedName] = useState('');
+  const [seedPhrase, setSeedPhrase] = useState('');
+  const [seedPath, setSeedPath] = useState(DEFAULT_DERIVATION_PATH);
+  const [deriveSeedId, setDeriveSeedId] = useState('');
+  const [deriveStart, setDeriveStart] = useState('0');
+  const [deriveCount, setDeriveCount] = useState('10');
+  const [derivePrefix, setDerivePrefix] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
 
   // --- Detail Edit State ---
@@ -64,32 +101,39 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
   }, [wallets.length]);
 
   const selectedWallet = useMemo(() => wallets.find(w => w.id === selectedWalletId), [wallets, selectedWalletId]);
+  const selectedNonces = useMemo(
+      () => selectedWallet ? nonceStates.filter(s => s.address === selectedWallet.address.toLowerCase()).sort((a, b) => a.chainId - b.chainId) : [],
+      [nonceStates, selectedWallet]
+  );
 
   // --- Statistics Calculation ---
+  // Token columns: every registered symbol, summed across the networks it is registered on
+  const tokenSymbols = useMemo(() => [...new Set(settings.tokens.map(t => t.symbol))], [settings.tokens]);
+
   const portfolioStats = useMemo(() => {
+      const tokens: Record<string, number> = {};
       if (!selectedWalletId || !scanCache[selectedWalletId]) {
-          return { eth: 0, usdt: 0, usdc: 0 };
+          return { eth: 0, tokens };
       }
       
-      let eth = 0, usdt = 0, usdc = 0;
+      let eth = 0;
       Object.values(scanCache[selectedWalletId]).forEach(val => {
           if (val && val !== 'Error') {
               const assetVal = val as AssetValues;
               eth += parseFloat(assetVal.eth);
-              usdt += parseFloat(assetVal.usdt);
-              usdc += parseFloat(assetVal.usdc);
+              Object.entries(assetVal.tokens).forEach(([symbol, amount]) => {
+                  tokens[symbol] = (tokens[symbol] || 0) + (parseFloat(amount) || 0);
+              });
           }
       });
-      return { eth, usdt, usdc };
+      return { eth, tokens };
   }, [scanCache, selectedWalletId]);
 
   // --- Auto-Scan Logic ---
   useEffect(() => {
       if (selectedWallet && viewMode === 'detail') {
           // If no cache for this wallet, trigger scan
-          if (!scanCache[selectedWallet.id]) {
-              performDeepScan(selectedWallet.id, selectedWallet.address);
-          }
+          performDeepScan([selectedWallet]);
       }
       setRevealedKey(null); // Reset key reveal on switch
   }, [selectedWalletId, viewMode]);
@@ -113,59 +157,39 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
       return () => clearInterval(interval);
   }, [revealedKey]);
 
-  const performDeepScan = async (walletId: string, address: string, force = false) => {
-      if (!force && scanCache[walletId]) return;
+  // Scans wallets on every network at once; all their addresses go into a few Multicall3 calls per network
+  const performDeepScan = async (targets: WalletData[], force = false) => {
+      const pending = force ? targets : targets.filter(w => !scanCache[w.id]);
+      if (pending.length === 0) return;
 
       setIsGlobalScanning(true);
-      const networks = Object.keys(NETWORKS);
-      
+      const networks = listNetworks().map(n => n.key);
+      const label = pending.length === 1 ? `${pending[0].address.slice(0, 8)}...` : `${pending.length} wallets`;
+
       setScanCache(prev => ({
           ...prev,
-          [walletId]: prev[walletId] || {}
+          ...Object.fromEntries(pending.map(w => [w.id, prev[w.id] || {}]))
       }));
+      setScanningNetworks(Object.fromEntries(networks.map(net => [net, true])));
 
-      logger.log(`Starting multi-node asset scan for ${address.slice(0, 8)}...`, 'info', 'AssetScanner');
+      logger.log(`Starting multi-node asset scan for ${label}`, 'info', 'AssetScanner');
 
-      const chunk = 3;
-      for (let i = 0; i < networks.length; i += chunk) {
-          if (selectedWalletId !== walletId) break;
-          
-          const batch = networks.slice(i, i + chunk);
-          await Promise.all(batch.map(async (net) => {
-             setScanningNetworks(prev => ({ ...prev, [net]: true }));
-             try {
-                 const result = await fetchBalance(address, net);
-                 const assetVal: AssetValues | 'Error' = result === 'Error' ? 'Error' : {
-                     eth: result.eth,
-                     wei: result.wei,
-                     usdt: result.usdt,
-                     usdc: result.usdc
-                 };
-                 setScanCache(prev => ({
-                     ...prev,
-                     [walletId]: {
-                         ...(prev[walletId] || {}),
-                         [net]: assetVal
-                     }
-                 }));
-             } catch (e) {
-                 setScanCache(prev => ({
-                     ...prev,
-                     [walletId]: {
-                         ...(prev[walletId] || {}),
-                         [net]: 'Error'
-                     }
-                 }));
-             } finally {
-                 setScanningNetworks(prev => ({ ...prev, [net]: false }));
-             }
-          }));
-      }
+      await scanPortfolio(pending.map(w => w.address), networks, settings.tokens, (net, balances) => {
+          setScanCache(prev => {
+              const next = { ...prev };
+              pending.forEach(w => {
+                  next[w.id] = {
+                      ...(next[w.id] || {}),
+                      [net]: balances === 'Error' ? 'Error' : balances[w.address.toLowerCase()]
+                  };
+              });
+              return next;
+          });
+          setScanningNetworks(prev => ({ ...prev, [net]: false }));
+      });
 
       setIsGlobalScanning(false);
-      if (selectedWalletId === walletId) {
-          logger.log(`Asset scan completed for ${address.slice(0, 8)}`, 'success', 'AssetScanner');
-      }
+      logger.log(`Asset scan completed for ${label}`, 'success', 'AssetScanner');
   };
 
   // --- Action Handlers ---
@@ -191,11 +215,11 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
       }
       if (!selectedWallet) return;
       try {
-          const pk = await decryptData(selectedWallet.encryptedPrivateKey, password);
+          const pk = await decryptData(selectedWallet.encryptedPrivateKey, dataKey);
           setRevealedKey(pk);
           logger.log(`Private key revealed for ${selectedWallet.name}`, 'warning', 'Security');
       } catch (e) {
-          alert('Failed to decrypt. Master password might be invalid (session issue).');
+          alert('Failed to decrypt. The key may still be in the legacy format or corrupted.');
       }
   };
 
@@ -215,7 +239,7 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
       const { address, valid } = createWalletFromKey(key.trim());
       if (!valid) throw new Error(`Invalid Key for ${trimmedName}`);
       
-      const encrypted = await encryptData(key.trim(), password);
+      const encrypted = await encryptData(key.trim(), dataKey);
       return {
           id: crypto.randomUUID(),
           name: trimmedName,
@@ -283,6 +307,145 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
       }
   };
 
+  const handleGenerate = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsProcessing(true);
+      setImportStatus(null);
+      try {
+          const created = await generateWallets(Number(genCount), genPrefix, dataKey, wallets, genMetadata);
+          await onAddWallets(created);
+          logger.log(`Generated ${created.length} wallets (${genPrefix.trim()}*)`, 'success', 'WalletMgr');
+          setGenerated(created);
+          setImportStatus({ msg: `Generated ${created.length} wallets`, type: 'success' });
+      } catch (err: any) {
+          setImportStatus({ msg: err.message, type: 'error' });
+      } finally {
+          setIsProcessing(false);
+      }
+  };
+
+  // --- Keystore Handlers ---
+  const handleKeystoreFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const list = Array.from(e.target.files || []);
+      e.target.value = '';
+      // Folders may contain anything; keystores are small JSON files
+      const candidates = list.filter(f => f.size < 64 * 1024 && !f.name.startsWith('.'));
+      setKsFiles(await Promise.all(candidates.map(async f => ({ name: f.webkitRelativePath || f.name, content: await f.text() }))));
+      setImportStatus(null);
+  };
+
+  const handleKeystoreImport = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsProcessing(true);
+      setImportStatus(null);
+      try {
+          const result = await importKeystores(ksFiles, ksPassword, dataKey, wallets, (done, total) => setKsProgress({ done, total }));
+          if (result.wallets.length > 0) {
+              await onAddWallets(result.wallets);
+              logger.log(`Imported ${result.wallets.length} keystore files`, 'success', 'WalletMgr');
+          }
+          if (result.errors.length > 0) {
+              setImportStatus({ msg: `Imported ${result.wallets.length}. Errors: ${result.errors.join('; ')}`, type: 'error' });
+          } else {
+              setImportStatus({ msg: `Imported ${result.wallets.length} keystore files`, type: 'success' });
+              setKsFiles([]); setKsPassword('');
+          }
+      } catch (err: any) {
+          setImportStatus({ msg: err.message, type: 'error' });
+      } finally {
+          setKsProgress(null);
+          setIsProcessing(false);
+      }
+  };
+
+  const toggleExport = (id: string) => {
+      setExportIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleKeystoreExport = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setImportStatus(null);
+      if (exportPassword !== exportConfirm) {
+          setImportStatus({ msg: 'Keystore passwords do not match', type: 'error' });
+          return;
+      }
+      const selected = wallets.filter(w => exportIds.includes(w.id));
+      const passwords = Object.fromEntries(selected.map(w => [w.id, exportOverrides[w.id] || exportPassword]));
+      setIsProcessing(true);
+      try {
+          const zip = await exportKeystores(selected, passwords, dataKey, (done, total) => setKsProgress({ done, total }));
+          const blob = new Blob([zip as BlobPart], { type: 'application/zip' });
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `falconvault_keystores_${new Date().toISOString().split('T')[0]}.zip`;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          URL.revokeObjectURL(url);
+          logger.log(`Exported ${selected.length} wallets as keystore V3`, 'warning', 'WalletMgr');
+          setImportStatus({ msg: `Exported ${selected.length} keystore files`, type: 'success' });
+          setExportPassword(''); setExportConfirm(''); setExportOverrides({});
+      } catch (err: any) {
+          setImportStatus({ msg: err.message, type: 'error' });
+      } finally {
+          setKsProgress(null);
+          setIsProcessing(false);
+      }
+  };
+
+  // --- HD Seed Handlers ---
+  const nextDeriveIndex = (seed: SeedData) => {
+      const used = wallets
+          .filter(w => w.seedId === seed.id && w.derivationPath?.startsWith(`${seed.basePath}/`))
+          .map(w => Number(w.derivationPath!.slice(seed.basePath.length + 1)));
+      return used.length ? Math.max(...used) + 1 : 0;
+  };
+
+  const selectDeriveSeed = (seed: SeedData | undefined) => {
+      setDeriveSeedId(seed?.id || '');
+      setDeriveStart(seed ? String(nextDeriveIndex(seed)) : '0');
+      setDerivePrefix(seed ? `${seed.name}_` : '');
+  };
+
+  const handleAddSeed = async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsProcessing(true);
+      setImportStatus(null);
+      try {
+          const seed = await createSeed(seedName, seedPhrase, seedPath.trim(), dataKey, seeds);
+          await onAddSeed(seed);
+          logger.log(`HD seed stored: ${seed.name}`, 'success', 'WalletMgr');
+          setImportStatus({ msg: `Stored seed ${seed.name}. Derive accounts below.`, type: 'success' });
+          setSeedName(''); setSeedPhrase(''); setSeedPath(DEFAULT_DERIVATION_PATH);
+          selectDeriveSeed(seed);
+      } catch (err: any) {
+          setImportStatus({ msg: err.message, type: 'error' });
+      } finally {
+          setIsProcessing(false);
+      }
+  };
+
+  const handleDerive = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const seed = seeds.find(s => s.id === deriveSeedId);
+      if (!seed) return;
+      setIsProcessing(true);
+      setImportStatus(null);
+      try {
+          const derived = await deriveSeedWallets(seed, dataKey, Number(deriveStart), Number(deriveCount), derivePrefix, wallets);
+          await onAddWallets(derived);
+          logger.log(`Derived ${derived.length} accounts from ${seed.name}`, 'success', 'WalletMgr');
+          const skipped = Number(deriveCount) - derived.length;
+          setImportStatus({ msg: `Derived ${derived.length} accounts${skipped ? ` (${skipped} already in vault)` : ''}`, type: 'success' });
+          setDeriveStart(String(Number(deriveStart) + Number(deriveCount)));
+      } catch (err: any) {
+          setImportStatus({ msg: err.message, type: 'error' });
+      } finally {
+          setIsProcessing(false);
+      }
+  };
+
   // --- Render Helpers ---
   const renderAttributeInput = (def: AttributeDefinition, value: string, onChange: (val: string) => void) => {
       if (def.type === 'select' && def.options) {
@@ -312,6 +475,8 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
       );
   };
 
+  const isHighlighted = (w: WalletData) => viewMode === 'export' ? exportIds.includes(w.id) : selectedWalletId === w.id && viewMode === 'detail';
+
   const filteredWallets = wallets.filter(w => w.name.toLowerCase().includes(searchTerm.toLowerCase()));
 
   return (
@@ -327,7 +492,17 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
                         <Database className="w-4 h-4 mr-2 text-sky-500" />
                         Registry
                      </h3>
-                     <span className="text-xs font-mono text-slate-500">{wallets.length} Keys</span>
+                     <div className="flex items-center space-x-2">
+                         <button
+                            onClick={() => performDeepScan(wallets, true)}
+                            disabled={isGlobalScanning || wallets.length === 0}
+                            className="flex items-center text-xs text-slate-500 hover:text-sky-400 disabled:opacity-50 transition-colors"
+                            title="Scan balances of all wallets on every network"
+                         >
+                            <RefreshCw className={`w-3 h-3 mr-1 ${isGlobalScanning ? 'animate-spin' : ''}`} /> Scan All
+                         </button>
+                         <span className="text-xs font-mono text-slate-500">{wallets.length} Keys</span>
+                     </div>
                  </div>
                  <div className="relative">
                      <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-500" />
@@ -347,6 +522,14 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
                  >
                     <Plus className="w-4 h-4 mr-2" /> Add New Wallet
                  </Button>
+                 <Button 
+                    variant={viewMode === 'export' ? 'primary' : 'secondary'} 
+                    className="w-full justify-center"
+                    size="sm"
+                    onClick={() => { setViewMode('export'); setImportStatus(null); }}
+                 >
+                    <FileKey className="w-4 h-4 mr-2" /> Export Keystores
+                 </Button>
              </div>
 
              {/* Scrollable List */}
@@ -358,20 +541,26 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
                      <button
                         key={w.id}
                         onClick={() => {
+                            if (viewMode === 'export') {
+                                toggleExport(w.id);
+                                return;
+                            }
                             setSelectedWalletId(w.id);
                             setViewMode('detail'); 
                         }}
                         className={`w-full flex items-center p-3 rounded-lg border transition-all duration-200 ${
-                            selectedWalletId === w.id && viewMode !== 'import'
+                            isHighlighted(w)
                             ? 'bg-sky-500/10 border-sky-500/50 shadow-[0_0_15px_rgba(14,165,233,0.1)]' 
                             : 'bg-transparent border-transparent hover:bg-slate-800'
                         }`}
                      >
-                        <div className={`p-2 rounded-lg mr-3 ${selectedWalletId === w.id && viewMode !== 'import' ? 'bg-sky-500 text-white' : 'bg-slate-800 text-slate-400'}`}>
-                            <Wallet className="w-4 h-4" />
+                        <div className={`p-2 rounded-lg mr-3 ${isHighlighted(w) ? 'bg-sky-500 text-white' : 'bg-slate-800 text-slate-400'}`}>
+                            {viewMode === 'export'
+                                ? (exportIds.includes(w.id) ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />)
+                                : <Wallet className="w-4 h-4" />}
                         </div>
                         <div className="flex-1 text-left overflow-hidden">
-                            <div className={`font-medium text-sm truncate ${selectedWalletId === w.id && viewMode !== 'import' ? 'text-sky-100' : 'text-slate-300'}`}>{w.name}</div>
+                            <div className={`font-medium text-sm truncate ${isHighlighted(w) ? 'text-sky-100' : 'text-slate-300'}`}>{w.name}</div>
                             <div className="text-[10px] font-mono text-slate-500 truncate">{w.address}</div>
                         </div>
                         {w.metadata?.withdrawalAddress && (
@@ -398,6 +587,9 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
                  <div className="flex space-x-4 border-b border-slate-800 mb-6">
                      <button onClick={() => setImportTab('single')} className={`pb-2 text-sm font-medium transition-colors ${importTab === 'single' ? 'text-sky-400 border-b-2 border-sky-400' : 'text-slate-500 hover:text-slate-300'}`}>Single Entry</button>
                      <button onClick={() => setImportTab('batch')} className={`pb-2 text-sm font-medium transition-colors ${importTab === 'batch' ? 'text-sky-400 border-b-2 border-sky-400' : 'text-slate-500 hover:text-slate-300'}`}>Batch CSV</button>
+                     <button onClick={() => setImportTab('generate')} className={`pb-2 text-sm font-medium transition-colors ${importTab === 'generate' ? 'text-sky-400 border-b-2 border-sky-400' : 'text-slate-500 hover:text-slate-300'}`}>Generate</button>
+                     <button onClick={() => setImportTab('keystore')} className={`pb-2 text-sm font-medium transition-colors ${importTab === 'keystore' ? 'text-sky-400 border-b-2 border-sky-400' : 'text-slate-500 hover:text-slate-300'}`}>Keystore</button>
+                     <button onClick={() => { setImportTab('hd'); if (!deriveSeedId) selectDeriveSeed(seeds[0]); }} className={`pb-2 text-sm font-medium transition-colors ${importTab === 'hd' ? 'text-sky-400 border-b-2 border-sky-400' : 'text-slate-500 hover:text-slate-300'}`}>HD Seed</button>
                  </div>
 
                  {importTab === 'single' ? (
@@ -417,6 +609,117 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
                             <Button type="submit" isLoading={isProcessing} className="w-full">Secure Import</Button>
                          </div>
                      </form>
+                 ) : importTab === 'generate' ? (
+                     <div className="space-y-4 max-w-lg animate-in fade-in">
+                         <form onSubmit={handleGenerate} className="space-y-4">
+                             <div className="p-3 bg-slate-950 rounded border border-slate-800 text-sm text-slate-400">
+                                 Keys are created and encrypted inside the vault. Only addresses are shown.
+                             </div>
+                             <div className="grid grid-cols-2 gap-4">
+                                 <Input label="Label Prefix" placeholder="e.g. Hot_" value={genPrefix} onChange={e => setGenPrefix(e.target.value)} />
+                                 <Input label="Count" type="number" min={1} max={MAX_GENERATE_BATCH} value={genCount} onChange={e => setGenCount(e.target.value)} />
+                             </div>
+                             {settings.attributeDefinitions.length > 0 && (
+                                <div className="pt-2 grid grid-cols-2 gap-4">
+                                    {settings.attributeDefinitions.map(def => (
+                                        <div key={def.key}>
+                                            {renderAttributeInput(def, genMetadata[def.key] || '', v => setGenMetadata({...genMetadata, [def.key]: v}))}
+                                        </div>
+                                    ))}
+                                </div>
+                             )}
+                             <Button type="submit" isLoading={isProcessing} className="w-full">Generate Wallets</Button>
+                         </form>
+                         {generated.length > 0 && (
+                             <div className="bg-slate-950 rounded-lg border border-slate-800 divide-y divide-slate-800 max-h-64 overflow-y-auto">
+                                 {generated.map(w => (
+                                     <div key={w.id} className="flex items-center justify-between px-3 py-2 text-xs">
+                                         <span className="text-slate-300">{w.name}</span>
+                                         <span className="font-mono text-slate-500">{w.address}</span>
+                                     </div>
+                                 ))}
+                             </div>
+                         )}
+                     </div>
+                 ) : importTab === 'keystore' ? (
+                     <form onSubmit={handleKeystoreImport} className="space-y-4 max-w-lg animate-in fade-in">
+                         <div className="p-3 bg-slate-950 rounded border border-slate-800 text-sm text-slate-400">
+                             Ethereum keystore V3 files (geth, MetaMask, Foundry). Select files or a whole keystore folder; all files are opened with the same password.
+                         </div>
+                         <input type="file" multiple ref={ksFileInputRef} onChange={handleKeystoreFiles} className="hidden" />
+                         <input type="file" ref={ksFolderInputRef} onChange={handleKeystoreFiles} className="hidden" {...{ webkitdirectory: '' }} />
+                         <div className="grid grid-cols-2 gap-4">
+                             <Button type="button" variant="secondary" onClick={() => ksFileInputRef.current?.click()}>
+                                 <FileKey className="w-4 h-4 mr-2" /> Select Files
+                             </Button>
+                             <Button type="button" variant="secondary" onClick={() => ksFolderInputRef.current?.click()}>
+                                 <FolderOpen className="w-4 h-4 mr-2" /> Select Folder
+                             </Button>
+                         </div>
+                         {ksFiles.length > 0 && (
+                             <div className="bg-slate-950 rounded-lg border border-slate-800 p-3 text-xs font-mono text-slate-400 max-h-32 overflow-y-auto">
+                                 {ksFiles.map(f => <div key={f.name} className="truncate">{f.name}</div>)}
+                             </div>
+                         )}
+                         <Input label="Keystore Password" type="password" value={ksPassword} onChange={e => setKsPassword(e.target.value)} />
+                         {ksProgress && (
+                             <div className="text-xs text-slate-500">Decrypting {ksProgress.done}/{ksProgress.total}...</div>
+                         )}
+                         <Button type="submit" isLoading={isProcessing} disabled={ksFiles.length === 0 || !ksPassword} className="w-full">
+                             Import {ksFiles.length || ''} Keystore{ksFiles.length === 1 ? '' : 's'}
+                         </Button>
+                     </form>
+                 ) : importTab === 'hd' ? (
+                     <div className="space-y-8 max-w-lg animate-in fade-in">
+                         <form onSubmit={handleAddSeed} className="space-y-4">
+                             <h4 className="text-sm font-bold text-slate-300 flex items-center"><Sparkles className="w-4 h-4 mr-2 text-sky-500" /> Store Mnemonic</h4>
+                             <Input label="Seed Label" placeholder="e.g. Ops_Seed" value={seedName} onChange={e => setSeedName(e.target.value)} />
+                             <div>
+                                 <div className="flex items-center justify-between mb-1">
+                                     <label className="block text-sm font-medium text-slate-400">BIP-39 Mnemonic</label>
+                                     <button type="button" onClick={() => setSeedPhrase(generateMnemonic())} className="text-xs text-sky-400 hover:text-sky-300">Generate new</button>
+                                 </div>
+                                 <textarea
+                                    className="w-full h-24 bg-slate-950 border border-slate-700 rounded-lg p-3 font-mono text-sm text-slate-200 focus:border-sky-500 outline-none"
+                                    placeholder="twelve or twenty-four words..."
+                                    value={seedPhrase}
+                                    onChange={e => setSeedPhrase(e.target.value)}
+                                    autoComplete="off"
+                                    spellCheck={false}
+                                 />
+                                 <p className="text-xs text-amber-500/80 mt-1">Write a generated mnemonic down before storing it. It is only shown here.</p>
+                             </div>
+                             <Input label="Base Derivation Path" value={seedPath} onChange={e => setSeedPath(e.target.value)} className="font-mono" />
+                             <Button type="submit" isLoading={isProcessing} className="w-full">Encrypt & Store Seed</Button>
+                         </form>
+
+                         {seeds.length > 0 && (
+                             <form onSubmit={handleDerive} className="space-y-4 pt-6 border-t border-slate-800">
+                                 <h4 className="text-sm font-bold text-slate-300 flex items-center"><GitBranch className="w-4 h-4 mr-2 text-sky-500" /> Derive Accounts</h4>
+                                 <div>
+                                     <label className="block text-sm font-medium text-slate-400 mb-1">Seed</label>
+                                     <select
+                                         className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 outline-none focus:border-sky-500"
+                                         value={deriveSeedId}
+                                         onChange={(e) => selectDeriveSeed(seeds.find(s => s.id === e.target.value))}
+                                     >
+                                         {seeds.map(s => (
+                                             <option key={s.id} value={s.id}>
+                                                 {s.name} ({s.basePath}, {wallets.filter(w => w.seedId === s.id).length} derived)
+                                             </option>
+                                         ))}
+                                     </select>
+                                 </div>
+                                 <div className="grid grid-cols-3 gap-4">
+                                     <Input label="Start Index" type="number" min={0} value={deriveStart} onChange={e => setDeriveStart(e.target.value)} />
+                                     <Input label="Count" type="number" min={1} max={MAX_DERIVE_BATCH} value={deriveCount} onChange={e => setDeriveCount(e.target.value)} />
+                                     <Input label="Label Prefix" value={derivePrefix} onChange={e => setDerivePrefix(e.target.value)} />
+                                 </div>
+                                 <p className="text-xs text-slate-500">Accounts are labelled <span className="font-mono">{derivePrefix}&lt;index&gt;</span>; indexes already in the vault are skipped.</p>
+                                 <Button type="submit" isLoading={isProcessing} className="w-full">Derive Range</Button>
+                             </form>
+                         )}
+                     </div>
                  ) : (
                      <div className="space-y-4 animate-in fade-in">
                          <div className="p-3 bg-slate-950 rounded border border-slate-800 text-sm text-slate-400">
@@ -442,6 +745,52 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
              </div>
          )}
 
+         {viewMode === 'export' && (
+             <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 h-full overflow-y-auto">
+                 <div className="flex items-center mb-6">
+                     <FileKey className="w-6 h-6 text-amber-500 mr-3" />
+                     <h2 className="text-xl font-bold text-white">Export Keystores</h2>
+                 </div>
+                 <p className="text-sm text-slate-400 mb-6">
+                     Select wallets in the registry. Each is written as a keystore V3 file (scrypt, geth naming) and bundled into a zip. Private keys are never displayed.
+                 </p>
+                 <form onSubmit={handleKeystoreExport} className="space-y-4 max-w-lg">
+                     <div className="grid grid-cols-2 gap-4">
+                         <Input label="Keystore Password" type="password" value={exportPassword} onChange={e => setExportPassword(e.target.value)} />
+                         <Input label="Confirm" type="password" value={exportConfirm} onChange={e => setExportConfirm(e.target.value)} />
+                     </div>
+                     {exportIds.length > 0 && (
+                         <div className="space-y-2">
+                             <div className="text-xs text-slate-500">Optional per-wallet password (defaults to the one above)</div>
+                             {wallets.filter(w => exportIds.includes(w.id)).map(w => (
+                                 <div key={w.id} className="flex items-center gap-3">
+                                     <span className="text-sm text-slate-300 w-40 truncate">{w.name}</span>
+                                     <input
+                                         type="password"
+                                         placeholder="Same as above"
+                                         className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 outline-none focus:border-sky-500"
+                                         value={exportOverrides[w.id] || ''}
+                                         onChange={e => setExportOverrides({ ...exportOverrides, [w.id]: e.target.value })}
+                                     />
+                                 </div>
+                             ))}
+                         </div>
+                     )}
+                     {ksProgress && (
+                         <div className="text-xs text-slate-500">Encrypting {ksProgress.done}/{ksProgress.total}...</div>
+                     )}
+                     <Button type="submit" isLoading={isProcessing} disabled={exportIds.length === 0 || !exportPassword} className="w-full">
+                         <Download className="w-4 h-4 mr-2" /> Download {exportIds.length} Keystore{exportIds.length === 1 ? '' : 's'} (.zip)
+                     </Button>
+                 </form>
+                 {importStatus && (
+                     <div className={`mt-6 p-4 rounded-lg border ${importStatus.type === 'error' ? 'bg-red-900/20 border-red-900/50 text-red-400' : 'bg-emerald-900/20 border-emerald-900/50 text-emerald-400'}`}>
+                         {importStatus.msg}
+                     </div>
+                 )}
+             </div>
+         )}
+
          {viewMode === 'detail' && selectedWallet && (
              <div className="flex flex-col h-full space-y-4 overflow-y-auto pr-1">
                  
@@ -463,6 +812,13 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
                                      {copiedId ? <Check className="w-4 h-4 text-emerald-500" /> : <Copy className="w-4 h-4" />}
                                  </button>
                              </div>
+                             {selectedWallet.derivationPath && (
+                                 <div className="flex items-center mt-2 text-xs text-slate-500">
+                                     <GitBranch className="w-3 h-3 mr-1" />
+                                     {seeds.find(s => s.id === selectedWallet.seedId)?.name || 'Unknown seed'}
+                                     <span className="font-mono ml-2">{selectedWallet.derivationPath}</span>
+                                 </div>
+                             )}
                          </div>
                          <div className="flex space-x-2">
                              <Button 
@@ -560,7 +916,7 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
                              <Button 
                                 variant="ghost" 
                                 size="sm" 
-                                onClick={() => performDeepScan(selectedWallet.id, selectedWallet.address, true)}
+                                onClick={() => performDeepScan([selectedWallet], true)}
                                 disabled={isGlobalScanning}
                                 className="h-8"
                              >
@@ -570,19 +926,17 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
                      </div>
                      
                      {/* Statistics Summary */}
-                     <div className="grid grid-cols-3 divide-x divide-slate-800 bg-slate-900/50 border-b border-slate-800">
-                         <div className="p-3 text-center">
+                     <div className="flex divide-x divide-slate-800 bg-slate-900/50 border-b border-slate-800 overflow-x-auto">
+                         <div className="flex-1 p-3 text-center">
                              <div className="text-[10px] uppercase text-slate-500 font-bold mb-1">Total ETH</div>
                              <div className="font-mono text-white text-lg">{portfolioStats.eth.toFixed(4)}</div>
                          </div>
-                         <div className="p-3 text-center bg-emerald-500/5">
-                             <div className="text-[10px] uppercase text-emerald-500/70 font-bold mb-1">Total USDT</div>
-                             <div className="font-mono text-emerald-400 text-lg">${portfolioStats.usdt.toFixed(2)}</div>
-                         </div>
-                         <div className="p-3 text-center bg-blue-500/5">
-                             <div className="text-[10px] uppercase text-blue-500/70 font-bold mb-1">Total USDC</div>
-                             <div className="font-mono text-blue-400 text-lg">${portfolioStats.usdc.toFixed(2)}</div>
-                         </div>
+                         {tokenSymbols.map(symbol => (
+                             <div key={symbol} className="flex-1 p-3 text-center bg-emerald-500/5">
+                                 <div className="text-[10px] uppercase text-emerald-500/70 font-bold mb-1">Total {symbol}</div>
+                                 <div className="font-mono text-emerald-400 text-lg">{(portfolioStats.tokens[symbol] || 0).toFixed(2)}</div>
+                             </div>
+                         ))}
                      </div>
 
                      <div className="flex-1 overflow-auto bg-slate-950 p-0">
@@ -591,12 +945,13 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
                                  <tr>
                                      <th className="px-4 py-2 font-medium border-b border-slate-800">Chain</th>
                                      <th className="px-4 py-2 font-medium border-b border-slate-800 text-right">ETH</th>
-                                     <th className="px-4 py-2 font-medium border-b border-slate-800 text-right">USDT</th>
-                                     <th className="px-4 py-2 font-medium border-b border-slate-800 text-right">USDC</th>
+                                     {tokenSymbols.map(symbol => (
+                                         <th key={symbol} className="px-4 py-2 font-medium border-b border-slate-800 text-right">{symbol}</th>
+                                     ))}
                                  </tr>
                              </thead>
                              <tbody className="divide-y divide-slate-800/50 text-slate-300 font-mono text-xs">
-                                 {Object.keys(NETWORKS).map(net => {
+                                 {listNetworks().map(n => n.key).map(net => {
                                      const cached = scanCache[selectedWallet.id]?.[net];
                                      const isScanning = scanningNetworks[net];
                                      const isError = cached === 'Error';
@@ -613,12 +968,14 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
                                                   isError ? <span className="text-red-900">FAIL</span> : 
                                                   val ? (val.eth === '0.00' ? <span className="text-slate-700">0.00</span> : <span className="text-white">{val.eth}</span>) : '-'}
                                              </td>
-                                             <td className="px-4 py-3 text-right group-hover:bg-slate-900/30">
-                                                 {val && !isError ? (val.usdt === '0.00' ? <span className="text-slate-700">0.00</span> : <span className="text-emerald-400">{val.usdt}</span>) : '-'}
-                                             </td>
-                                             <td className="px-4 py-3 text-right group-hover:bg-slate-900/30">
-                                                 {val && !isError ? (val.usdc === '0.00' ? <span className="text-slate-700">0.00</span> : <span className="text-blue-400">{val.usdc}</span>) : '-'}
-                                             </td>
+                                             {tokenSymbols.map(symbol => {
+                                                 const amount = val && !isError ? val.tokens[symbol] : undefined;
+                                                 return (
+                                                     <td key={symbol} className="px-4 py-3 text-right group-hover:bg-slate-900/30">
+                                                         {amount === undefined ? '-' : amount === '0.00' ? <span className="text-slate-700">0.00</span> : <span className="text-emerald-400">{amount}</span>}
+                                                     </td>
+                                                 );
+                                             })}
                                          </tr>
                                      );
                                  })}
@@ -627,6 +984,49 @@ export const WalletManager: React.FC<WalletManagerProps> = ({ wallets, password,
                      </div>
                  </div>
 
+                 {/* Locally tracked nonces */}
+                 {selectedNonces.length > 0 && (
+                 <div className="bg-slate-900 border border-slate-800 rounded-xl overflow-hidden shrink-0">
+                     <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+                         <h3 className="text-md font-bold text-white flex items-center">
+                             <ListOrdered className="w-4 h-4 mr-2 text-sky-500" />
+                             Nonce Tracker
+                         </h3>
+                         <span className="text-[10px] text-slate-500">Reserved locally, reconciled with the pending count on each use</span>
+                     </div>
+                     <table className="w-full text-left text-sm border-collapse">
+                         <thead className="bg-slate-900 text-slate-500 font-mono text-xs uppercase">
+                             <tr>
+                                 <th className="px-4 py-2 font-medium border-b border-slate-800">Chain</th>
+                                 <th className="px-4 py-2 font-medium border-b border-slate-800 text-right">Next</th>
+                                 <th className="px-4 py-2 font-medium border-b border-slate-800">Pending</th>
+                                 <th className="px-4 py-2 font-medium border-b border-slate-800">Released</th>
+                                 <th className="px-4 py-2 font-medium border-b border-slate-800"></th>
+                             </tr>
+                         </thead>
+                         <tbody className="divide-y divide-slate-800/50 text-slate-300 font-mono text-xs bg-slate-950">
+                             {selectedNonces.map(state => (
+                                 <tr key={state.chainId} className="hover:bg-slate-900/50 transition-colors">
+                                     <td className="px-4 py-3 text-slate-400">{getNetworkMetadata(state.chainId)?.key || `chain ${state.chainId}`}</td>
+                                     <td className="px-4 py-3 text-right text-white">{state.next}</td>
+                                     <td className="px-4 py-3 text-amber-400">{state.pending.join(', ') || '-'}</td>
+                                     <td className="px-4 py-3 text-sky-400">{state.released.join(', ') || '-'}</td>
+                                     <td className="px-4 py-3 text-right">
+                                         <button
+                                            onClick={() => onResetNonce(state.address, state.chainId)}
+                                            title="Forget local state and resync from the chain"
+                                            className="p-1 text-slate-500 hover:text-white transition-colors"
+                                         >
+                                             <RotateCcw className="w-3.5 h-3.5" />
+                                         </button>
+                                     </td>
+                                 </tr>
+                             ))}
+                         </tbody>
+                     </table>
+                 </div>
+                 )}
+
                  {/* Danger Zone */}
                  <div className="bg-slate-900 border border-slate-800 rounded-xl p-4 shrink-0">
                      <div className="flex justify-between items-center">
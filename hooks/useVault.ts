@@ -1,32 +1,128 @@
 
-import { useState, useEffect, useCallback } from 'react';
-import { WalletData, VaultSettings, WalletMetadata } from '../types';
-import { hashPassword, generateIntegrityHash } from '../services/cryptoService';
-
-const STORAGE_KEY = 'falconvault_v1_store';
-
-interface VaultStore {
-  wallets: WalletData[];
-  masterHash: string;
-  settings: VaultSettings;
-  checksum: string;
-}
-
-const DEFAULT_SETTINGS: VaultSettings = {
-    autoLockMinutes: 15,
-    enableLogging: true,
-    attributeDefinitions: [
-        { key: 'notes', label: 'Notes', type: 'text' }
-    ]
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { WalletData, SeedData, VaultSettings, WalletMetadata, TrackedTransaction } from '../types';
+import { STORAGE_KEY, DEFAULT_SETTINGS, VaultAuth, buildStore, parseStore, withDefaultSettings, createVaultAuth, unlockStore, reencryptWallets, reencryptSeeds } from '../services/vaultStore';
+import { VaultIntegrityError } from '../services/errors';
+import { readBackup } from '../services/backupService';
+import { ImportPreview, buildImportPreview, applyImport } from '../services/importService';
+import { SPEND_STORAGE_KEY, SpendLedger, SpendLedgerState, createSpendLedger, openSpendLedger, sealSpendLedger } from '../services/policyEngine';
+import { NONCE_STORAGE_KEY, NonceManager, NonceState, createNonceManager, openNonceStates, sealNonceStates } from '../services/nonceManager';
+import { TX_STORAGE_KEY, TransactionStore, createTransactionStore, openTransactions, sealTransactions, startTransactionPoller } from '../services/txStore';
+import { DISTRIBUTION_STORAGE_KEY, DistributionRun, DistributionStore, createDistributionStore, openDistributionRuns, sealDistributionRuns } from '../services/distributionService';
+import { configureNetworks } from '../services/networkRegistry';
+import { logger } from '../services/systemLogger';
+
+// Undefined when nothing is stored, and a value no store accepts when it cannot be parsed
+const readSealed = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? undefined : JSON.parse(raw);
+  } catch (e) {
+    return {}; // Unreadable
+  }
 };
 
 export const useVault = () => {
   const [isLocked, setIsLocked] = useState(true);
   const [hasVault, setHasVault] = useState(false);
   const [wallets, setWallets] = useState<WalletData[]>([]);
+  const [seeds, setSeeds] = useState<SeedData[]>([]);
   const [settings, setSettings] = useState<VaultSettings>(DEFAULT_SETTINGS);
-  const [masterPassword, setMasterPassword] = useState(''); // Only in memory
+  const [dataKey, setDataKey] = useState<CryptoKey | null>(null); // Non-extractable, only in memory
   const [loading, setLoading] = useState(true);
+  const [integrityError, setIntegrityError] = useState<string | null>(null); // Password was right but the store was tampered with
+  const authRef = useRef<VaultAuth | null>(null); // KDF params, verifier and wrapped data key of the unlocked vault
+
+  // Side stores are sealed with the vault's integrity key, so they are only opened once the vault
+  // is unlocked (and empty while it is locked), and re-sealed whenever that key changes.
+  const sealedWrite = useRef<Promise<void>>(Promise.resolve());
+
+  const writeSealed = useCallback((key: string, what: string, seal: (integrityKey: CryptoKey) => Promise<unknown>) => {
+    sealedWrite.current = sealedWrite.current.then(async () => {
+      if (!authRef.current) return;
+      localStorage.setItem(key, JSON.stringify(await seal(authRef.current.integrityKey)));
+    }).catch((e) => logger.log(`Failed to persist ${what}: ${e.message}`, 'error', 'Security'));
+  }, []);
+
+  // Signed transaction values for daily policy limits
+  const [spendLedger, setSpendLedger] = useState<SpendLedger | undefined>(undefined);
+  const saveSpendLedger = useCallback((state: SpendLedgerState) => {
+    writeSealed(SPEND_STORAGE_KEY, 'spend ledger', key => sealSpendLedger(state, key));
+  }, [writeSealed]);
+
+  // Locally reserved nonces per wallet and chain; mirrored into state for WalletManager.
+  const [nonces, setNonces] = useState<NonceManager>(() => createNonceManager([]));
+  const [nonceStates, setNonceStates] = useState<NonceState[]>([]);
+  const saveNonceStates = useCallback((states: NonceState[]) => {
+    writeSealed(NONCE_STORAGE_KEY, 'nonce state', key => sealNonceStates(states, key));
+    setNonceStates(states);
+  }, [writeSealed]);
+
+  // Transaction history, followed by the poller while the vault is unlocked.
+  const [transactions, setTransactions] = useState<TransactionStore>(() => createTransactionStore([]));
+  const [transactionHistory, setTransactionHistory] = useState<TrackedTransaction[]>([]);
+  const saveTransactions = useCallback((records: TrackedTransaction[]) => {
+    writeSealed(TX_STORAGE_KEY, 'transaction history', key => sealTransactions(records, key));
+    setTransactionHistory(records);
+  }, [writeSealed]);
+
+  // CSV payout runs, kept so a partially failed run can be resumed after a reload.
+  const [distributions, setDistributions] = useState<DistributionStore>(() => createDistributionStore([]));
+  const [distributionRuns, setDistributionRuns] = useState<DistributionRun[]>([]);
+  const saveDistributionRuns = useCallback((runs: DistributionRun[]) => {
+    writeSealed(DISTRIBUTION_STORAGE_KEY, 'payout runs', key => sealDistributionRuns(runs, key));
+    setDistributionRuns(runs);
+  }, [writeSealed]);
+
+  // A new vault starts with empty side stores; an existing one must present valid seals. A ledger
+  // that fails blocks daily limits, failed nonces and history are dropped, failed runs can't resume.
+  const loadSideStores = useCallback(async (auth: VaultAuth, fresh: boolean) => {
+    let ledgerState: SpendLedgerState = { records: [] };
+    let nonceState: NonceState[] = [];
+    let history: TrackedTransaction[] = [];
+    let runs: DistributionRun[] = [];
+    if (!fresh) {
+      const ledger = await openSpendLedger(readSealed(SPEND_STORAGE_KEY), auth.integrityKey);
+      ledgerState = ledger.state;
+      if (ledger.problem) {
+        logger.log(`Spend ledger ${ledger.problem}; daily limits deny signing until ${new Date(ledgerState.blockedUntil!).toLocaleString()}`, 'warning', 'Security');
+      }
+      const openedNonces = await openNonceStates(readSealed(NONCE_STORAGE_KEY), auth.integrityKey);
+      nonceState = openedNonces.states;
+      if (openedNonces.problem) logger.log(`Nonce state ${openedNonces.problem}; nonces come from the chain again`, 'warning', 'Security');
+      const openedHistory = await openTransactions(readSealed(TX_STORAGE_KEY), auth.integrityKey);
+      history = openedHistory.records;
+      if (openedHistory.problem) logger.log(`Transaction history ${openedHistory.problem} and was discarded`, 'warning', 'Security');
+      const openedRuns = await openDistributionRuns(readSealed(DISTRIBUTION_STORAGE_KEY), auth.integrityKey);
+      runs = openedRuns.runs;
+      if (openedRuns.problem) logger.log(`Payout runs ${openedRuns.problem}; they are listed but cannot be resumed`, 'warning', 'Security');
+    }
+
+    const ledger = createSpendLedger(ledgerState, saveSpendLedger);
+    saveSpendLedger(ledger.state());
+    setSpendLedger(ledger);
+    const nonceManager = createNonceManager(nonceState, saveNonceStates);
+    saveNonceStates(nonceManager.list());
+    setNonces(nonceManager);
+    const transactionStore = createTransactionStore(history, saveTransactions);
+    saveTransactions(transactionStore.list());
+    setTransactions(transactionStore);
+    const distributionStore = createDistributionStore(runs, saveDistributionRuns);
+    saveDistributionRuns(distributionStore.list());
+    setDistributions(distributionStore);
+  }, [saveSpendLedger, saveNonceStates, saveTransactions, saveDistributionRuns]);
+
+  // Every RPC path resolves networks through the registry. It is updated where the settings
+  // change, before the views rendered with them (and their effects) run.
+  const applySettings = (next: VaultSettings) => {
+    configureNetworks(next.networks);
+    setSettings(next);
+  };
+
+  useEffect(() => {
+    if (isLocked) return;
+    return startTransactionPoller(transactions);
+  }, [isLocked, transactions]);
 
   // Initialize
   useEffect(() => {
@@ -38,26 +134,22 @@ export const useVault = () => {
   }, []);
 
   // Save to storage helper
-  const persist = useCallback(async (newWallets: WalletData[], newSettings: VaultSettings, passHash: string) => {
-    const data = { wallets: newWallets, settings: newSettings };
-    const checksum = await generateIntegrityHash(data);
-    
-    const store: VaultStore = {
-      wallets: newWallets,
-      masterHash: passHash,
-      settings: newSettings,
-      checksum
-    };
+  const persist = useCallback(async (newWallets: WalletData[], newSettings: VaultSettings, newSeeds: SeedData[]) => {
+    if (!authRef.current) throw new Error("Vault is locked");
+    const store = await buildStore(newWallets, newSettings, authRef.current, newSeeds);
     localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
   }, []);
 
   const createVault = async (password: string) => {
-    const hash = await hashPassword(password);
-    setMasterPassword(password);
+    const created = await createVaultAuth(password);
+    authRef.current = created.auth;
+    await loadSideStores(created.auth, true);
+    setDataKey(created.dataKey);
     setIsLocked(false);
     setHasVault(true);
     setWallets([]);
-    await persist([], settings, hash);
+    setSeeds([]);
+    await persist([], settings, []);
   };
 
   const unlockVault = async (password: string): Promise<boolean> => {
@@ -65,48 +157,129 @@ export const useVault = () => {
     if (!stored) return false;
 
     try {
-      const parsed: VaultStore = JSON.parse(stored);
-      const inputHash = await hashPassword(password);
-
-      if (parsed.masterHash === inputHash) {
-        // Optional: Verify checksum
-        const dataToCheck = { wallets: parsed.wallets, settings: parsed.settings };
-        const calculatedChecksum = await generateIntegrityHash(dataToCheck);
-        
-        if (parsed.checksum && parsed.checksum !== calculatedChecksum) {
-          console.warn("Vault Integrity Warning: Data might have been tampered with externally.");
+      const parsed = parseStore(stored);
+      const unlocked = await unlockStore(parsed, password);
+
+      if (unlocked) {
+        setIntegrityError(null);
+        authRef.current = unlocked.auth;
+        const loadedSettings = withDefaultSettings(parsed.settings);
+        if (unlocked.migrated) {
+          // Legacy format or outdated KDF: re-save with the current parameters
+          await persist(unlocked.wallets, loadedSettings, unlocked.seeds);
         }
+        await loadSideStores(unlocked.auth, false);
 
-        setWallets(parsed.wallets);
-        // Merge with defaults to ensure new fields exist
-        setSettings({ ...DEFAULT_SETTINGS, ...parsed.settings });
-        setMasterPassword(password);
+        setWallets(unlocked.wallets);
+        setSeeds(unlocked.seeds);
+        applySettings(loadedSettings);
+        setDataKey(unlocked.dataKey);
         setIsLocked(false);
         return true;
       }
     } catch (e) {
-      console.error("Vault corruption", e);
+      if (e instanceof VaultIntegrityError) {
+        setIntegrityError(e.message);
+      } else {
+        console.error("Vault corruption", e);
+      }
     }
     return false;
   };
 
+  // Recovery for a store that failed its integrity check: keeps the vault key (the password
+  // is still verified), replaces wallets and settings with the backup and unlocks normally.
+  const restoreFromBackup = async (content: string, password: string, passphrase?: string): Promise<boolean> => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return false;
+
+    const opened = await unlockStore(parseStore(stored), password, { allowTampered: true });
+    if (!opened) throw new Error("Incorrect master password");
+
+    const backup = await readBackup(content, opened.dataKey, passphrase);
+
+    // Entries that cannot be opened are restored as they were, like at any other unlock
+    const store = await buildStore([...backup.wallets, ...backup.undecryptable], withDefaultSettings(backup.settings), opened.auth, backup.seeds);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+    setIntegrityError(null);
+    return unlockVault(password);
+  };
+
   const lockVault = useCallback(() => {
-    setMasterPassword('');
+    authRef.current = null;
+    setSpendLedger(undefined);
+    setNonces(createNonceManager([]));
+    setNonceStates([]);
+    setTransactions(createTransactionStore([]));
+    setTransactionHistory([]);
+    setDistributions(createDistributionStore([]));
+    setDistributionRuns([]);
+    setDataKey(null);
     setIsLocked(true);
   }, []);
 
+  const changeMasterPassword = async (
+    oldPassword: string,
+    newPassword: string,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<string[]> => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!dataKey || !stored || !(await unlockStore(parseStore(stored), oldPassword))) {
+      throw new Error("Current master password is incorrect");
+    }
+
+    // Rotate the data key too, so a copy of the old store plus the old password opens nothing new.
+    // Everything is re-encrypted in memory first; storage is only touched once all keys succeeded.
+    // Legacy packets still on an older password are kept as they are and returned by name.
+    const rotated = await createVaultAuth(newPassword);
+    const { wallets: reencrypted, skipped } = await reencryptWallets(wallets, dataKey, rotated.dataKey, oldPassword, onProgress);
+    const reencryptedSeeds = await reencryptSeeds(seeds, dataKey, rotated.dataKey);
+    const store = await buildStore(reencrypted, settings, rotated.auth, reencryptedSeeds);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+
+    authRef.current = rotated.auth;
+    // Side stores are re-sealed with the new integrity key
+    if (spendLedger) saveSpendLedger(spendLedger.state());
+    saveNonceStates(nonces.list());
+    saveTransactions(transactions.list());
+    saveDistributionRuns(distributions.list());
+    setWallets(reencrypted);
+    setSeeds(reencryptedSeeds);
+    setDataKey(rotated.dataKey);
+    if (skipped.length > 0) {
+      logger.log(`Kept ${skipped.length} legacy key(s) on their old password: ${skipped.join(', ')}`, 'warning', 'Security');
+    }
+    return skipped;
+  };
+
+  // Emergency reset: the store and every side store that holds addresses or payout history
+  const resetVault = () => {
+    [STORAGE_KEY, SPEND_STORAGE_KEY, NONCE_STORAGE_KEY, TX_STORAGE_KEY, DISTRIBUTION_STORAGE_KEY].forEach(key => localStorage.removeItem(key));
+  };
+
   const addWallet = async (wallet: WalletData) => {
     const newWallets = [...wallets, wallet];
     setWallets(newWallets);
-    const hash = await hashPassword(masterPassword);
-    await persist(newWallets, settings, hash);
+    await persist(newWallets, settings, seeds);
+  };
+
+  // Bulk variant for derived account ranges; a single write for the whole batch.
+  const addWallets = async (newEntries: WalletData[]) => {
+    const newWallets = [...wallets, ...newEntries];
+    setWallets(newWallets);
+    await persist(newWallets, settings, seeds);
+  };
+
+  const addSeed = async (seed: SeedData) => {
+    const newSeeds = [...seeds, seed];
+    setSeeds(newSeeds);
+    await persist(wallets, settings, newSeeds);
   };
 
   const removeWallet = async (id: string) => {
     const newWallets = wallets.filter(w => w.id !== id);
     setWallets(newWallets);
-    const hash = await hashPassword(masterPassword);
-    await persist(newWallets, settings, hash);
+    await persist(newWallets, settings, seeds);
   };
   
   const updateWalletMetadata = async (id: string, metadata: WalletMetadata) => {
@@ -114,51 +287,61 @@ export const useVault = () => {
           w.id === id ? { ...w, metadata: { ...w.metadata, ...metadata } } : w
       );
       setWallets(newWallets);
-      const hash = await hashPassword(masterPassword);
-      await persist(newWallets, settings, hash);
+      await persist(newWallets, settings, seeds);
   };
 
   const updateSettings = async (newSettings: Partial<VaultSettings>) => {
     const updated = { ...settings, ...newSettings };
-    setSettings(updated);
-    const hash = await hashPassword(masterPassword);
-    await persist(wallets, updated, hash);
+    applySettings(updated);
+    await persist(wallets, updated, seeds);
   };
 
-  const importVaultData = async (jsonString: string, currentPassword: string) => {
-      try {
-          const backup = JSON.parse(jsonString);
-          // Simple validation
-          if (!backup.wallets || !Array.isArray(backup.wallets)) throw new Error("Invalid format");
-          
-          // Merge logic: Add unique wallets by label/id
-          const currentIds = new Set(wallets.map(w => w.id));
-          const toAdd = backup.wallets.filter((w: WalletData) => !currentIds.has(w.id));
-          
-          const newWallets = [...wallets, ...toAdd];
-          setWallets(newWallets);
-          const hash = await hashPassword(currentPassword);
-          await persist(newWallets, settings, hash);
-          return { success: true, count: toAdd.length };
-      } catch (e) {
-          return { success: false, error: e };
-      }
+  // Step 1 of an import: decrypt the backup and classify its entries against the vault.
+  const previewImport = async (content: string, passphrase?: string): Promise<ImportPreview> => {
+      if (!dataKey) throw new Error("Vault is locked");
+      const backup = await readBackup(content, dataKey, passphrase);
+      return buildImportPreview(backup, wallets, settings, seeds);
+  };
+
+  // Step 2: apply the resolutions picked in the preview and merge attribute definitions.
+  const importWallets = async (preview: ImportPreview): Promise<number> => {
+      const merged = applyImport(preview, wallets, settings, seeds);
+      setWallets(merged.wallets);
+      applySettings(merged.settings);
+      setSeeds(merged.seeds);
+      await persist(merged.wallets, merged.settings, merged.seeds);
+      return merged.count;
   };
 
   return {
     isLocked,
     hasVault,
     wallets,
+    seeds,
     settings,
-    masterPassword,
+    dataKey,
+    spendLedger,
+    nonces,
+    nonceStates,
+    transactions,
+    transactionHistory,
+    distributions,
+    distributionRuns,
     loading,
+    integrityError,
     createVault,
     unlockVault,
+    restoreFromBackup,
     lockVault,
+    changeMasterPassword,
+    resetVault,
     addWallet,
+    addWallets,
+    addSeed,
     removeWallet,
     updateWalletMetadata,
     updateSettings,
-    importVaultData
+    previewImport,
+    importWallets
   };
 };
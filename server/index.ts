@@ -0,0 +1,254 @@
+import http from 'node:http';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import { ApiKey, ApiRequest, ServiceResponse, VaultSettings, WalletData, SeedData, TrackedTransaction } from '../types';
+import { buildStore, parseStore, withDefaultSettings, unlockStore, VaultAuth } from '../services/vaultStore';
+import { configureNetworks } from '../services/networkRegistry';
+import { executeRequest } from '../services/requestEngine';
+import { authenticateApiKey } from '../services/apiKeys';
+import { createSpendLedger, openSpendLedger, sealSpendLedger, SpendLedger, SpendLedgerState } from '../services/policyEngine';
+import { createNonceManager, NonceManager, NonceState, openNonceStates, sealNonceStates } from '../services/nonceManager';
+import { createTransactionStore, openTransactions, sealTransactions, startTransactionPoller, TransactionStore } from '../services/txStore';
+import { logger } from '../services/systemLogger';
+
+// Headless signing oracle: serves POST /api/v1/rpc against a vault store file.
+//
+//   FALCONVAULT_VAULT_FILE  Path to the vault store JSON (same format as the browser's localStorage entry)
+//   FALCONVAULT_PASSWORD    Master password used to unlock the vault at startup
+//   PORT / HOST             Listen address (default 0.0.0.0:8787)
+//
+// Every RPC call must present an API key issued in Settings, either as
+// `Authorization: Bearer fv_...` or `X-API-Key: fv_...`.
+
+const RPC_PATH = '/api/v1/rpc';
+const HEALTH_PATH = '/api/v1/health';
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const vaultFile = process.env.FALCONVAULT_VAULT_FILE || './vault.json';
+const spendFile = `${vaultFile}.spend.json`; // Rolling 24h spend records for daily policy limits
+const nonceFile = `${vaultFile}.nonces.json`; // Locally reserved nonces per wallet and chain
+const txFile = `${vaultFile}.transactions.json`; // Signed and broadcast transaction history
+const password = process.env.FALCONVAULT_PASSWORD || '';
+const port = Number(process.env.PORT || 8787);
+const host = process.env.HOST || '0.0.0.0';
+
+logger.subscribe((entry) => {
+  const line = `[${new Date(entry.timestamp).toISOString()}] [${entry.source}] ${entry.message}`;
+  if (entry.type === 'error') console.error(line);
+  else console.log(line);
+});
+
+interface LoadedVault {
+  wallets: WalletData[];
+  seeds: SeedData[];
+  settings: VaultSettings;
+  auth: VaultAuth;
+  dataKey: CryptoKey;
+}
+
+// Write to a temp file first so a crash never leaves a half-written vault behind. Writes are
+// chained, so concurrent API calls each build the store from the latest state and never
+// rename over one another mid-write.
+let vaultWrite: Promise<void> = Promise.resolve();
+
+const persistVault = (vault: LoadedVault): Promise<void> => {
+  const write = vaultWrite.then(async () => {
+    const store = await buildStore(vault.wallets, vault.settings, vault.auth, vault.seeds);
+    const tmp = `${vaultFile}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(tmp, JSON.stringify(store), { mode: 0o600 });
+    await rename(tmp, vaultFile);
+  });
+  vaultWrite = write.catch(() => {}); // A failed write doesn't block the next one
+  return write;
+};
+
+const loadVault = async (): Promise<LoadedVault> => {
+  const store = parseStore(await readFile(vaultFile, 'utf8'));
+  // A store that fails its integrity check throws here and the server refuses to start.
+  // Restore the file from a backup through the web UI.
+  const unlocked = await unlockStore(store, password);
+  if (!unlocked) {
+    throw new Error('Incorrect master password for vault file');
+  }
+
+  const vault = {
+    wallets: unlocked.wallets,
+    seeds: unlocked.seeds,
+    settings: withDefaultSettings(store.settings),
+    auth: unlocked.auth,
+    dataKey: unlocked.dataKey
+  };
+  if (unlocked.migrated) {
+    await persistVault(vault);
+    logger.log('Vault store upgraded to the current key format', 'info', 'Auth');
+  }
+  return vault;
+};
+
+// Undefined when the file does not exist, and a value no store accepts when it cannot be read
+const readSealedFile = async (file: string): Promise<unknown> => {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch (e: any) {
+    return e.code === 'ENOENT' ? undefined : {};
+  }
+};
+
+// Side files are written one at a time, in order, each sealed when its turn comes
+const sealedWriter = (file: string, what: string) => {
+  let writing: Promise<void> = Promise.resolve();
+  return (seal: () => Promise<unknown>) => {
+    writing = writing
+      .then(async () => writeFile(file, JSON.stringify(await seal()), { mode: 0o600 }))
+      .catch((e) => logger.log(`Failed to persist ${what}: ${e.message}`, 'error', 'System'));
+  };
+};
+
+// The spend file holds no key material but is sealed with the vault's integrity key. A missing,
+// unreadable or altered file can't vouch for the last 24h, so daily limits stay closed for a day.
+const loadSpendLedger = async (integrityKey: CryptoKey): Promise<SpendLedger> => {
+  const { state, problem } = await openSpendLedger(await readSealedFile(spendFile), integrityKey);
+  if (problem) {
+    logger.log(`Spend ledger ${spendFile} ${problem}; daily limits deny signing until ${new Date(state.blockedUntil!).toISOString()}`, 'warning', 'Security');
+  }
+
+  const write = sealedWriter(spendFile, 'spend ledger');
+  const save = (next: SpendLedgerState) => write(() => sealSpendLedger(next, integrityKey));
+  const ledger = createSpendLedger(state, save);
+  save(ledger.state());
+  return ledger;
+};
+
+// Sealed like the spend file. A missing file just means nonces come from the chain, and so does
+// an altered one: its state is dropped.
+const loadNonceManager = async (integrityKey: CryptoKey): Promise<NonceManager> => {
+  const { states, problem } = await openNonceStates(await readSealedFile(nonceFile), integrityKey);
+  if (problem) logger.log(`Nonce state ${nonceFile} ${problem}; nonces come from the chain again`, 'warning', 'Security');
+
+  const write = sealedWriter(nonceFile, 'nonce state');
+  const save = (next: NonceState[]) => write(() => sealNonceStates(next, integrityKey));
+  const nonces = createNonceManager(states, save);
+  save(nonces.list());
+  return nonces;
+};
+
+// Signed transactions are public once broadcast, but replacements and payouts trust the history,
+// so it is sealed too. An altered history is discarded.
+const loadTransactionStore = async (integrityKey: CryptoKey): Promise<TransactionStore> => {
+  const { records, problem } = await openTransactions(await readSealedFile(txFile), integrityKey);
+  if (problem) logger.log(`Transaction history ${txFile} ${problem} and was discarded`, 'warning', 'Security');
+
+  const write = sealedWriter(txFile, 'transaction history');
+  const save = (next: TrackedTransaction[]) => write(() => sealTransactions(next, integrityKey));
+  const transactions = createTransactionStore(records, save);
+  save(transactions.list());
+  return transactions;
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const readApiKey = (req: http.IncomingMessage): string | undefined => {
+  const auth = req.headers['authorization'];
+  if (auth && auth.startsWith('Bearer ')) return auth.slice('Bearer '.length).trim();
+  const header = req.headers['x-api-key'];
+  return Array.isArray(header) ? header[0] : header;
+};
+
+const sendJson = (res: http.ServerResponse, statusCode: number, body: ServiceResponse | Record<string, unknown>) => {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const statusForCode = (code?: string): number => {
+  if (code === 'FORBIDDEN_OPERATION' || code === 'FORBIDDEN_WALLET' || code?.startsWith('POLICY_')) return 403;
+  return 400;
+};
+
+const start = async () => {
+  const vault = await loadVault();
+  configureNetworks(vault.settings.networks);
+  logger.log(`Vault unlocked: ${vault.wallets.length} wallets loaded from ${vaultFile}`, 'success', 'Auth');
+  const spendLedger = await loadSpendLedger(vault.auth.integrityKey);
+  const nonces = await loadNonceManager(vault.auth.integrityKey);
+  const transactions = await loadTransactionStore(vault.auth.integrityKey);
+  startTransactionPoller(transactions);
+
+  const onAddWallets = async (wallets: WalletData[]) => {
+    vault.wallets = [...vault.wallets, ...wallets];
+    await persistVault(vault);
+    logger.log(`Wallets added via API: ${wallets.map(w => w.name).join(', ')}`, 'success', 'API');
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const path = (req.url || '').split('?')[0];
+
+    if (path === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'success', wallets: vault.wallets.length, timestamp: Date.now() });
+      return;
+    }
+    if (path !== RPC_PATH) {
+      sendJson(res, 404, { status: 'error', code: 'NOT_FOUND', error: `No route for ${path}` });
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendJson(res, 405, { status: 'error', code: 'METHOD_NOT_ALLOWED', error: 'Use POST' });
+      return;
+    }
+
+    let apiKey: ApiKey;
+    try {
+      apiKey = await authenticateApiKey(readApiKey(req), vault.settings.apiKeys);
+    } catch (e: any) {
+      logger.log(`Rejected RPC call from ${req.socket.remoteAddress}: ${e.message}`, 'warning', 'Auth');
+      sendJson(res, 401, { status: 'error', code: e.code, error: e.message });
+      return;
+    }
+
+    let request: ApiRequest;
+    try {
+      request = JSON.parse(await readBody(req));
+    } catch (e: any) {
+      sendJson(res, 400, { status: 'error', code: 'INVALID_REQUEST', error: e.message || 'Invalid JSON format.' });
+      return;
+    }
+
+    const response = await executeRequest(request, {
+      wallets: vault.wallets,
+      seeds: vault.seeds,
+      dataKey: vault.dataKey,
+      onAddWallets,
+      apiKey,
+      policies: vault.settings.policies,
+      spendLedger,
+      fees: vault.settings.fees,
+      nonces,
+      transactions,
+      tokens: vault.settings.tokens
+    });
+    sendJson(res, response.status === 'success' ? 200 : statusForCode(response.code), response);
+  });
+
+  server.listen(port, host, () => {
+    logger.log(`FalconVault RPC listening on http://${host}:${port}${RPC_PATH}`, 'info', 'System');
+  });
+};
+
+start().catch((e) => {
+  console.error(`Failed to start FalconVault RPC server: ${e.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+import { ApiKey, ApiRequest, OperationType } from '../types';
+import { sha256Hex } from './cryptoService';
+import { RequestError } from './errors';
+
+// Scope groups offered in Settings. Mirrors the grouping of OperationType.
+export const OPERATION_GROUPS: { label: string; operations: OperationType[] }[] = [
+  { label: 'Read-Only', operations: ['eth_getBalance', 'eth_call', 'eth_estimateGas'] },
+  { label: 'Signature', operations: ['eth_signTransaction', 'eth_sendRawTransaction', 'personal_sign', 'eth_signTypedData', 'vault_speedUpTransaction', 'vault_cancelTransaction'] },
+  { label: 'Vault Management', operations: ['vault_listWallets', 'vault_getAddress', 'vault_importPrivateKey', 'vault_createWallet', 'vault_getTransactions'] }
+];
+
+export const ALL_OPERATIONS: OperationType[] = OPERATION_GROUPS.flatMap(g => g.operations);
+
+const KEY_PREFIX = 'fv_';
+
+/**
+ * Issues a new API key. The returned secret is shown to the user once;
+ * only its hash is kept in the vault.
+ */
+export const generateApiKey = async (name: string, scopes: OperationType[], walletLabels: string[]): Promise<{ secret: string; record: ApiKey }> => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const secret = KEY_PREFIX + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+  const record: ApiKey = {
+    id: crypto.randomUUID(),
+    name,
+    prefix: secret.slice(0, KEY_PREFIX.length + 8),
+    keyHash: await sha256Hex(secret),
+    scopes,
+    walletLabels,
+    createdAt: Date.now()
+  };
+  return { secret, record };
+};
+
+export const authenticateApiKey = async (secret: string | undefined, keys: ApiKey[]): Promise<ApiKey> => {
+  if (!secret) throw new RequestError('UNAUTHORIZED', 'Missing API key');
+  const hash = await sha256Hex(secret);
+  const key = keys.find(k => k.keyHash === hash);
+  if (!key) throw new RequestError('UNAUTHORIZED', 'Invalid or revoked API key');
+  return key;
+};
+
+// Wallet label patterns support '*' wildcards, e.g. 'hot_*'.
+export const matchesLabel = (pattern: string, label: string): boolean => {
+  if (!pattern.includes('*')) return pattern === label;
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${escaped}$`).test(label);
+};
+
+export const isWalletAllowed = (key: ApiKey, label: string): boolean => {
+  if (key.walletLabels.length === 0) return true;
+  return key.walletLabels.some(pattern => matchesLabel(pattern, label));
+};
+
+// Wallet label a request acts on, if any. Imports act on the label being created.
+const targetLabel = (request: ApiRequest): string | undefined => {
+  if (request.type === 'vault_importPrivateKey') return request.payload?.label;
+  return request.walletLabel;
+};
+
+export const authorizeRequest = (key: ApiKey, request: ApiRequest) => {
+  if (!key.scopes.includes(request.type)) {
+    throw new RequestError('FORBIDDEN_OPERATION', `API key '${key.name}' is not allowed to call ${request.type}`);
+  }
+  const label = targetLabel(request);
+  if (label !== undefined && !isWalletAllowed(key, label)) {
+    throw new RequestError('FORBIDDEN_WALLET', `API key '${key.name}' has no access to wallet '${label}'`);
+  }
+};
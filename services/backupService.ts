@@ -0,0 +1,196 @@
+import { ethers } from 'ethers';
+import { WalletData, SeedData, VaultSettings, KdfParams } from '../types';
+import { createKdfParams, deriveMasterKey, deriveBackupKey, sha256Hex, encryptData, decryptData, createWalletFromKey, isLegacyPacket, decryptLegacyData } from './cryptoService';
+
+// Portable `.falconbackup` export. The whole payload (names, addresses, metadata, settings, HD
+// mnemonics and the private keys themselves) is encrypted under a separate backup passphrase, so a backup
+// can be restored into any vault regardless of its master password.
+
+export const BACKUP_FORMAT = 'falconbackup';
+export const BACKUP_VERSION = 1;
+export const BACKUP_EXTENSION = '.falconbackup';
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  kdf: KdfParams;
+  contentHash: string; // SHA-256 of the plaintext payload, checked after decryption
+  iv: string; // Hex
+  ciphertext: string; // Base64 AES-GCM, the header above is bound as additional data
+}
+
+interface BackupWallet extends Omit<WalletData, 'encryptedPrivateKey'> {
+  privateKey: string;
+}
+
+interface BackupSeed extends Omit<SeedData, 'encryptedMnemonic'> {
+  mnemonic: string;
+}
+
+interface BackupPayload {
+  wallets: BackupWallet[];
+  seeds?: BackupSeed[];
+  settings: VaultSettings;
+}
+
+// Wallets and settings read from a backup file, keys already encrypted under the target vault's data key.
+export interface BackupContents {
+  wallets: WalletData[];
+  undecryptable: WalletData[]; // Plain-JSON entries whose key opens neither with the vault key nor the given password
+  seeds: SeedData[];
+  settings?: Partial<VaultSettings>;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const headerBytes = (file: Pick<BackupFile, 'format' | 'version' | 'createdAt' | 'kdf'>): Uint8Array => {
+  return new TextEncoder().encode(JSON.stringify({
+    format: file.format,
+    version: file.version,
+    createdAt: file.createdAt,
+    kdf: file.kdf
+  }));
+};
+
+export const isEncryptedBackup = (parsed: any): parsed is BackupFile => {
+  return !!parsed && parsed.format === BACKUP_FORMAT;
+};
+
+/**
+ * Serializes the vault into a `.falconbackup` file. Throws if any wallet key cannot be
+ * decrypted, so a backup never silently misses a wallet.
+ */
+export const createBackup = async (
+  wallets: WalletData[],
+  seeds: SeedData[],
+  settings: VaultSettings,
+  dataKey: CryptoKey,
+  passphrase: string
+): Promise<string> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Backup passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const payloadWallets: BackupWallet[] = [];
+  for (const { encryptedPrivateKey, ...wallet } of wallets) {
+    try {
+      payloadWallets.push({ ...wallet, privateKey: await decryptData(encryptedPrivateKey, dataKey) });
+    } catch (e) {
+      throw new Error(`Could not decrypt wallet '${wallet.name}'. Backup not created.`);
+    }
+  }
+  const payloadSeeds: BackupSeed[] = [];
+  for (const { encryptedMnemonic, ...seed } of seeds) {
+    try {
+      payloadSeeds.push({ ...seed, mnemonic: await decryptData(encryptedMnemonic, dataKey) });
+    } catch (e) {
+      throw new Error(`Could not decrypt seed '${seed.name}'. Backup not created.`);
+    }
+  }
+  const plaintext = JSON.stringify({ wallets: payloadWallets, seeds: payloadSeeds, settings } as BackupPayload);
+
+  const header = { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt: Date.now(), kdf: createKdfParams() } as const;
+  const key = await deriveBackupKey(await deriveMasterKey(passphrase, header.kdf));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: headerBytes(header) as BufferSource },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  const file: BackupFile = {
+    ...header,
+    contentHash: await sha256Hex(plaintext),
+    iv: ethers.hexlify(iv),
+    ciphertext: ethers.encodeBase64(new Uint8Array(ciphertext))
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const openEncryptedBackup = async (file: BackupFile, dataKey: CryptoKey, passphrase?: string): Promise<BackupContents> => {
+  if (file.version !== BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${file.version}`);
+  }
+  if (!file.kdf || typeof file.iv !== 'string' || typeof file.ciphertext !== 'string' || typeof file.contentHash !== 'string') {
+    throw new Error("Backup file is incomplete");
+  }
+  if (!passphrase) {
+    throw new Error("This backup is encrypted. Enter its backup passphrase.");
+  }
+
+  let plaintext: string;
+  try {
+    const key = await deriveBackupKey(await deriveMasterKey(passphrase, file.kdf));
+    const decrypted = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: ethers.getBytes(file.iv) as BufferSource, additionalData: headerBytes(file) as BufferSource },
+      key,
+      ethers.decodeBase64(file.ciphertext) as BufferSource
+    );
+    plaintext = new TextDecoder().decode(decrypted);
+  } catch (e) {
+    throw new Error("Wrong backup passphrase or corrupted backup file");
+  }
+  if (await sha256Hex(plaintext) !== file.contentHash) {
+    throw new Error("Backup content hash mismatch");
+  }
+
+  const payload: BackupPayload = JSON.parse(plaintext);
+  if (!Array.isArray(payload.wallets)) throw new Error("Invalid backup payload");
+
+  const wallets: WalletData[] = [];
+  for (const { privateKey, ...wallet } of payload.wallets) {
+    const derived = createWalletFromKey(privateKey);
+    if (!derived.valid || derived.address.toLowerCase() !== String(wallet.address).toLowerCase()) {
+      throw new Error(`Backup entry '${wallet.name}' does not match its address`);
+    }
+    wallets.push({ ...wallet, encryptedPrivateKey: await encryptData(privateKey, dataKey) });
+  }
+  const seeds: SeedData[] = [];
+  for (const { mnemonic, ...seed } of payload.seeds || []) {
+    seeds.push({ ...seed, encryptedMnemonic: await encryptData(mnemonic, dataKey) });
+  }
+  return { wallets, undecryptable: [], seeds, settings: payload.settings };
+};
+
+// Plain exports carry packets under the data key of the vault they came from, or legacy
+// packets under the master password they were made with. Keep what opens, report the rest.
+const openPlainBackup = async (entries: WalletData[], dataKey: CryptoKey, password?: string): Promise<Pick<BackupContents, 'wallets' | 'undecryptable'>> => {
+  const wallets: WalletData[] = [];
+  const undecryptable: WalletData[] = [];
+  for (const wallet of entries) {
+    try {
+      if (isLegacyPacket(wallet.encryptedPrivateKey)) {
+        if (!password) throw new Error("No password for legacy packet");
+        const privateKey = await decryptLegacyData(wallet.encryptedPrivateKey, password);
+        wallets.push({ ...wallet, encryptedPrivateKey: await encryptData(privateKey, dataKey) });
+      } else {
+        await decryptData(wallet.encryptedPrivateKey, dataKey);
+        wallets.push(wallet);
+      }
+    } catch (e) {
+      undecryptable.push(wallet);
+    }
+  }
+  return { wallets, undecryptable };
+};
+
+/**
+ * Reads a backup file for import or restore. `.falconbackup` files are decrypted with the
+ * passphrase and their keys re-encrypted under `dataKey`. For plain JSON exports from older
+ * versions the passphrase is the master password the export was made with.
+ */
+export const readBackup = async (content: string, dataKey: CryptoKey, passphrase?: string): Promise<BackupContents> => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (e) {
+    throw new Error("Invalid format");
+  }
+
+  if (isEncryptedBackup(parsed)) {
+    return openEncryptedBackup(parsed, dataKey, passphrase);
+  }
+  if (!parsed || !Array.isArray(parsed.wallets)) throw new Error("Invalid format");
+  return { ...(await openPlainBackup(parsed.wallets, dataKey, passphrase)), seeds: [], settings: parsed.settings };
+};
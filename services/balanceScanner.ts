@@ -0,0 +1,145 @@
+import { ethers } from 'ethers';
+import { AssetValues, RegisteredToken } from '../types';
+import { ERC20_ABI } from './cryptoService';
+import { getNetwork } from './networkRegistry';
+import { withProvider } from './providerPool';
+import { logger } from './systemLogger';
+
+// Portfolio balances for many addresses at once. Native and token balances of every address are
+// packed into Multicall3 aggregate3() calls, a few per network however large the vault is. On a
+// chain without Multicall3 (e.g. a fresh Anvil) the same reads go out as JSON-RPC batches instead.
+
+// Same address on nearly every EVM chain; networks deployed elsewhere set `multicall3` in the registry
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  "function getEthBalance(address addr) view returns (uint256 balance)"
+];
+
+const multicall = new ethers.Interface(MULTICALL3_ABI);
+const erc20 = new ethers.Interface(ERC20_ABI);
+
+// Subcalls per aggregate3(); keeps each eth_call well inside node gas and response limits
+const CALLS_PER_BATCH = 500;
+
+// Whether Multicall3 has code on the endpoint's chain, checked once per provider
+const multicallDeployed = new WeakMap<ethers.JsonRpcProvider, Promise<boolean>>();
+
+const hasMulticall = (provider: ethers.JsonRpcProvider, address: string): Promise<boolean> => {
+  let deployed = multicallDeployed.get(provider);
+  if (!deployed) {
+    deployed = provider.getCode(address).then(code => code !== '0x');
+    deployed.catch(() => multicallDeployed.delete(provider)); // Ask again after a network error
+    multicallDeployed.set(provider, deployed);
+  }
+  return deployed;
+};
+
+export const formatValue = (val: bigint, decimals: number = 18): string => {
+    try {
+        const formatted = ethers.formatUnits(val, decimals);
+        const num = parseFloat(formatted);
+        if (num === 0) return "0.00";
+        if (num < 0.0001) return "< 0.0001";
+
+        const parts = formatted.split('.');
+        if (parts.length > 1) {
+            return `${parts[0]}.${parts[1].substring(0, 4)}`; // Truncate to 4 decimals
+        }
+        return formatted;
+    } catch(e) {
+        return "0.00";
+    }
+};
+
+interface BalanceRead {
+  address: string;
+  token?: RegisteredToken; // Native balance when omitted
+}
+
+// Reads through Multicall3. A failing token contract reads as zero instead of failing the batch.
+const readWithMulticall = async (provider: ethers.JsonRpcProvider, multicallAddress: string, reads: BalanceRead[]): Promise<bigint[]> => {
+  const results: bigint[] = [];
+  for (let i = 0; i < reads.length; i += CALLS_PER_BATCH) {
+    const batch = reads.slice(i, i + CALLS_PER_BATCH);
+    const calls = batch.map(read => read.token
+      ? { target: read.token.address, allowFailure: true, callData: erc20.encodeFunctionData('balanceOf', [read.address]) }
+      : { target: multicallAddress, allowFailure: true, callData: multicall.encodeFunctionData('getEthBalance', [read.address]) });
+
+    const raw = await provider.call({ to: multicallAddress, data: multicall.encodeFunctionData('aggregate3', [calls]) });
+    const [returned] = multicall.decodeFunctionResult('aggregate3', raw);
+    returned.forEach((result: { success: boolean; returnData: string }) => {
+      results.push(result.success && result.returnData.length >= 66 ? ethers.toBigInt(ethers.dataSlice(result.returnData, 0, 32)) : 0n);
+    });
+  }
+  return results;
+};
+
+// Same reads as separate calls; the provider folds concurrent requests into JSON-RPC batches
+const readIndividually = async (provider: ethers.JsonRpcProvider, reads: BalanceRead[]): Promise<bigint[]> =>
+  Promise.all(reads.map(read => read.token
+    ? provider.call({ to: read.token.address, data: erc20.encodeFunctionData('balanceOf', [read.address]) })
+        .then(raw => raw.length >= 66 ? ethers.toBigInt(ethers.dataSlice(raw, 0, 32)) : 0n)
+        .catch(() => 0n)
+    : provider.getBalance(read.address)));
+
+/**
+ * Native balance and every registered token of `networkKey` for each address, keyed by the
+ * lowercased address. Runs on the pool's best endpoint; throws when every endpoint fails.
+ */
+export const scanBalances = async (addresses: string[], networkKey: string, tokens: RegisteredToken[]): Promise<Record<string, AssetValues>> => {
+  const network = getNetwork(networkKey);
+  if (!network) throw new Error(`Unsupported network key: ${networkKey}`);
+
+  const unique = [...new Set(addresses.map(a => a.toLowerCase()))];
+  const networkTokens = tokens.filter(t => t.network === network.key);
+  const reads: BalanceRead[] = unique.flatMap(address => [{ address }, ...networkTokens.map(token => ({ address, token }))]);
+  const multicallAddress = network.multicall3 || MULTICALL3_ADDRESS;
+
+  const values = await withProvider(network.key, async provider => await hasMulticall(provider, multicallAddress)
+    ? readWithMulticall(provider, multicallAddress, reads)
+    : readIndividually(provider, reads));
+
+  const stride = networkTokens.length + 1;
+  return Object.fromEntries(unique.map((address, i) => {
+    const [wei, ...tokenBals] = values.slice(i * stride, (i + 1) * stride);
+    return [address, {
+      eth: formatValue(wei, 18),
+      wei,
+      tokens: Object.fromEntries(networkTokens.map((token, j) => [token.symbol, formatValue(tokenBals[j], token.decimals)]))
+    }];
+  }));
+};
+
+/**
+ * Scans every network concurrently. `onNetwork` receives each network's balances (or 'Error')
+ * as soon as it completes, so a slow chain doesn't hold back the others.
+ */
+export const scanPortfolio = async (
+  addresses: string[],
+  networkKeys: string[],
+  tokens: RegisteredToken[],
+  onNetwork: (networkKey: string, balances: Record<string, AssetValues> | 'Error') => void
+): Promise<void> => {
+  await Promise.all(networkKeys.map(async networkKey => {
+    try {
+      onNetwork(networkKey, await scanBalances(addresses, networkKey, tokens));
+    } catch (e: any) {
+      const msg = e.message || 'Unknown Error';
+      if (!msg.includes('rate limit')) {
+        logger.log(`Scanning failed for ${networkKey}: ${msg}`, 'warning', 'RPC');
+      }
+      onNetwork(networkKey, 'Error');
+    }
+  }));
+};
+
+// Native balance plus every registered token of the network, formatted with its own decimals.
+export const fetchBalance = async (address: string, networkKey: string = 'mainnet', tokens: RegisteredToken[] = []): Promise<AssetValues | 'Error'> => {
+  let result: AssetValues | 'Error' = 'Error';
+  await scanPortfolio([address], [networkKey], tokens, (_, balances) => {
+    result = balances === 'Error' ? 'Error' : balances[address.toLowerCase()];
+  });
+  return result;
+};
@@ -1,99 +1,82 @@
 
 import { ethers } from 'ethers';
-import { NetworkKey, AssetValues } from '../types';
+import { KdfParams, TokenInfo, FeeSettings, RegisteredToken } from '../types';
+import { RequestError } from './errors';
+import { NonceManager } from './nonceManager';
 import { logger } from './systemLogger';
+import { getNetworkMetadata, getChainIdForNetwork } from './networkRegistry';
+import { withProvider } from './providerPool';
 
 // --- Configuration ---
 
-// Using arrays of RPCs for redundancy. If one fails, the next is attempted.
-export const NETWORKS: Record<string, string[]> = {
-  mainnet: [
-    "https://eth.llamarpc.com",
-    "https://rpc.ankr.com/eth",
-    "https://1rpc.io/eth",
-    "https://cloudflare-eth.com"
-  ],
-  arbitrum: [
-    "https://arb1.arbitrum.io/rpc",
-    "https://rpc.ankr.com/arbitrum",
-    "https://1rpc.io/arb"
-  ],
-  optimism: [
-    "https://mainnet.optimism.io",
-    "https://rpc.ankr.com/optimism",
-    "https://optimism.llamarpc.com"
-  ],
-  polygon: [
-    "https://polygon-rpc.com",
-    "https://rpc.ankr.com/polygon",
-    "https://1rpc.io/matic"
-  ],
-  base: [
-    "https://mainnet.base.org",
-    "https://base.llamarpc.com",
-    "https://1rpc.io/base"
-  ],
-  zksync: [
-    "https://mainnet.era.zksync.io",
-    "https://1rpc.io/zksync2-era"
-  ],
-  linea: [
-    "https://rpc.linea.build",
-    "https://1rpc.io/linea"
-  ],
-  sepolia: [
-    "https://rpc.ankr.com/eth_sepolia",
-    "https://1rpc.io/sepolia"
-  ]
-};
-
 export const ERC20_ABI = [
   "function balanceOf(address owner) view returns (uint256)",
   "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
   "function transfer(address to, uint amount) returns (bool)"
 ];
 
-// Token Contracts (Address mapping) - Exported for UI use
-export const TOKEN_ADDRESSES: Record<string, { usdt?: string; usdc?: string }> = {
-  mainnet: {
-    usdt: "0xdac17f958d2ee523a2206206994597c13d831ec7",
-    usdc: "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48"
-  },
-  arbitrum: {
-    usdt: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
-    usdc: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831"
-  },
-  optimism: {
-    usdt: "0x94b008aA00579c1307B0EF2c499aD98a8ce98748",
-    usdc: "0x0b2C630C5307324423542016988782fC8f48345e"
-  },
-  polygon: {
-    usdt: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
-    usdc: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359"
-  },
-  base: {
-    usdc: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913"
-  },
-  zksync: {
-    usdc: "0x3355df6D4c9C3035724Fd0e3914dE96A5a83aaf4"
-  },
-  linea: {
-    usdc: "0x176211869cA2b568f2A7D4EE941E073a821EE1ff"
+// --- Web Crypto API Helpers ---
+
+// Wallet keys are encrypted under a random vault data key (AES-256-GCM). The data key
+// itself is wrapped by a key derived from the master password and only unwrapped once
+// at unlock, as a non-extractable CryptoKey.
+
+const ENVELOPE_PACKET_VERSION = 2;
+
+const encodePacket = (packet: object): string => btoa(JSON.stringify(packet));
+const decodePacket = (encryptedBase64: string): any => JSON.parse(atob(encryptedBase64));
+
+export const encryptData = async (data: string, dataKey: CryptoKey): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: iv },
+    dataKey,
+    new TextEncoder().encode(data)
+  );
+
+  return encodePacket({
+    v: ENVELOPE_PACKET_VERSION,
+    iv: Array.from(iv),
+    data: Array.from(new Uint8Array(encrypted))
+  });
+};
+
+export const decryptData = async (encryptedBase64: string, dataKey: CryptoKey): Promise<string> => {
+  let packet: any;
+  try {
+    packet = decodePacket(encryptedBase64);
+  } catch (e) {
+    throw new Error("Decryption failed. Data corrupted.");
+  }
+  if (packet.v !== ENVELOPE_PACKET_VERSION) {
+    throw new Error("Key is still encrypted with the legacy password format. Unlock the vault to migrate it.");
+  }
+
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: new Uint8Array(packet.iv) },
+      dataKey,
+      new Uint8Array(packet.data)
+    );
+    return new TextDecoder().decode(decrypted);
+  } catch (e) {
+    throw new Error("Decryption failed. Vault key mismatch or data corrupted.");
   }
 };
 
-// --- Web Crypto API Helpers (Unchanged) ---
+// --- Legacy per-wallet PBKDF2 packets ({salt, iv, data}), read-only for migration ---
 
 async function getKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
   const enc = new TextEncoder();
-  const keyMaterial = await window.crypto.subtle.importKey(
+  const keyMaterial = await crypto.subtle.importKey(
     "raw",
     enc.encode(password),
     { name: "PBKDF2" },
     false,
     ["deriveKey"]
   );
-  return window.crypto.subtle.deriveKey(
+  return crypto.subtle.deriveKey(
     {
       name: "PBKDF2",
       salt: salt,
@@ -107,36 +90,24 @@ async function getKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
   );
 }
 
-export const encryptData = async (data: string, password: string): Promise<string> => {
-  const salt = window.crypto.getRandomValues(new Uint8Array(16));
-  const iv = window.crypto.getRandomValues(new Uint8Array(12));
-  const key = await getKey(password, salt);
-  const enc = new TextEncoder();
-  
-  const encrypted = await window.crypto.subtle.encrypt(
-    { name: "AES-GCM", iv: iv },
-    key,
-    enc.encode(data)
-  );
-
-  const packet = {
-    salt: Array.from(salt),
-    iv: Array.from(iv),
-    data: Array.from(new Uint8Array(encrypted))
-  };
-  return btoa(JSON.stringify(packet));
+export const isLegacyPacket = (encryptedBase64: string): boolean => {
+  try {
+    return decodePacket(encryptedBase64).v !== ENVELOPE_PACKET_VERSION;
+  } catch (e) {
+    return false;
+  }
 };
 
-export const decryptData = async (encryptedBase64: string, password: string): Promise<string> => {
+export const decryptLegacyData = async (encryptedBase64: string, password: string): Promise<string> => {
   try {
-    const packet = JSON.parse(atob(encryptedBase64));
+    const packet = decodePacket(encryptedBase64);
     const salt = new Uint8Array(packet.salt);
     const iv = new Uint8Array(packet.iv);
     const data = new Uint8Array(packet.data);
 
     const key = await getKey(password, salt);
     
-    const decrypted = await window.crypto.subtle.decrypt(
+    const decrypted = await crypto.subtle.decrypt(
       { name: "AES-GCM", iv: iv },
       key,
       data
@@ -149,35 +120,159 @@ export const decryptData = async (encryptedBase64: string, password: string): Pr
   }
 };
 
-export const generateIntegrityHash = async (data: any): Promise<string> => {
-  const str = JSON.stringify(data);
-  const msgBuffer = new TextEncoder().encode(str);
+export const sha256Hex = async (input: string): Promise<string> => {
+  const msgBuffer = new TextEncoder().encode(input);
   const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
   return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
 };
 
+// Legacy unkeyed store checksum. Only used to migrate old vaults.
+export const generateIntegrityHash = async (data: any): Promise<string> => {
+  return sha256Hex(JSON.stringify(data));
+};
+
+// Legacy (pre-KDF) master password check. Only used to migrate old vaults.
 export const hashPassword = async (password: string): Promise<string> => {
-    const msgBuffer = new TextEncoder().encode(password);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
-    return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+    return sha256Hex(password);
 }
 
-// --- Blockchain Logic ---
+// --- Master Password KDF ---
 
-export const getNetworkMetadata = (chainId: number) => {
-    switch (Number(chainId)) {
-        case 1: return { key: 'mainnet', name: 'Ethereum Mainnet', explorer: 'https://etherscan.io' };
-        case 42161: return { key: 'arbitrum', name: 'Arbitrum One', explorer: 'https://arbiscan.io' };
-        case 10: return { key: 'optimism', name: 'Optimism', explorer: 'https://optimistic.etherscan.io' };
-        case 137: return { key: 'polygon', name: 'Polygon', explorer: 'https://polygonscan.com' };
-        case 8453: return { key: 'base', name: 'Base', explorer: 'https://basescan.org' };
-        case 324: return { key: 'zksync', name: 'zkSync Era', explorer: 'https://explorer.zksync.io' };
-        case 59144: return { key: 'linea', name: 'Linea', explorer: 'https://lineascan.build' };
-        case 11155111: return { key: 'sepolia', name: 'Sepolia', explorer: 'https://sepolia.etherscan.io' };
-        default: return null;
-    }
+// Raise by adding a new version; vaults on an older version are re-keyed on their next unlock.
+const KDF_VERSIONS: Record<number, Omit<KdfParams, 'version' | 'salt'>> = {
+  1: { algorithm: 'scrypt', N: 1 << 17, r: 8, p: 1, dkLen: 32 }
+};
+
+export const CURRENT_KDF_VERSION = 1;
+
+export const createKdfParams = (version: number = CURRENT_KDF_VERSION): KdfParams => {
+  const preset = KDF_VERSIONS[version];
+  if (!preset) throw new Error(`Unknown KDF version: ${version}`);
+  return {
+    version,
+    ...preset,
+    salt: ethers.hexlify(crypto.getRandomValues(new Uint8Array(16)))
+  };
 };
 
+export const deriveMasterKey = async (password: string, params: KdfParams): Promise<Uint8Array> => {
+  if (params.algorithm !== 'scrypt') throw new Error(`Unsupported KDF: ${params.algorithm}`);
+  const derived = await ethers.scrypt(
+    ethers.toUtf8Bytes(password.normalize('NFKC')),
+    params.salt,
+    params.N,
+    params.r,
+    params.p,
+    params.dkLen
+  );
+  return ethers.getBytes(derived);
+};
+
+// Sub-keys are separated by HKDF info label so the master key is never used for two purposes.
+const deriveSubKey = async (
+  masterKey: Uint8Array,
+  info: string,
+  algorithm: AesKeyGenParams | HmacKeyGenParams,
+  usages: KeyUsage[]
+): Promise<CryptoKey> => {
+  const base = await crypto.subtle.importKey("raw", masterKey as BufferSource, "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(0), info: new TextEncoder().encode(info) },
+    base,
+    algorithm,
+    false,
+    usages
+  );
+};
+
+const deriveWrappingKey = (masterKey: Uint8Array): Promise<CryptoKey> => {
+  return deriveSubKey(masterKey, "falconvault:kek", { name: "AES-GCM", length: 256 }, ["encrypt", "decrypt"]);
+};
+
+// Non-extractable HMAC key authenticating the whole store. Kept in memory while unlocked.
+export const deriveIntegrityKey = (masterKey: Uint8Array): Promise<CryptoKey> => {
+  return deriveSubKey(masterKey, "falconvault:integrity", { name: "HMAC", hash: "SHA-256", length: 256 }, ["sign", "verify"]);
+};
+
+// Encrypts `.falconbackup` payloads; derived from a backup passphrase, never from the master password.
+export const deriveBackupKey = (masterKey: Uint8Array): Promise<CryptoKey> => {
+  return deriveSubKey(masterKey, "falconvault:backup", { name: "AES-GCM", length: 256 }, ["encrypt", "decrypt"]);
+};
+
+export const computeIntegrityMac = async (data: any, integrityKey: CryptoKey): Promise<string> => {
+  const mac = await crypto.subtle.sign("HMAC", integrityKey, new TextEncoder().encode(JSON.stringify(data)));
+  return Array.from(new Uint8Array(mac)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyIntegrityMac = async (data: any, mac: string, integrityKey: CryptoKey): Promise<boolean> => {
+  if (!/^[0-9a-f]{64}$/i.test(mac)) return false;
+  const bytes = new Uint8Array(mac.match(/../g)!.map(h => parseInt(h, 16)));
+  return crypto.subtle.verify("HMAC", integrityKey, bytes, new TextEncoder().encode(JSON.stringify(data)));
+};
+
+// Persisted form of a side store (nonces, history, payout runs) sealed with the integrity key
+export interface SealedRecords<T> {
+  records: T[];
+  mac: string;
+}
+
+// The mac covers the store name, so records sealed for one store never pass for another's
+export const sealRecords = async <T>(store: string, records: T[], integrityKey: CryptoKey): Promise<SealedRecords<T>> =>
+  ({ records, mac: await computeIntegrityMac({ store, records }, integrityKey) });
+
+/** The records of a sealed side store; undefined when they are malformed or fail the mac check. */
+export const openRecords = async <T>(store: string, persisted: unknown, integrityKey: CryptoKey): Promise<T[] | undefined> => {
+  const sealed = persisted as Partial<SealedRecords<T>> | null;
+  if (!sealed || !Array.isArray(sealed.records) || typeof sealed.mac !== 'string') return undefined;
+  try {
+    return await verifyIntegrityMac({ store, records: sealed.records }, sealed.mac, integrityKey) ? sealed.records : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const generateDataKeyMaterial = (): Uint8Array => crypto.getRandomValues(new Uint8Array(32));
+
+export const importDataKey = (raw: Uint8Array): Promise<CryptoKey> => {
+  return crypto.subtle.importKey("raw", raw as BufferSource, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+};
+
+export const wrapDataKey = async (raw: Uint8Array, masterKey: Uint8Array): Promise<string> => {
+  const kek = await deriveWrappingKey(masterKey);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrapped = await crypto.subtle.encrypt({ name: "AES-GCM", iv: iv }, kek, raw as BufferSource);
+  return encodePacket({
+    iv: Array.from(iv),
+    data: Array.from(new Uint8Array(wrapped))
+  });
+};
+
+export const unwrapDataKey = async (wrappedBase64: string, masterKey: Uint8Array): Promise<Uint8Array> => {
+  const kek = await deriveWrappingKey(masterKey);
+  const packet = decodePacket(wrappedBase64);
+  const raw = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: new Uint8Array(packet.iv) },
+    kek,
+    new Uint8Array(packet.data)
+  );
+  return new Uint8Array(raw);
+};
+
+// The verifier is an HMAC of a fixed label under the derived key, so the key itself is never stored.
+export const computeVerifier = async (masterKey: Uint8Array): Promise<string> => {
+  const hmacKey = await crypto.subtle.importKey(
+    "raw",
+    masterKey as BufferSource,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = await crypto.subtle.sign("HMAC", hmacKey, new TextEncoder().encode("falconvault:verifier"));
+  return Array.from(new Uint8Array(mac)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// --- Blockchain Logic ---
+
 export const createWalletFromKey = (privateKey: string) => {
   try {
     const pk = privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`;
@@ -188,6 +283,46 @@ export const createWalletFromKey = (privateKey: string) => {
   }
 };
 
+// Fresh random key from the platform CSPRNG. Redraws in the (negligible) case of a value outside the curve order.
+export const generatePrivateKey = (): string => {
+  for (;;) {
+    const candidate = ethers.hexlify(crypto.getRandomValues(new Uint8Array(32)));
+    if (createWalletFromKey(candidate).valid) return candidate;
+  }
+};
+
+// --- HD Wallets (BIP-39 / BIP-32) ---
+
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0";
+
+export interface DerivedAccount {
+  index: number;
+  path: string;
+  address: string;
+  privateKey: string;
+}
+
+export const normalizeMnemonic = (phrase: string): string => phrase.trim().toLowerCase().split(/\s+/).join(' ');
+
+export const generateMnemonic = (): string => {
+  return ethers.Mnemonic.fromEntropy(crypto.getRandomValues(new Uint8Array(32))).phrase;
+};
+
+export const isValidMnemonic = (phrase: string): boolean => ethers.Mnemonic.isValidMnemonic(normalizeMnemonic(phrase));
+
+export const isValidDerivationPath = (path: string): boolean => /^m(\/\d+'?)*$/.test(path);
+
+// Derives `count` accounts at `${basePath}/${start}` onwards.
+export const deriveAccounts = (phrase: string, basePath: string, start: number, count: number): DerivedAccount[] => {
+  const base = ethers.HDNodeWallet.fromPhrase(normalizeMnemonic(phrase), undefined, basePath);
+  const accounts: DerivedAccount[] = [];
+  for (let index = start; index < start + count; index++) {
+    const child = base.deriveChild(index);
+    accounts.push({ index, path: `${basePath}/${index}`, address: child.address, privateKey: child.privateKey });
+  }
+  return accounts;
+};
+
 export const signMessage = async (privateKey: string, message: string): Promise<string> => {
   const wallet = new ethers.Wallet(privateKey);
   return await wallet.signMessage(message);
@@ -206,46 +341,9 @@ export const signTypedData = async (privateKey: string, payload: any): Promise<s
   return await wallet.signTypedData(payload.domain, payload.types, payload.value);
 };
 
-const formatValue = (val: bigint, decimals: number = 18): string => {
-    try {
-        const formatted = ethers.formatUnits(val, decimals);
-        const num = parseFloat(formatted);
-        if (num === 0) return "0.00";
-        if (num < 0.0001) return "< 0.0001";
-        
-        const parts = formatted.split('.');
-        if (parts.length > 1) {
-            return `${parts[0]}.${parts[1].substring(0, 4)}`; // Truncate to 4 decimals
-        }
-        return formatted;
-    } catch(e) {
-        return "0.00";
-    }
-};
-
-// Retry logic wrapper
-const fetchWithRetry = async (urls: string[], callback: (provider: ethers.JsonRpcProvider) => Promise<any>): Promise<any> => {
-    let lastError;
-    for (const url of urls) {
-        try {
-            const provider = new ethers.JsonRpcProvider(url);
-            // Quick check network
-            await provider.getNetwork(); 
-            return await callback(provider);
-        } catch (e) {
-            lastError = e;
-            // Continue to next URL
-        }
-    }
-    throw lastError || new Error("All RPCs failed");
-}
-
 export const ethCall = async (tx: any, networkKey: string): Promise<string> => {
-    const rpcUrls = NETWORKS[networkKey.toLowerCase()];
-    if (!rpcUrls) throw new Error(`Unsupported network key: ${networkKey}`);
-
     try {
-        return await fetchWithRetry(rpcUrls, async (provider) => {
+        return await withProvider(networkKey, async (provider) => {
             return await provider.call(tx);
         });
     } catch (e: any) {
@@ -256,11 +354,8 @@ export const ethCall = async (tx: any, networkKey: string): Promise<string> => {
 };
 
 export const estimateGas = async (tx: any, networkKey: string): Promise<bigint> => {
-    const rpcUrls = NETWORKS[networkKey.toLowerCase()];
-    if (!rpcUrls) throw new Error(`Unsupported network key: ${networkKey}`);
-
     try {
-        return await fetchWithRetry(rpcUrls, async (provider) => {
+        return await withProvider(networkKey, async (provider) => {
             return await provider.estimateGas(tx);
         });
     } catch (e: any) {
@@ -271,12 +366,9 @@ export const estimateGas = async (tx: any, networkKey: string): Promise<bigint>
 };
 
 export const fetchNonce = async (address: string, networkKey: string): Promise<number> => {
-    const rpcUrls = NETWORKS[networkKey.toLowerCase()];
-    if (!rpcUrls) throw new Error(`Unsupported network key: ${networkKey}`);
-
     try {
-        return await fetchWithRetry(rpcUrls, async (provider) => {
-            return await provider.getTransactionCount(address);
+        return await withProvider(networkKey, async (provider) => {
+            return await provider.getTransactionCount(address, 'pending');
         });
     } catch (e: any) {
         const msg = e.message || 'Fetch Nonce failed';
@@ -285,81 +377,256 @@ export const fetchNonce = async (address: string, networkKey: string): Promise<n
     }
 };
 
+// Nonce of the next transaction to be mined, ignoring the mempool.
+export const fetchConfirmedNonce = async (address: string, networkKey: string): Promise<number> => {
+    return await withProvider(networkKey, async (provider) => {
+        return await provider.getTransactionCount(address, 'latest');
+    });
+};
+
+export const fetchFeeData = async (networkKey: string): Promise<ethers.FeeData> => {
+    return await withProvider(networkKey, async (provider) => {
+        return await provider.getFeeData();
+    });
+};
+
+export const fetchBlockNumber = async (networkKey: string): Promise<number> => {
+    return await withProvider(networkKey, async (provider) => {
+        return await provider.getBlockNumber();
+    });
+};
+
+// Null while the transaction is not mined.
+export const fetchTransactionReceipt = async (hash: string, networkKey: string): Promise<{ blockNumber: number; success: boolean; gasUsed: bigint } | null> => {
+    return await withProvider(networkKey, async (provider) => {
+        const receipt = await provider.getTransactionReceipt(hash);
+        if (!receipt) return null;
+        return { blockNumber: receipt.blockNumber, success: receipt.status === 1, gasUsed: receipt.gasUsed };
+    });
+};
+
+// Geth and most clients answer "already known" for a transaction already in their pool;
+// ethers doesn't map it to an error code.
+const isAlreadyKnown = (error: any): boolean =>
+    /already known|known transaction|already imported/i.test(`${error?.shortMessage ?? ''} ${error?.message ?? ''}`);
+
+/**
+ * Sends a signed transaction to `networkKey`. The raw transaction is decoded first and refused
+ * with CHAIN_MISMATCH unless it is signed for that network's chain ID; a transaction without
+ * chain ID (pre-EIP-155, replayable on every chain) is refused as well. A node that answers
+ * "already known" or "nonce too low" but returns this very transaction by its hash already has
+ * it, so the broadcast counts as done. When no endpoint took the transaction but one of them
+ * timed out, it may still have reached the network: that failure is BROADCAST_UNCERTAIN.
+ */
 export const broadcastTransaction = async (rawTx: string, networkKey: string): Promise<string> => {
-    const rpcUrls = NETWORKS[networkKey.toLowerCase()];
-    if (!rpcUrls) throw new Error(`Unsupported network key: ${networkKey}`);
+    const expected = getChainIdForNetwork(networkKey);
+    if (expected === undefined) throw new Error(`Unsupported network key: ${networkKey}`);
+    let chainId: bigint;
+    let hash: string;
+    let timedOut = false;
+    try {
+        const tx = ethers.Transaction.from(rawTx);
+        chainId = tx.chainId;
+        hash = tx.hash!;
+    } catch (e: any) {
+        throw new Error(`Not a valid signed transaction: ${e.shortMessage || e.message}`);
+    }
+    if (chainId === 0n) {
+        throw new RequestError('CHAIN_MISMATCH', `Transaction has no chainId and could be replayed on any chain; refusing to broadcast to '${networkKey}'`);
+    }
+    if (chainId !== BigInt(expected)) {
+        throw new RequestError('CHAIN_MISMATCH', `Transaction chainId ${chainId} does not match network '${networkKey}' (chain ${expected})`);
+    }
 
     try {
-        return await fetchWithRetry(rpcUrls, async (provider) => {
-            const txResponse = await provider.broadcastTransaction(rawTx);
-            return txResponse.hash;
+        return await withProvider(networkKey, async (provider) => {
+            try {
+                const txResponse = await provider.broadcastTransaction(rawTx);
+                return txResponse.hash;
+            } catch (e) {
+                if ((isAlreadyKnown(e) || ethers.isError(e, 'NONCE_EXPIRED')) && await provider.getTransaction(hash).catch(() => null)) {
+                    logger.log(`Transaction ${hash.slice(0, 10)}… is already known on ${networkKey}`, 'info', 'RPC');
+                    return hash;
+                }
+                if (ethers.isError(e, 'TIMEOUT')) timedOut = true;
+                throw e;
+            }
         });
     } catch (e: any) {
         const msg = e.message || 'Broadcast failed';
         logger.log(`Broadcast failed on ${networkKey}: ${msg}`, 'error', 'RPC');
+        if (timedOut) {
+            throw new RequestError('BROADCAST_UNCERTAIN', `Broadcast to ${networkKey} timed out, the transaction may still be mined (${e.shortMessage || msg})`);
+        }
         throw e;
     }
 };
 
-export const fetchBalance = async (address: string, networkKey: string = 'mainnet'): Promise<AssetValues | 'Error'> => {
-  const rpcUrls = NETWORKS[networkKey.toLowerCase()] || NETWORKS['mainnet'];
-  const tokens = TOKEN_ADDRESSES[networkKey.toLowerCase()] || {};
-  
-  try {
-    return await fetchWithRetry(rpcUrls, async (provider) => {
-        // 1. Fetch ETH Balance
-        // 5s timeout per request to fail fast
-        const timeoutPromise = new Promise((_, reject) => setTimeout(() => reject(new Error("RPC Timeout")), 5000));
-        
-        const ethBalancePromise = Promise.race([
-            provider.getBalance(address), 
-            timeoutPromise
-        ]) as Promise<bigint>;
-        
-        // 2. Fetch USDT
-        let usdtPromise = Promise.resolve(BigInt(0));
-        if (tokens.usdt) {
-            const usdtContract = new ethers.Contract(tokens.usdt, ERC20_ABI, provider);
-            usdtPromise = usdtContract.balanceOf(address).catch(() => BigInt(0));
+// --- Transaction Population ---
+
+export const GAS_LIMIT_BUFFER_PERCENT = 20n; // Headroom on top of eth_estimateGas for state changes before inclusion
+const FEE_MULTIPLIER_PRECISION = 1000n;
+
+const TX_FIELDS = ['type', 'to', 'value', 'data', 'nonce', 'gasLimit', 'gasPrice', 'maxFeePerGas', 'maxPriorityFeePerGas', 'chainId', 'accessList'];
+
+export const applyMultiplier = (value: bigint, multiplier: number): bigint =>
+    value * BigInt(Math.round(multiplier * Number(FEE_MULTIPLIER_PRECISION))) / FEE_MULTIPLIER_PRECISION;
+
+/** True when signing `tx` needs no network round-trip. */
+export const isTransactionComplete = (tx: any): boolean =>
+    tx.nonce !== undefined && tx.gasLimit !== undefined && tx.chainId !== undefined
+    && (tx.gasPrice !== undefined || tx.maxFeePerGas !== undefined && tx.maxPriorityFeePerGas !== undefined);
+
+/**
+ * Fills missing chainId, nonce (pending), fees and gasLimit from the network. The network is
+ * taken from `chainId` when present, otherwise from `networkKey`. A `chainId` other than that of
+ * `networkKey` is refused with CHAIN_MISMATCH, as is a zero chainId. Fee estimates are scaled by
+ * `fees.multiplier`; a resulting max fee above `fees.maxFeeGwei` is refused with FEE_CAP_EXCEEDED,
+ * whether it was estimated or given by the caller. With `nonces`, a missing nonce is reserved
+ * from the local tracker once everything else succeeded; the caller releases it if signing
+ * fails. Returns a JSON-safe transaction.
+ */
+export const populateTransaction = async (
+    tx: any,
+    from: string,
+    networkKey: string | undefined,
+    fees: FeeSettings = { multiplier: 1 },
+    nonces?: NonceManager
+): Promise<Record<string, any>> => {
+    const expectedChainId = networkKey ? getChainIdForNetwork(networkKey) : undefined;
+    if (networkKey && expectedChainId === undefined) throw new Error(`Unsupported network key: ${networkKey}`);
+
+    const hasChainId = tx.chainId !== undefined && tx.chainId !== null;
+    if (hasChainId) {
+        let chainId: bigint;
+        try {
+            chainId = ethers.getBigInt(tx.chainId);
+        } catch (e) {
+            throw new Error(`Invalid chainId: ${tx.chainId}`);
+        }
+        // Signed without chain ID, a transaction can be replayed on every chain
+        if (chainId <= 0n) throw new RequestError('CHAIN_MISMATCH', `Transaction chainId must be positive, got ${tx.chainId}`);
+        if (expectedChainId !== undefined && chainId !== BigInt(expectedChainId)) {
+            throw new RequestError('CHAIN_MISMATCH', `Transaction chainId ${tx.chainId} does not match network '${networkKey}' (chain ${expectedChainId})`);
         }
+    }
+    const chainNetwork = hasChainId ? getNetworkMetadata(Number(tx.chainId))?.key : undefined;
+    if (hasChainId && !chainNetwork && !isTransactionComplete(tx)) {
+        throw new Error(`Chain ID ${tx.chainId} is not configured with an RPC endpoint`);
+    }
+    const network = chainNetwork || networkKey?.toLowerCase();
+
+    const populated: Record<string, any> = {};
+    for (const field of TX_FIELDS) {
+        if (tx[field] !== undefined && tx[field] !== null) populated[field] = tx[field];
+    }
+
+    const reserveNonce = populated.nonce === undefined && nonces !== undefined;
+    if (!isTransactionComplete(populated)) {
+        if (!network) throw new Error("Transaction needs 'chainId' or a 'network' to fill in missing fields");
+
+        await withProvider(network, async (provider) => {
+            if (populated.chainId === undefined) {
+                // From the registry; the pool has checked that the endpoint serves this chain
+                populated.chainId = getChainIdForNetwork(network)!;
+            }
+            if (populated.nonce === undefined && !reserveNonce) {
+                populated.nonce = await provider.getTransactionCount(from, 'pending');
+            }
+            if (populated.gasPrice === undefined && (populated.maxFeePerGas === undefined || populated.maxPriorityFeePerGas === undefined)) {
+                const feeData = await provider.getFeeData();
+                if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null && populated.type !== 0 && populated.type !== 1) {
+                    const priority = applyMultiplier(feeData.maxPriorityFeePerGas, fees.multiplier);
+                    populated.maxFeePerGas ??= applyMultiplier(feeData.maxFeePerGas, fees.multiplier);
+                    const maxFee = ethers.getBigInt(populated.maxFeePerGas);
+                    populated.maxPriorityFeePerGas ??= priority > maxFee ? maxFee : priority;
+                } else if (feeData.gasPrice !== null) {
+                    populated.gasPrice = applyMultiplier(feeData.gasPrice, fees.multiplier);
+                } else {
+                    throw new Error(`Fee data unavailable on ${network}`);
+                }
+            }
+            if (populated.gasLimit === undefined) {
+                const estimate = await provider.estimateGas({ ...populated, from });
+                populated.gasLimit = estimate === 21000n ? estimate : estimate * (100n + GAS_LIMIT_BUFFER_PERCENT) / 100n;
+            }
+        });
+    }
+
+    const maxFee = ethers.getBigInt(populated.maxFeePerGas ?? populated.gasPrice);
+    if (fees.maxFeeGwei !== undefined && maxFee > ethers.parseUnits(String(fees.maxFeeGwei), 'gwei')) {
+        throw new RequestError('FEE_CAP_EXCEEDED', `Max fee ${ethers.formatUnits(maxFee, 'gwei')} gwei exceeds the cap of ${fees.maxFeeGwei} gwei`);
+    }
+
+    if (reserveNonce) {
+        // Last, so a failed estimate or fee cap doesn't leave a reserved nonce behind
+        populated.nonce = await nonces!.reserve(from, Number(populated.chainId), () =>
+            withProvider(network!, provider => provider.getTransactionCount(from, 'pending')));
+    }
+
+    return Object.fromEntries(Object.entries(populated).map(([k, v]) => [k, typeof v === 'bigint' ? v.toString() : v]));
+};
+
+export const fetchCode = async (address: string, networkKey: string): Promise<string> => {
+    return await withProvider(networkKey, async (provider) => {
+        return await provider.getCode(address);
+    });
+};
 
-        // 3. Fetch USDC
-        let usdcPromise = Promise.resolve(BigInt(0));
-        if (tokens.usdc) {
-            const usdcContract = new ethers.Contract(tokens.usdc, ERC20_ABI, provider);
-            usdcPromise = usdcContract.balanceOf(address).catch(() => BigInt(0));
+// Returns null when the contract doesn't answer decimals(), i.e. it is not an ERC20 token.
+export const fetchTokenInfo = async (address: string, networkKey: string): Promise<TokenInfo | null> => {
+    return await withProvider(networkKey, async (provider) => {
+        const contract = new ethers.Contract(address, ERC20_ABI, provider);
+        let decimals: bigint;
+        try {
+            decimals = await contract.decimals();
+        } catch (e) {
+            return null;
         }
+        const symbol = await contract.symbol().catch(() => '???');
+        return { address, symbol, decimals: Number(decimals) };
+    });
+};
 
-        const [ethBal, usdtBal, usdcBal] = await Promise.all([ethBalancePromise, usdtPromise, usdcPromise]);
+// Exact balance in token units, for transfers that must move all of it.
+export const fetchTokenBalance = async (token: string, owner: string, networkKey: string): Promise<bigint> => {
+    return await withProvider(networkKey, async (provider) => {
+        const contract = new ethers.Contract(token, ERC20_ABI, provider);
+        return await contract.balanceOf(owner);
+    });
+};
 
-        return {
-            eth: formatValue(ethBal, 18),
-            wei: ethBal,
-            usdt: formatValue(usdtBal, 6),
-            usdc: formatValue(usdcBal, 6)
-        };
+// Exact native balance in wei.
+export const fetchNativeBalance = async (address: string, networkKey: string): Promise<bigint> => {
+    return await withProvider(networkKey, async (provider) => {
+        return await provider.getBalance(address);
     });
+};
 
-  } catch (e: any) {
-    const msg = e.message || 'Unknown Error';
-    if (!msg.includes('rate limit')) {
-        logger.log(`Scanning failed for ${networkKey}: ${msg}`, 'warning', 'RPC');
-    }
-    return "Error";
-  }
+// OP Stack chains (Optimism, Base, ...) charge an L1 data fee on top of gas, quoted by this predeploy.
+// Chains that fold the L1 cost into gas (Arbitrum, zkSync) or have none don't deploy it.
+const GAS_PRICE_ORACLE = '0x420000000000000000000000000000000000000F';
+const GAS_PRICE_ORACLE_ABI = ['function getL1Fee(bytes _data) view returns (uint256)'];
+
+// Current L1 data fee in wei for a populated transaction, 0 on chains without one.
+export const fetchL1Fee = async (tx: Record<string, any>, networkKey: string): Promise<bigint> => {
+    return await withProvider(networkKey, async (provider) => {
+        if (await provider.getCode(GAS_PRICE_ORACLE) === '0x') return 0n;
+        const { unsignedSerialized } = ethers.Transaction.from({ ...tx, nonce: tx.nonce ?? 0 });
+        const oracle = new ethers.Contract(GAS_PRICE_ORACLE, GAS_PRICE_ORACLE_ABI, provider);
+        return await oracle.getL1Fee(unsignedSerialized);
+    });
 };
 
-// New Helper: Build transfer transaction
+// Native transfer, or an ERC-20 transfer() when a registered token is given. Amounts are
+// parsed with the token's own decimals.
 export const createTransferTransaction = async (
     to: string, 
     amount: string, 
-    token: 'ETH' | 'USDT' | 'USDC', 
-    network: string
+    token?: RegisteredToken
 ): Promise<any> => {
-    const tokens = TOKEN_ADDRESSES[network.toLowerCase()];
-    
     // ETH Transfer
-    if (token === 'ETH') {
+    if (!token) {
         const valueWei = ethers.parseEther(amount);
         return {
             to,
@@ -369,19 +636,13 @@ export const createTransferTransaction = async (
     }
 
     // ERC20 Transfer
-    const tokenAddress = token === 'USDT' ? tokens?.usdt : tokens?.usdc;
-    if (!tokenAddress) throw new Error(`${token} contract not configured for ${network}`);
-
     const iface = new ethers.Interface(ERC20_ABI);
-    // USDT/USDC usually 6 decimals, but check standard. For this app we assume 6 for USD coins on most EVMs.
-    // In production, we should read decimals() from contract, but for speed we'll use 6 for now.
-    const decimals = 6; 
-    const amountUnits = ethers.parseUnits(amount, decimals);
+    const amountUnits = ethers.parseUnits(amount, token.decimals);
     
     const data = iface.encodeFunctionData("transfer", [to, amountUnits]);
     
     return {
-        to: tokenAddress,
+        to: token.address,
         value: 0,
         data: data
     };
@@ -0,0 +1,360 @@
+import { ethers } from 'ethers';
+import { WalletData, FeeSettings, RegisteredToken, SigningPolicy, ApiRequest, TrackedTransaction } from '../types';
+import { createTransferTransaction, populateTransaction, fetchNativeBalance, fetchTokenBalance, decryptData, signTransaction, sealRecords, openRecords, SealedRecords } from './cryptoService';
+import { findToken } from './tokenRegistry';
+import { nativeSymbolFor } from './networkRegistry';
+import { NonceManager } from './nonceManager';
+import { TransactionStore, trackSignedTransaction, broadcastAndTrack } from './txStore';
+import { SpendLedger, authorizeTransaction } from './policyEngine';
+import { logger } from './systemLogger';
+
+// One-to-many payouts from a CSV of `address,amount,asset`. A run is persisted row by row,
+// and each row keeps its signed transaction before it is broadcast, so a resumed run sends
+// the same bytes (same nonce) again instead of paying twice. Only rows whose transaction, and
+// every speed-up of it, the tracker reports dropped or reverted (or that were cancelled) are
+// signed anew.
+
+// Browser persistence of runs, so an interrupted distribution survives a reload.
+export const DISTRIBUTION_STORAGE_KEY = 'falconvault_v1_distributions';
+
+export type DistributionAsset = string; // The network's native symbol or the symbol of a registered token
+
+export type DistributionRowStatus = 'pending' | 'sent' | 'failed';
+
+export interface DistributionRow {
+  line: number; // 1-based line in the CSV
+  address: string; // Checksummed
+  amount: string;
+  asset: DistributionAsset;
+  status: DistributionRowStatus;
+  txHash?: string;
+  rawTx?: string; // Signed before broadcast; rebroadcast on resume
+  error?: string;
+}
+
+export interface DistributionRun {
+  id: string;
+  walletId: string;
+  walletLabel: string;
+  network: string;
+  rows: DistributionRow[];
+  createdAt: number;
+  updatedAt: number;
+  unverified?: boolean; // Failed the integrity check when loaded: listed, never resumed
+}
+
+export interface CsvIssue {
+  line: number;
+  message: string;
+}
+
+// The native asset when `asset` is the network's native symbol, else a registered token;
+// undefined when neither.
+const resolveAsset = (tokens: RegisteredToken[], network: string, asset: string): { symbol: string; token?: RegisteredToken; decimals: number } | undefined => {
+  const native = nativeSymbolFor(network);
+  if (asset.toUpperCase() === native.toUpperCase()) return { symbol: native, decimals: 18 };
+  const token = findToken(tokens, network, asset);
+  return token ? { symbol: token.symbol, token, decimals: token.decimals } : undefined;
+};
+
+/**
+ * Parses `address,amount,asset` lines against the tokens registered on `network`. The asset
+ * column is optional (the network's native asset), a header line and `#` comments are ignored. Every invalid line is
+ * reported; duplicated recipients are allowed.
+ */
+export const parseDistributionCsv = (text: string, tokens: RegisteredToken[], network: string): { rows: DistributionRow[]; issues: CsvIssue[] } => {
+  const rows: DistributionRow[] = [];
+  const issues: CsvIssue[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.trim();
+    if (!content || content.startsWith('#')) return;
+
+    const [address = '', amount = '', assetColumn = ''] = content.split(',').map(c => c.trim());
+    if (rows.length === 0 && issues.length === 0 && address.toLowerCase() === 'address') return;
+
+    if (!ethers.isAddress(address)) {
+      issues.push({ line, message: `Invalid address "${address}"` });
+      return;
+    }
+    const native = nativeSymbolFor(network);
+    const asset = resolveAsset(tokens, network, assetColumn || native);
+    if (!asset) {
+      issues.push({ line, message: `Asset "${assetColumn}" is neither ${native} nor a token registered on ${network}` });
+      return;
+    }
+    let units: bigint;
+    try {
+      units = ethers.parseUnits(amount, asset.decimals);
+    } catch (e) {
+      issues.push({ line, message: `Invalid ${asset.symbol} amount "${amount}"` });
+      return;
+    }
+    if (units <= 0n) {
+      issues.push({ line, message: 'Amount must be greater than zero' });
+      return;
+    }
+    rows.push({ line, address: ethers.getAddress(address), amount, asset: asset.symbol, status: 'pending' });
+  });
+
+  return { rows, issues };
+};
+
+export interface DistributionStore {
+  save: (run: DistributionRun) => void;
+  get: (id: string) => DistributionRun | undefined;
+  remove: (id: string) => void;
+  /** Newest first. */
+  list: () => DistributionRun[];
+}
+
+/**
+ * In-memory store seeded with persisted runs. `onChange` receives every run after each change
+ * so the caller can persist and display them.
+ */
+export const createDistributionStore = (initial: DistributionRun[], onChange?: (runs: DistributionRun[]) => void): DistributionStore => {
+  let runs = initial
+    .filter(r => r && typeof r.id === 'string' && Array.isArray(r.rows))
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  const changed = () => onChange?.(runs);
+
+  return {
+    save: (run) => {
+      const saved = { ...run, updatedAt: Date.now() };
+      runs = runs.some(r => r.id === run.id)
+        ? runs.map(r => r.id === run.id ? saved : r)
+        : [saved, ...runs];
+      changed();
+    },
+    get: (id) => runs.find(r => r.id === id),
+    remove: (id) => {
+      runs = runs.filter(r => r.id !== id);
+      changed();
+    },
+    list: () => runs
+  };
+};
+
+export const sealDistributionRuns = (runs: DistributionRun[], integrityKey: CryptoKey): Promise<SealedRecords<DistributionRun>> =>
+  sealRecords('distributions', runs, integrityKey);
+
+/**
+ * Verifies persisted runs (already JSON-parsed; undefined when there are none). Runs that fail
+ * the integrity check stay listed so their sent rows can be looked up, but are marked unverified
+ * and cannot be resumed; `problem` says why.
+ */
+export const openDistributionRuns = async (persisted: unknown, integrityKey: CryptoKey): Promise<{ runs: DistributionRun[]; problem?: string }> => {
+  if (persisted === undefined || persisted === null) return { runs: [] };
+  const runs = await openRecords<DistributionRun>('distributions', persisted, integrityKey);
+  if (runs) return { runs };
+  const found = Array.isArray(persisted) ? persisted : (persisted as Partial<SealedRecords<DistributionRun>>).records;
+  return {
+    runs: Array.isArray(found) ? found.filter(r => r && typeof r === 'object').map(r => ({ ...r, unverified: true })) : [],
+    problem: 'failed its integrity check'
+  };
+};
+
+export const createDistributionRun = (wallet: WalletData, network: string, rows: DistributionRow[]): DistributionRun => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), walletId: wallet.id, walletLabel: wallet.name, network, rows, createdAt: now, updatedAt: now };
+};
+
+/** Rows still to be paid: everything not sent yet. */
+export const remainingRows = (run: DistributionRun): DistributionRow[] => run.rows.filter(r => r.status !== 'sent');
+
+export interface AssetTotal {
+  asset: DistributionAsset;
+  count: number;
+  amount: string; // Sum of the rows
+  balance: string;
+  maxFees: string; // Native asset; estimated gasLimit × max fee per gas of the first row, for every row
+  sufficient: boolean; // Balance covers the amount (and for the native asset, every row's fees too)
+}
+
+export interface DistributionPreview {
+  totals: AssetTotal[];
+  totalMaxFees: string; // Native asset, all rows
+  sufficient: boolean;
+}
+
+/**
+ * Totals per asset against the source wallet's balances, with the maximum fees of every row.
+ * Gas is estimated once per asset, on its first row, rather than for each recipient.
+ */
+export const previewDistribution = async (
+  wallet: WalletData,
+  network: string,
+  rows: DistributionRow[],
+  tokens: RegisteredToken[],
+  fees?: FeeSettings
+): Promise<DistributionPreview> => {
+  const native = nativeSymbolFor(network);
+  const nativeBalance = await fetchNativeBalance(wallet.address, network);
+  const partial: (Omit<AssetTotal, 'sufficient'> & { units: bigint; balanceUnits: bigint; feeUnits: bigint })[] = [];
+
+  for (const asset of [...new Set(rows.map(r => r.asset))]) {
+    const assetRows = rows.filter(r => r.asset === asset);
+    const resolved = resolveAsset(tokens, network, asset);
+    if (!resolved) throw new Error(`${asset} is not registered for ${network}`);
+    const { token, decimals } = resolved;
+    const balanceUnits = token ? await fetchTokenBalance(token.address, wallet.address, network) : nativeBalance;
+
+    const sample = await populateTransaction(await createTransferTransaction(assetRows[0].address, assetRows[0].amount, token), wallet.address, network, fees);
+    const feeUnits = ethers.getBigInt(sample.gasLimit) * ethers.getBigInt(sample.maxFeePerGas ?? sample.gasPrice) * BigInt(assetRows.length);
+    const units = assetRows.reduce((sum, r) => sum + ethers.parseUnits(r.amount, decimals), 0n);
+
+    partial.push({
+      asset,
+      count: assetRows.length,
+      amount: ethers.formatUnits(units, decimals),
+      balance: ethers.formatUnits(balanceUnits, decimals),
+      maxFees: ethers.formatEther(feeUnits),
+      units,
+      balanceUnits,
+      feeUnits
+    });
+  }
+
+  const feeTotal = partial.reduce((sum, t) => sum + t.feeUnits, 0n);
+  const totals = partial.map(({ units, balanceUnits, feeUnits, ...total }) => ({
+    ...total,
+    sufficient: total.asset === native ? units + feeTotal <= balanceUnits : units <= balanceUnits
+  }));
+  // Token-only runs still pay their gas in the native asset
+  const feesCovered = partial.some(t => t.asset === native) || feeTotal <= nativeBalance;
+
+  return { totals, totalMaxFees: ethers.formatEther(feeTotal), sufficient: feesCovered && totals.every(t => t.sufficient) };
+};
+
+// The row's transaction followed by its speed-ups and cancellation, oldest first
+const replacementChain = (hash: string, transactions: TransactionStore): TrackedTransaction[] => {
+  const chain: TrackedTransaction[] = [];
+  for (let tx = transactions.get(hash); tx && !chain.includes(tx); tx = tx.replacedBy ? transactions.get(tx.replacedBy) : undefined) {
+    chain.push(tx);
+  }
+  return chain;
+};
+
+const isCancellation = (tx: TrackedTransaction): boolean =>
+  !!tx.replaces && tx.to?.toLowerCase() === tx.from.toLowerCase() && tx.value === '0';
+
+/**
+ * Brings rows in line with the tracker. A row whose transaction, or a speed-up of it, is pending
+ * or mined is sent, under the newest such hash; this also covers a broadcast that reported an
+ * error after the node had taken the transaction. Rows whose whole replacement chain was dropped
+ * or reverted, or whose payout was cancelled, go back to pending so the next run signs them
+ * again. Anything else, e.g. never broadcast, keeps its signed transaction.
+ */
+export const reconcileRun = (run: DistributionRun, transactions?: TransactionStore): DistributionRun => ({
+  ...run,
+  rows: run.rows.map(row => {
+    const chain = row.txHash && transactions ? replacementChain(row.txHash, transactions) : [];
+    if (chain.length === 0) return row;
+    const reset = (error: string): DistributionRow => ({ line: row.line, address: row.address, amount: row.amount, asset: row.asset, status: 'pending', error });
+
+    const live = [...chain].reverse().find(tx => tx.status === 'pending' || tx.status === 'mined');
+    if (live && isCancellation(live)) {
+      // Until the cancellation is mined, the payout itself may still land
+      return live.status === 'mined' ? reset('Previous transaction cancelled') : row;
+    }
+    if (live) {
+      return live.hash === row.txHash && row.status === 'sent' ? row : { ...row, status: 'sent', txHash: live.hash, rawTx: live.rawTx, error: undefined };
+    }
+    if (chain.every(tx => tx.status === 'dropped' || tx.status === 'reverted')) {
+      return reset(`Previous transaction ${chain[chain.length - 1].status}`);
+    }
+    return row;
+  })
+});
+
+export interface DistributionExecution {
+  dataKey: CryptoKey;
+  wallets: WalletData[];
+  tokens: RegisteredToken[];
+  fees?: FeeSettings;
+  nonces?: NonceManager;
+  transactions?: TransactionStore;
+  policies?: SigningPolicy[];
+  spendLedger?: SpendLedger;
+}
+
+/**
+ * Pays the run's remaining rows in CSV order with sequential nonces, saving the run after every
+ * row. Each payout is checked against the policies and booked in the spend ledger before it is
+ * signed. A row that cannot be signed (e.g. denied by a policy or over the fee cap) is marked
+ * failed and the run goes on;
+ * a failed broadcast stops the run. Also stops early when `shouldStop` returns true. A run
+ * marked unverified is refused.
+ */
+export const executeDistribution = async (
+  run: DistributionRun,
+  wallet: WalletData,
+  execution: DistributionExecution,
+  store: DistributionStore,
+  shouldStop: () => boolean = () => false
+): Promise<DistributionRun> => {
+  if (run.unverified) {
+    throw new Error('This run failed its integrity check and cannot be resumed. Start a new run from the CSV instead.');
+  }
+  let current = reconcileRun(run, execution.transactions);
+  store.save(current);
+
+  const setRow = (line: number, patch: Partial<DistributionRow>) => {
+    current = { ...current, rows: current.rows.map(r => r.line === line ? { ...r, ...patch } : r) };
+    store.save(current);
+  };
+
+  // Decrypted once the first payout has passed the policies
+  let privateKey: string | undefined;
+
+  for (const row of remainingRows(current)) {
+    if (shouldStop()) break;
+
+    let rawTx = row.rawTx;
+    if (!rawTx) {
+      let reserved: { chainId: number; nonce: number } | undefined;
+      try {
+        const asset = resolveAsset(execution.tokens, current.network, row.asset);
+        if (!asset) throw new Error(`${row.asset} is no longer registered for ${current.network}`);
+        const tx = await populateTransaction(
+          await createTransferTransaction(row.address, row.amount, asset.token),
+          wallet.address, current.network, execution.fees, execution.nonces
+        );
+        reserved = { chainId: tx.chainId, nonce: tx.nonce };
+        const request: ApiRequest = { type: 'eth_signTransaction', walletLabel: wallet.name, network: current.network, payload: tx };
+        const undoSpend = authorizeTransaction(request, wallet, execution.policies || [], execution.spendLedger);
+        try {
+          privateKey ??= await decryptData(wallet.encryptedPrivateKey, execution.dataKey);
+          rawTx = await signTransaction(privateKey, tx);
+        } catch (e) {
+          undoSpend();
+          throw e;
+        }
+      } catch (e: any) {
+        if (reserved) execution.nonces?.release(wallet.address, reserved.chainId, reserved.nonce);
+        setRow(row.line, { status: 'failed', error: e.shortMessage || e.message });
+        logger.log(`Payout line ${row.line} to ${row.address} failed: ${e.message}`, 'error', 'Distribution');
+        continue;
+      }
+      if (execution.transactions) trackSignedTransaction(execution.transactions, rawTx, wallet, `Payout ${row.amount} ${row.asset} to ${row.address}`);
+      // Saved before broadcasting: from here on a resume rebroadcasts these exact bytes
+      setRow(row.line, { rawTx, txHash: ethers.Transaction.from(rawTx).hash!, error: undefined });
+    }
+
+    try {
+      const txHash = await broadcastAndTrack(rawTx, current.network, execution);
+      setRow(row.line, { status: 'sent', txHash, error: undefined });
+      logger.log(`Paid ${row.amount} ${row.asset} to ${row.address}`, 'success', 'Distribution');
+    } catch (e: any) {
+      setRow(row.line, { status: 'failed', error: e.shortMessage || e.message });
+      logger.log(`Payout line ${row.line} to ${row.address} failed to broadcast, stopping: ${e.message}`, 'error', 'Distribution');
+      // The failed broadcast released its nonce (unless it timed out); later rows would take it
+      // while this transaction may still land, so the run stops here and is resumed later.
+      break;
+    }
+  }
+
+  return current;
+};
@@ -0,0 +1,33 @@
+import { PolicyRuleRef } from '../types';
+
+// Error carrying a machine-readable code that is surfaced as ServiceResponse.code.
+// Anything else thrown while executing a request is reported as EXECUTION_ERROR.
+export class RequestError extends Error {
+  public readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.name = 'RequestError';
+    this.code = code;
+  }
+}
+
+// A signing policy denied the request. `policy` names the policy and rule that fired.
+export class PolicyViolationError extends RequestError {
+  public readonly policy: PolicyRuleRef;
+
+  constructor(code: string, message: string, policy: PolicyRuleRef) {
+    super(code, message);
+    this.name = 'PolicyViolationError';
+    this.policy = policy;
+  }
+}
+
+// The vault store failed its integrity check: the master password was correct but the
+// stored wallets, metadata or settings were modified outside FalconVault.
+export class VaultIntegrityError extends Error {
+  constructor(message: string = 'Vault integrity check failed. The store was modified outside FalconVault.') {
+    super(message);
+    this.name = 'VaultIntegrityError';
+  }
+}
@@ -0,0 +1,95 @@
+import { WalletData, SeedData, ApiRequest } from '../types';
+import { encryptData, decryptData, deriveAccounts, isValidMnemonic, isValidDerivationPath, normalizeMnemonic } from './cryptoService';
+
+// HD seeds kept in the vault. Derived accounts are stored as ordinary WalletData entries
+// (own encrypted key, linked through seedId/derivationPath), so signing needs no seed access.
+
+export const MAX_DERIVE_BATCH = 500;
+
+export const createSeed = async (name: string, mnemonic: string, basePath: string, dataKey: CryptoKey, existing: SeedData[]): Promise<SeedData> => {
+  const trimmedName = name.trim();
+  if (!trimmedName) throw new Error('Seed name required');
+  if (existing.some(s => s.name === trimmedName)) throw new Error(`Seed '${trimmedName}' exists`);
+  if (!isValidMnemonic(mnemonic)) throw new Error('Invalid BIP-39 mnemonic');
+  if (!isValidDerivationPath(basePath)) throw new Error(`Invalid derivation path: ${basePath}`);
+
+  const phrase = normalizeMnemonic(mnemonic);
+  const fingerprintAddress = deriveAccounts(phrase, basePath, 0, 1)[0].address;
+  for (const seed of existing) {
+    const other = await decryptData(seed.encryptedMnemonic, dataKey);
+    if (seed.basePath === basePath && deriveAccounts(other, basePath, 0, 1)[0].address === fingerprintAddress) {
+      throw new Error(`This mnemonic is already stored as '${seed.name}'`);
+    }
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name: trimmedName,
+    encryptedMnemonic: await encryptData(phrase, dataKey),
+    basePath,
+    createdAt: Date.now()
+  };
+};
+
+/**
+ * Derives indexes [start, start + count) of a seed as new wallets labelled `${labelPrefix}${index}`.
+ * Accounts already in the vault are skipped; a clashing label aborts the whole batch.
+ */
+export const deriveSeedWallets = async (
+  seed: SeedData,
+  dataKey: CryptoKey,
+  start: number,
+  count: number,
+  labelPrefix: string,
+  existing: WalletData[]
+): Promise<WalletData[]> => {
+  if (!Number.isInteger(start) || start < 0 || start >= 0x80000000) throw new Error('Start index must be a non-negative integer');
+  if (!Number.isInteger(count) || count < 1 || count > MAX_DERIVE_BATCH) throw new Error(`Count must be between 1 and ${MAX_DERIVE_BATCH}`);
+
+  const phrase = await decryptData(seed.encryptedMnemonic, dataKey);
+  const addresses = new Set(existing.map(w => w.address.toLowerCase()));
+  const labels = new Set(existing.map(w => w.name));
+
+  const accounts = deriveAccounts(phrase, seed.basePath, start, count).filter(a => !addresses.has(a.address.toLowerCase()));
+  for (const account of accounts) {
+    const label = `${labelPrefix}${account.index}`;
+    if (labels.has(label)) throw new Error(`Label '${label}' exists`);
+  }
+
+  const created: WalletData[] = [];
+  for (const account of accounts) {
+    created.push({
+      id: crypto.randomUUID(),
+      name: `${labelPrefix}${account.index}`,
+      address: account.address,
+      encryptedPrivateKey: await encryptData(account.privateKey, dataKey),
+      metadata: { notes: `Derived from ${seed.name}` },
+      createdAt: Date.now(),
+      seedId: seed.id,
+      derivationPath: account.path
+    });
+  }
+  return created;
+};
+
+// Finds the derived wallet a request addresses through derivationPath/derivationIndex instead of walletLabel.
+export const resolveDerivedWallet = (request: ApiRequest, wallets: WalletData[], seeds: SeedData[]): WalletData | undefined => {
+  if (request.derivationPath === undefined && request.derivationIndex === undefined) return undefined;
+
+  let candidates = seeds;
+  if (request.seedLabel !== undefined) {
+    candidates = seeds.filter(s => s.name === request.seedLabel);
+    if (candidates.length === 0) throw new Error(`Seed not found: ${request.seedLabel}`);
+  }
+
+  const matches = wallets.filter(w => {
+    const seed = candidates.find(s => s.id === w.seedId);
+    if (!seed || !w.derivationPath) return false;
+    if (request.derivationPath !== undefined) return w.derivationPath === request.derivationPath;
+    return w.derivationPath === `${seed.basePath}/${request.derivationIndex}`;
+  });
+  if (matches.length > 1) {
+    throw new Error("Derivation path matches accounts of several seeds, specify 'seedLabel'");
+  }
+  return matches[0];
+};
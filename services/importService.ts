@@ -0,0 +1,147 @@
+import { WalletData, SeedData, VaultSettings, AttributeDefinition } from '../types';
+import { BackupContents } from './backupService';
+
+// Plans a backup import against the current vault. The preview is shown to the user,
+// who picks a resolution per entry; applyImport then produces the merged wallet list.
+
+export type ImportCategory = 'new' | 'duplicate_address' | 'label_conflict' | 'undecryptable';
+
+export type ImportResolution = 'import' | 'skip' | 'rename' | 'overwrite_metadata' | 'keep_both';
+
+// Choices offered per category, the first one is the default.
+export const IMPORT_RESOLUTIONS: Record<ImportCategory, ImportResolution[]> = {
+  new: ['import', 'skip'],
+  duplicate_address: ['skip', 'overwrite_metadata', 'keep_both'],
+  label_conflict: ['rename', 'skip'],
+  undecryptable: ['skip']
+};
+
+export interface ImportEntry {
+  wallet: WalletData; // Key already encrypted under the vault data key (except undecryptable entries)
+  category: ImportCategory;
+  existing?: WalletData; // Vault wallet this entry clashes with
+  resolution: ImportResolution;
+  renameTo?: string; // Label used by 'rename' and 'keep_both'
+}
+
+export interface ImportPreview {
+  entries: ImportEntry[];
+  newAttributes: AttributeDefinition[]; // Backup attribute definitions not yet known to the vault
+  newSeeds: SeedData[]; // HD seeds not yet in the vault, added so derived entries keep their parent (see applyImport)
+}
+
+const uniqueLabel = (label: string, taken: Set<string>): string => {
+  let n = 2;
+  while (taken.has(`${label} (${n})`)) n++;
+  return `${label} (${n})`;
+};
+
+export const buildImportPreview = (backup: BackupContents, wallets: WalletData[], settings: VaultSettings, seeds: SeedData[]): ImportPreview => {
+  const byAddress = new Map(wallets.map(w => [w.address.toLowerCase(), w]));
+  const byLabel = new Map(wallets.map(w => [w.name, w]));
+  const taken = new Set(byLabel.keys());
+
+  const classify = (wallet: WalletData, decryptable: boolean): ImportEntry => {
+    let entry: ImportEntry;
+    const sameAddress = byAddress.get(wallet.address.toLowerCase());
+    const sameLabel = byLabel.get(wallet.name);
+    if (!decryptable) {
+      entry = { wallet, category: 'undecryptable', existing: sameAddress || sameLabel, resolution: 'skip' };
+    } else if (sameAddress) {
+      entry = { wallet, category: 'duplicate_address', existing: sameAddress, resolution: 'skip' };
+    } else if (sameLabel || taken.has(wallet.name)) {
+      entry = { wallet, category: 'label_conflict', existing: sameLabel, resolution: 'rename' };
+    } else {
+      entry = { wallet, category: 'new', resolution: 'import' };
+    }
+    if (entry.category !== 'undecryptable' && taken.has(wallet.name)) {
+      entry.renameTo = uniqueLabel(wallet.name, taken);
+    }
+    taken.add(entry.renameTo || wallet.name);
+    return entry;
+  };
+
+  const known = new Set(settings.attributeDefinitions.map(d => d.key));
+  const newAttributes = (backup.settings?.attributeDefinitions || []).filter(d => d && d.key && !known.has(d.key));
+
+  const seedIds = new Set(seeds.map(s => s.id));
+  const seedNames = new Set(seeds.map(s => s.name));
+  const newSeeds = backup.seeds.filter(s => !seedIds.has(s.id)).map(seed => {
+    const name = seedNames.has(seed.name) ? uniqueLabel(seed.name, seedNames) : seed.name;
+    seedNames.add(name);
+    return { ...seed, name };
+  });
+
+  return {
+    entries: [
+      ...backup.wallets.map(w => classify(w, true)),
+      ...backup.undecryptable.map(w => classify(w, false))
+    ],
+    newAttributes,
+    newSeeds
+  };
+};
+
+/**
+ * Applies the chosen resolutions. A new seed is only added when at least one of its derived
+ * wallets is, or when the backup holds none of them. Throws without changing anything if a
+ * resolution is not allowed for its category or a resulting label would clash.
+ */
+export const applyImport = (
+  preview: ImportPreview,
+  wallets: WalletData[],
+  settings: VaultSettings,
+  seeds: SeedData[]
+): { wallets: WalletData[]; settings: VaultSettings; seeds: SeedData[]; count: number } => {
+  const result = [...wallets];
+  const taken = new Set(wallets.map(w => w.name));
+  const ids = new Set(wallets.map(w => w.id));
+  let count = 0;
+
+  const add = (wallet: WalletData, label: string, freshId: boolean) => {
+    if (!label.trim()) throw new Error(`Empty label for ${wallet.address}`);
+    if (taken.has(label)) throw new Error(`Wallet label '${label}' already exists`);
+    const id = freshId || ids.has(wallet.id) ? crypto.randomUUID() : wallet.id;
+    result.push({ ...wallet, id, name: label });
+    taken.add(label);
+    ids.add(id);
+    count++;
+  };
+
+  for (const entry of preview.entries) {
+    if (!IMPORT_RESOLUTIONS[entry.category].includes(entry.resolution)) {
+      throw new Error(`Cannot ${entry.resolution} entry '${entry.wallet.name}'`);
+    }
+    switch (entry.resolution) {
+      case 'skip':
+        break;
+      case 'import':
+        add(entry.wallet, entry.wallet.name, false);
+        break;
+      case 'rename':
+        add(entry.wallet, (entry.renameTo || '').trim(), false);
+        break;
+      case 'keep_both':
+        add(entry.wallet, taken.has(entry.wallet.name) ? (entry.renameTo || uniqueLabel(entry.wallet.name, taken)) : entry.wallet.name, true);
+        break;
+      case 'overwrite_metadata': {
+        const index = result.findIndex(w => w.id === entry.existing?.id);
+        if (index === -1) throw new Error(`No vault wallet to update for '${entry.wallet.name}'`);
+        result[index] = { ...result[index], metadata: { ...entry.wallet.metadata } };
+        count++;
+        break;
+      }
+    }
+  }
+
+  const addedSeedIds = new Set(result.slice(wallets.length).map(w => w.seedId));
+  const newSeeds = preview.newSeeds.filter(seed =>
+    addedSeedIds.has(seed.id) || !preview.entries.some(entry => entry.wallet.seedId === seed.id));
+
+  return {
+    wallets: result,
+    settings: { ...settings, attributeDefinitions: [...settings.attributeDefinitions, ...preview.newAttributes] },
+    seeds: [...seeds, ...newSeeds],
+    count
+  };
+};
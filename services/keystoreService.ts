@@ -0,0 +1,115 @@
+import { ethers } from 'ethers';
+import { zipSync, strToU8 } from 'fflate';
+import { WalletData } from '../types';
+import { encryptData, decryptData } from './cryptoService';
+
+// Ethereum keystore V3 (geth / MetaMask / Foundry JSON) exchange. Keys move between the
+// vault's data key and keystore passwords without ever being displayed.
+
+export interface KeystoreFile {
+  name: string;
+  content: string;
+}
+
+export interface KeystoreImportResult {
+  wallets: WalletData[];
+  errors: string[];
+}
+
+// geth names its files UTC--<timestamp>--<address>; anything else keeps its base name.
+const labelFromFileName = (fileName: string, address: string): string => {
+  const base = fileName.split('/').pop()!.replace(/\.json$/i, '');
+  if (/^UTC--/.test(base) || !base.trim()) return `keystore_${address.slice(2, 10).toLowerCase()}`;
+  return base.trim();
+};
+
+const uniqueLabel = (label: string, taken: Set<string>): string => {
+  if (!taken.has(label)) return label;
+  let n = 2;
+  while (taken.has(`${label}_${n}`)) n++;
+  return `${label}_${n}`;
+};
+
+/**
+ * Decrypts keystore files with `password` and re-encrypts their keys under the data key.
+ * Files that are not keystores, fail to decrypt or hold an address already in the vault
+ * are reported in `errors`; the rest are returned as new wallets.
+ */
+export const importKeystores = async (
+  files: KeystoreFile[],
+  password: string,
+  dataKey: CryptoKey,
+  existing: WalletData[],
+  onProgress?: (done: number, total: number) => void
+): Promise<KeystoreImportResult> => {
+  const addresses = new Set(existing.map(w => w.address.toLowerCase()));
+  const labels = new Set(existing.map(w => w.name));
+  const wallets: WalletData[] = [];
+  const errors: string[] = [];
+
+  for (const [i, file] of files.entries()) {
+    try {
+      if (!ethers.isKeystoreJson(file.content)) throw new Error('not a keystore V3 file');
+      let account: ethers.KeystoreAccount;
+      try {
+        account = await ethers.decryptKeystoreJson(file.content, password);
+      } catch (e) {
+        throw new Error('wrong password or corrupted file');
+      }
+      if (addresses.has(account.address.toLowerCase())) throw new Error(`${account.address} is already in the vault`);
+
+      const name = uniqueLabel(labelFromFileName(file.name, account.address), labels);
+      wallets.push({
+        id: crypto.randomUUID(),
+        name,
+        address: account.address,
+        encryptedPrivateKey: await encryptData(account.privateKey, dataKey),
+        metadata: { notes: `Imported from keystore ${file.name}` },
+        createdAt: Date.now()
+      });
+      addresses.add(account.address.toLowerCase());
+      labels.add(name);
+    } catch (e: any) {
+      errors.push(`${file.name}: ${e.message}`);
+    }
+    onProgress?.(i + 1, files.length);
+  }
+  return { wallets, errors };
+};
+
+const gethFileName = (address: string, date: Date): string => {
+  const timestamp = date.toISOString().replace(/:/g, '-');
+  return `UTC--${timestamp}--${address.slice(2).toLowerCase()}`;
+};
+
+/**
+ * Exports wallets as keystore V3 files, each encrypted with its own password, bundled into
+ * a zip. Throws on the first wallet that cannot be decrypted or has no password.
+ */
+export const exportKeystores = async (
+  wallets: WalletData[],
+  passwords: Record<string, string>, // walletId -> keystore password
+  dataKey: CryptoKey,
+  onProgress?: (done: number, total: number) => void
+): Promise<Uint8Array> => {
+  const files: Record<string, Uint8Array> = {};
+  for (const [i, wallet] of wallets.entries()) {
+    const password = passwords[wallet.id];
+    if (!password) throw new Error(`No keystore password for '${wallet.name}'`);
+
+    let privateKey: string;
+    try {
+      privateKey = await decryptData(wallet.encryptedPrivateKey, dataKey);
+    } catch (e) {
+      throw new Error(`Could not decrypt wallet '${wallet.name}'`);
+    }
+    const json = await ethers.encryptKeystoreJson({ address: wallet.address, privateKey }, password);
+    // Wallets kept twice under the same address would otherwise overwrite each other's file
+    const base = gethFileName(wallet.address, new Date());
+    let name = base;
+    for (let n = 2; files[name]; n++) name = `${base}--${n}`;
+    files[name] = strToU8(json);
+    onProgress?.(i + 1, wallets.length);
+  }
+  return zipSync(files);
+};
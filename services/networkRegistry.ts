@@ -0,0 +1,133 @@
+import { ethers } from 'ethers';
+import { NetworkConfig } from '../types';
+
+// EVM networks the vault talks to. The registry is part of the vault settings; the defaults
+// below seed new vaults and vaults saved before the registry existed. Every RPC path reads
+// the active list, which the app and the API server replace whenever the settings load or change.
+
+export const DEFAULT_NETWORKS: NetworkConfig[] = [
+  {
+    key: 'mainnet', chainId: 1, name: 'Ethereum Mainnet', nativeSymbol: 'ETH', explorer: 'https://etherscan.io',
+    rpcUrls: ['https://eth.llamarpc.com', 'https://rpc.ankr.com/eth', 'https://1rpc.io/eth', 'https://cloudflare-eth.com']
+  },
+  {
+    key: 'arbitrum', chainId: 42161, name: 'Arbitrum One', nativeSymbol: 'ETH', explorer: 'https://arbiscan.io',
+    rpcUrls: ['https://arb1.arbitrum.io/rpc', 'https://rpc.ankr.com/arbitrum', 'https://1rpc.io/arb']
+  },
+  {
+    key: 'optimism', chainId: 10, name: 'Optimism', nativeSymbol: 'ETH', explorer: 'https://optimistic.etherscan.io',
+    rpcUrls: ['https://mainnet.optimism.io', 'https://rpc.ankr.com/optimism', 'https://optimism.llamarpc.com']
+  },
+  {
+    key: 'polygon', chainId: 137, name: 'Polygon', nativeSymbol: 'POL', explorer: 'https://polygonscan.com',
+    rpcUrls: ['https://polygon-rpc.com', 'https://rpc.ankr.com/polygon', 'https://1rpc.io/matic']
+  },
+  {
+    key: 'base', chainId: 8453, name: 'Base', nativeSymbol: 'ETH', explorer: 'https://basescan.org',
+    rpcUrls: ['https://mainnet.base.org', 'https://base.llamarpc.com', 'https://1rpc.io/base']
+  },
+  {
+    key: 'zksync', chainId: 324, name: 'zkSync Era', nativeSymbol: 'ETH', explorer: 'https://explorer.zksync.io',
+    multicall3: '0xF9cda624FBC7e059355ce98a31693d299FACd963',
+    rpcUrls: ['https://mainnet.era.zksync.io', 'https://1rpc.io/zksync2-era']
+  },
+  {
+    key: 'linea', chainId: 59144, name: 'Linea', nativeSymbol: 'ETH', explorer: 'https://lineascan.build',
+    rpcUrls: ['https://rpc.linea.build', 'https://1rpc.io/linea']
+  },
+  {
+    key: 'sepolia', chainId: 11155111, name: 'Sepolia', nativeSymbol: 'ETH', explorer: 'https://sepolia.etherscan.io',
+    rpcUrls: ['https://rpc.ankr.com/eth_sepolia', 'https://1rpc.io/sepolia']
+  }
+];
+
+let active: NetworkConfig[] = DEFAULT_NETWORKS;
+
+/** Replaces the networks every RPC path resolves through. */
+export const configureNetworks = (networks: NetworkConfig[]) => {
+  active = networks;
+};
+
+export const listNetworks = (): NetworkConfig[] => active;
+
+export const getNetwork = (networkKey: string): NetworkConfig | undefined =>
+  active.find(n => n.key === networkKey.toLowerCase());
+
+export const getNetworkMetadata = (chainId: number): NetworkConfig | null =>
+  active.find(n => n.chainId === Number(chainId)) || null;
+
+export const getChainIdForNetwork = (networkKey: string): number | undefined => getNetwork(networkKey)?.chainId;
+
+/** Native asset symbol of a network, ETH when the key is unknown. */
+export const nativeSymbolFor = (networkKey: string): string => getNetwork(networkKey)?.nativeSymbol || 'ETH';
+
+// Keys appear in API requests, CSV runs and the token registry, so they stay short and lowercase
+const KEY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+const isHttpUrl = (value: string): boolean => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch (e) {
+    return false;
+  }
+};
+
+/** Throws when a network entry is malformed. Returns it trimmed, with its key lowercased. */
+export const validateNetwork = (network: NetworkConfig): NetworkConfig => {
+  const normalized: NetworkConfig = {
+    key: network.key.trim().toLowerCase(),
+    chainId: Number(network.chainId),
+    name: network.name.trim(),
+    nativeSymbol: network.nativeSymbol.trim(),
+    rpcUrls: network.rpcUrls.map(u => u.trim()).filter(Boolean),
+    ...(network.explorer?.trim() ? { explorer: network.explorer.trim().replace(/\/+$/, '') } : {}),
+    ...(network.multicall3?.trim() ? { multicall3: network.multicall3.trim() } : {})
+  };
+
+  if (!KEY_PATTERN.test(normalized.key)) throw new Error('Key must be 1-32 lowercase letters, digits, _ or -, starting with a letter or digit');
+  if (!Number.isSafeInteger(normalized.chainId) || normalized.chainId <= 0) throw new Error(`Invalid chain ID: ${network.chainId}`);
+  if (!normalized.name) throw new Error('Name is required');
+  if (!normalized.nativeSymbol) throw new Error('Native symbol is required');
+  if (normalized.rpcUrls.length === 0) throw new Error('At least one RPC endpoint is required');
+  const badUrl = normalized.rpcUrls.find(u => !isHttpUrl(u));
+  if (badUrl) throw new Error(`Invalid RPC URL: ${badUrl}`);
+  if (normalized.explorer && !isHttpUrl(normalized.explorer)) throw new Error(`Invalid explorer URL: ${normalized.explorer}`);
+  if (normalized.multicall3) {
+    if (!ethers.isAddress(normalized.multicall3)) throw new Error(`Invalid Multicall3 address: ${normalized.multicall3}`);
+    normalized.multicall3 = ethers.getAddress(normalized.multicall3);
+  }
+  return normalized;
+};
+
+/**
+ * Returns the registry with `network` added, or replacing the entry stored under `replaceKey`.
+ * Throws when the entry is invalid, its key or chain ID belongs to another network, or it would
+ * rename `replaceKey`: tokens and payout runs refer to networks by key.
+ */
+export const saveNetwork = (networks: NetworkConfig[], network: NetworkConfig, replaceKey?: string): NetworkConfig[] => {
+  const entry = validateNetwork(network);
+  if (replaceKey !== undefined && entry.key !== replaceKey) {
+    throw new Error(`The key of network "${replaceKey}" cannot be changed`);
+  }
+  const others = networks.filter(n => n.key !== replaceKey);
+  if (others.some(n => n.key === entry.key)) throw new Error(`A network with key "${entry.key}" already exists`);
+  const sameChain = others.find(n => n.chainId === entry.chainId);
+  if (sameChain) throw new Error(`Chain ID ${entry.chainId} is already configured as ${sameChain.key}`);
+  return replaceKey ? networks.map(n => n.key === replaceKey ? entry : n) : [...networks, entry];
+};
+
+export const removeNetwork = (networks: NetworkConfig[], networkKey: string): NetworkConfig[] =>
+  networks.filter(n => n.key !== networkKey);
+
+/** Asks a single endpoint which chain it serves, without retrying other endpoints. */
+export const probeChainId = async (url: string, timeoutMs = 5000): Promise<number> => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+  const body = await res.json();
+  if (body.error || typeof body.result !== 'string') throw new Error(body.error?.message || `Unexpected response from ${url}`);
+  return Number(body.result);
+};
@@ -0,0 +1,140 @@
+import { sealRecords, openRecords, SealedRecords } from './cryptoService';
+
+// Local nonce tracking per (address, chain), so several transactions signed in a row from
+// one wallet get consecutive nonces before any of them reaches the mempool.
+
+// Browser persistence; the RPC server keeps the same records next to the vault file.
+export const NONCE_STORAGE_KEY = 'falconvault_v1_nonces';
+
+export interface NonceState {
+  address: string; // Lowercase
+  chainId: number;
+  next: number; // Next nonce to hand out unless a released one is reused
+  pending: number[]; // Handed out, not yet broadcast or seen on chain
+  released: number[]; // Handed back after a failed signing or broadcast, reused first
+  updatedAt: number;
+}
+
+export interface NonceManager {
+  /** Reserves the next nonce, reconciling with the chain's pending transaction count first. */
+  reserve: (address: string, chainId: number, fetchPending: () => Promise<number>) => Promise<number>;
+  /** Records a nonce the caller chose explicitly, so later reservations skip it. */
+  markUsed: (address: string, chainId: number, nonce: number) => void;
+  /** The transaction was accepted by the network; like markUsed, the nonce is never handed out again. */
+  confirm: (address: string, chainId: number, nonce: number) => void;
+  /** Signing or broadcasting failed; the nonce is handed out again. */
+  release: (address: string, chainId: number, nonce: number) => void;
+  /** Forgets local state; the next reservation starts from the chain's pending count. */
+  reset: (address: string, chainId: number) => void;
+  list: () => NonceState[];
+}
+
+export const sealNonceStates = (states: NonceState[], integrityKey: CryptoKey): Promise<SealedRecords<NonceState>> =>
+  sealRecords('nonces', states, integrityKey);
+
+/**
+ * Verifies persisted state (already JSON-parsed; undefined when there is none). State that fails
+ * the integrity check is dropped, so nonces come from the chain again; `problem` says why.
+ */
+export const openNonceStates = async (persisted: unknown, integrityKey: CryptoKey): Promise<{ states: NonceState[]; problem?: string }> => {
+  if (persisted === undefined || persisted === null) return { states: [] };
+  const states = await openRecords<NonceState>('nonces', persisted, integrityKey);
+  return states ? { states } : { states: [], problem: 'failed its integrity check' };
+};
+
+const keyOf = (address: string, chainId: number) => `${address.toLowerCase()}:${chainId}`;
+
+const without = (list: number[], nonce: number) => list.filter(n => n !== nonce);
+
+/**
+ * In-memory manager seeded with persisted state. `onChange` receives every state after
+ * each change so the caller can persist and display it.
+ */
+export const createNonceManager = (initial: NonceState[], onChange?: (states: NonceState[]) => void): NonceManager => {
+  const states = new Map<string, NonceState>(
+    initial.filter(s => s && typeof s.address === 'string' && Number.isInteger(s.next)).map(s => [keyOf(s.address, s.chainId), s])
+  );
+
+  const update = (address: string, chainId: number, change: (state: NonceState) => NonceState | null) => {
+    const key = keyOf(address, chainId);
+    const current = states.get(key);
+    if (!current) return;
+    const next = change(current);
+    if (next) states.set(key, { ...next, updatedAt: Date.now() });
+    else states.delete(key);
+    onChange?.([...states.values()]);
+  };
+
+  return {
+    reserve: async (address, chainId, fetchPending) => {
+      const key = keyOf(address, chainId);
+      let onChain: number | undefined;
+      try {
+        onChain = await fetchPending();
+      } catch (e) {
+        // Offline: continue from local state if there is any
+        if (!states.has(key)) throw e;
+      }
+
+      const state: NonceState = states.get(key) || { address: address.toLowerCase(), chainId, next: onChain!, pending: [], released: [], updatedAt: 0 };
+      let { next, pending, released } = state;
+      if (onChain !== undefined) {
+        // Nonces below the pending count are used on chain, whatever we thought of them
+        pending = pending.filter(n => n >= onChain!);
+        released = released.filter(n => n >= onChain!);
+        next = Math.max(next, onChain);
+      }
+
+      let nonce: number;
+      if (released.length > 0) {
+        nonce = Math.min(...released);
+        released = without(released, nonce);
+      } else {
+        nonce = next++;
+      }
+      states.set(key, { ...state, next, pending: [...pending, nonce].sort((a, b) => a - b), released, updatedAt: Date.now() });
+      onChange?.([...states.values()]);
+      return nonce;
+    },
+
+    markUsed: (address, chainId, nonce) => {
+      const key = keyOf(address, chainId);
+      if (!states.has(key)) {
+        states.set(key, { address: address.toLowerCase(), chainId, next: nonce + 1, pending: [], released: [], updatedAt: Date.now() });
+        onChange?.([...states.values()]);
+        return;
+      }
+      update(address, chainId, s => ({ ...s, next: Math.max(s.next, nonce + 1), released: without(s.released, nonce) }));
+    },
+
+    confirm: (address, chainId, nonce) => {
+      // Also after a release: a rebroadcast of the same signed transaction can still succeed
+      update(address, chainId, s => {
+        let released = without(s.released, nonce);
+        // Nonces below it that trailing releases took off the counter are handed out again
+        for (let n = s.next; n < nonce; n++) released = [...released, n];
+        return { ...s, next: Math.max(s.next, nonce + 1), pending: without(s.pending, nonce), released: released.sort((a, b) => a - b) };
+      });
+    },
+
+    release: (address, chainId, nonce) => {
+      update(address, chainId, s => {
+        if (nonce >= s.next) return s;
+        let next = s.next;
+        let released = s.released.includes(nonce) ? s.released : [...s.released, nonce];
+        // Trailing releases shrink the counter instead of leaving gaps
+        while (released.includes(next - 1)) {
+          released = without(released, next - 1);
+          next--;
+        }
+        return { ...s, next, pending: without(s.pending, nonce), released: released.sort((a, b) => a - b) };
+      });
+    },
+
+    reset: (address, chainId) => {
+      update(address, chainId, () => null);
+    },
+
+    list: () => [...states.values()]
+  };
+};
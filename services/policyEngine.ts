@@ -0,0 +1,302 @@
+import { ethers } from 'ethers';
+import { ApiRequest, WalletData, SigningPolicy } from '../types';
+import { matchesLabel } from './apiKeys';
+import { PolicyViolationError } from './errors';
+import { callCounterparties, callMovesTokens } from './txDecoder';
+import { computeIntegrityMac, verifyIntegrityMac } from './cryptoService';
+
+// Declarative signing policies. Evaluated by the request engine after the target wallet is
+// resolved and before its key is decrypted, so a denied request never touches key material.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Browser persistence of the spend ledger; the RPC server keeps it next to the vault file.
+export const SPEND_STORAGE_KEY = 'falconvault_v1_spend';
+
+export interface SpendRecord {
+  walletId: string;
+  chainId: number;
+  value: string; // Wei
+  timestamp: number;
+  nonce?: number; // Replacements of one transaction share it and count once, at their highest value
+}
+
+export interface SpendLedgerState {
+  records: SpendRecord[];
+  blockedUntil?: number; // History could not be verified: daily limits deny any value until then
+}
+
+// Persisted form, authenticated with the vault's integrity key like the store itself
+export interface SealedSpendLedger extends SpendLedgerState {
+  mac: string;
+}
+
+// Rolling record of signed transaction values, backing the maxValuePerDay rule.
+export interface SpendLedger {
+  /** Total booked since `since`, leaving out the bookings for `exceptNonce` if given. */
+  spentSince: (walletId: string, chainId: number, since: number, exceptNonce?: number) => bigint;
+  /** Books a spend. Returns a function that takes the booking back again. */
+  record: (entry: SpendRecord) => () => void;
+  blockedUntil: () => number | undefined;
+  state: () => SpendLedgerState;
+}
+
+/**
+ * In-memory ledger seeded with persisted state. `onChange` receives the pruned state after
+ * every write so the caller can seal and persist it.
+ */
+export const createSpendLedger = (initial: SpendLedgerState, onChange?: (state: SpendLedgerState) => void): SpendLedger => {
+  let records = initial.records.filter(r => r && typeof r.value === 'string');
+  const { blockedUntil } = initial;
+  const state = (): SpendLedgerState => ({ records, ...(blockedUntil !== undefined ? { blockedUntil } : {}) });
+  return {
+    spentSince: (walletId, chainId, since, exceptNonce) => {
+      let total = 0n;
+      const byNonce = new Map<number, bigint>();
+      for (const r of records) {
+        if (r.walletId !== walletId || r.chainId !== chainId || r.timestamp < since) continue;
+        if (r.nonce === undefined) {
+          total += BigInt(r.value);
+        } else if (r.nonce !== exceptNonce) {
+          const value = BigInt(r.value);
+          if (value > (byNonce.get(r.nonce) ?? 0n)) byNonce.set(r.nonce, value);
+        }
+      }
+      for (const value of byNonce.values()) total += value;
+      return total;
+    },
+    record: (entry) => {
+      const cutoff = entry.timestamp - DAY_MS;
+      records = [...records.filter(r => r.timestamp >= cutoff), entry];
+      onChange?.(state());
+      return () => {
+        if (!records.includes(entry)) return;
+        records = records.filter(r => r !== entry);
+        onChange?.(state());
+      };
+    },
+    blockedUntil: () => blockedUntil,
+    state
+  };
+};
+
+// Tagged so a ledger mac can never pass for a store mac made with the same key
+const sealedContent = (state: SpendLedgerState) => ({ ledger: 'spend', records: state.records, blockedUntil: state.blockedUntil });
+
+export const sealSpendLedger = async (state: SpendLedgerState, integrityKey: CryptoKey): Promise<SealedSpendLedger> =>
+  ({ ...state, mac: await computeIntegrityMac(sealedContent(state), integrityKey) });
+
+/**
+ * Verifies a persisted ledger (already JSON-parsed; undefined when there is none). A missing,
+ * unreadable or altered ledger cannot tell what was signed in the last 24h, so it opens empty
+ * with daily limits blocked for a full day; `problem` says why.
+ */
+export const openSpendLedger = async (
+  persisted: unknown,
+  integrityKey: CryptoKey,
+  now: number = Date.now()
+): Promise<{ state: SpendLedgerState; problem?: string }> => {
+  const blocked = (problem: string) => ({ state: { records: [], blockedUntil: now + DAY_MS }, problem });
+  if (persisted === undefined || persisted === null) return blocked('missing');
+
+  const sealed = persisted as Partial<SealedSpendLedger>;
+  if (!Array.isArray(sealed.records) || typeof sealed.mac !== 'string') return blocked('unreadable or not authenticated');
+  const state: SpendLedgerState = { records: sealed.records, ...(typeof sealed.blockedUntil === 'number' ? { blockedUntil: sealed.blockedUntil } : {}) };
+  let valid = false;
+  try {
+    valid = await verifyIntegrityMac(sealedContent(state), sealed.mac, integrityKey);
+  } catch (e) {
+    // Treated like a wrong mac
+  }
+  return valid ? { state } : blocked('failed its integrity check');
+};
+
+export const policyAppliesTo = (policy: SigningPolicy, walletLabel: string): boolean =>
+  policy.enabled && (policy.walletLabels.length === 0 || policy.walletLabels.some(p => matchesLabel(p, walletLabel)));
+
+const toBigInt = (value: any): bigint => {
+  if (value === undefined || value === null || value === '') return 0n;
+  return ethers.getBigInt(value);
+};
+
+const toChainId = (value: any): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  return Number(ethers.getBigInt(value));
+};
+
+// personal_sign payloads may be hex-encoded; patterns are matched against both forms.
+const messageTexts = (message: any): string[] => {
+  const raw = typeof message === 'string' ? message : JSON.stringify(message ?? '');
+  if (!ethers.isHexString(raw)) return [raw];
+  try {
+    return [raw, ethers.toUtf8String(raw)];
+  } catch (e) {
+    return [raw];
+  }
+};
+
+/** Value (wei), chain and nonce of a transaction request, used for the spend ledger. */
+export const transactionSpend = (request: ApiRequest): { value: bigint; chainId: number; nonce?: number } => {
+  const nonce = request.payload?.nonce;
+  return {
+    value: toBigInt(request.payload?.value),
+    chainId: toChainId(request.payload?.chainId) ?? 0,
+    ...(nonce !== undefined && nonce !== null && nonce !== '' ? { nonce: Number(ethers.getBigInt(nonce)) } : {})
+  };
+};
+
+// Top-level fields of an EIP-712 message that receive tokens or an allowance
+const TYPED_DATA_COUNTERPARTIES = ['spender', 'operator', 'to', 'recipient'];
+
+// A zero-value self-transfer without calldata moves nothing; it is how a pending transaction
+// is cancelled, so the recipient allowlist doesn't apply to it.
+const isCancellation = (tx: any, wallet: WalletData): boolean =>
+  typeof tx.to === 'string' && tx.to.toLowerCase() === wallet.address.toLowerCase()
+    && toBigInt(tx.value) === 0n && (tx.data === undefined || tx.data === null || tx.data === '0x' || tx.data === '');
+
+/**
+ * Checks a signing request against every enabled policy that applies to the wallet.
+ * Throws a PolicyViolationError naming the first rule that fired.
+ */
+export const evaluatePolicies = (
+  request: ApiRequest,
+  wallet: WalletData,
+  policies: SigningPolicy[],
+  ledger?: SpendLedger,
+  now: number = Date.now()
+): void => {
+  for (const policy of policies.filter(p => policyAppliesTo(p, wallet.name))) {
+    const deny = (code: string, rule: keyof SigningPolicy, message: string): never => {
+      throw new PolicyViolationError(code, `Policy '${policy.name}' denied the request: ${message}`, { id: policy.id, name: policy.name, rule });
+    };
+    const allowedRecipients = policy.allowedRecipients?.length ? policy.allowedRecipients.map(a => a.toLowerCase()) : undefined;
+    const allowedChainIds = policy.allowedChainIds?.length ? policy.allowedChainIds : undefined;
+
+    if (request.type === 'eth_signTransaction') {
+      const tx = request.payload || {};
+      const chainId = toChainId(tx.chainId);
+      if (allowedChainIds && (chainId === undefined || !allowedChainIds.includes(chainId))) {
+        deny('POLICY_CHAIN_NOT_ALLOWED', 'allowedChainIds', chainId === undefined ? 'transaction has no chainId' : `chain ${chainId} is not allowed`);
+      }
+
+      // The transaction's `to` and, for known token and multicall methods, every address the
+      // calldata sends tokens to or approves, so an allowlisted token contract isn't a way out
+      if (allowedRecipients && !isCancellation(tx, wallet)) {
+        if (!tx.to) deny('POLICY_RECIPIENT_NOT_ALLOWED', 'allowedRecipients', 'contract deployment is not allowed');
+        if (!allowedRecipients.includes(String(tx.to).toLowerCase())) {
+          deny('POLICY_RECIPIENT_NOT_ALLOWED', 'allowedRecipients', `recipient ${tx.to} is not allowlisted`);
+        }
+        let counterparties: string[] = [];
+        try {
+          counterparties = callCounterparties(String(tx.to), typeof tx.data === 'string' ? tx.data : '0x');
+        } catch (e) {
+          deny('POLICY_RECIPIENT_NOT_ALLOWED', 'allowedRecipients', 'calldata could not be decoded to check its recipients');
+        }
+        const outside = counterparties.find(a => !allowedRecipients.includes(a.toLowerCase()));
+        if (outside) {
+          deny('POLICY_RECIPIENT_NOT_ALLOWED', 'allowedRecipients', `calldata sends to or approves ${outside}, which is not allowlisted`);
+        }
+      }
+
+      if (policy.allowedSelectors?.length) {
+        const data = typeof tx.data === 'string' ? tx.data.toLowerCase() : '0x';
+        if (data !== '0x' && data !== '') {
+          const selector = data.slice(0, 10);
+          if (data.length < 10 || !policy.allowedSelectors.some(s => s.toLowerCase() === selector)) {
+            deny('POLICY_SELECTOR_NOT_ALLOWED', 'allowedSelectors', `function selector ${selector} is not allowed`);
+          }
+        }
+      }
+
+      // Value limits count the native asset only; rather than let tokens through unlimited,
+      // known token transfers and approvals are refused while a limit is set
+      const valueRule = policy.maxValuePerTx !== undefined ? 'maxValuePerTx' : policy.maxValuePerDay !== undefined ? 'maxValuePerDay' : undefined;
+      if (valueRule && tx.to && typeof tx.data === 'string' && tx.data !== '0x' && tx.data !== '') {
+        let movesTokens = true;
+        try {
+          movesTokens = callMovesTokens(String(tx.to), tx.data);
+        } catch (e) {
+          // Undecodable calldata of a known method counts as a token call
+        }
+        if (movesTokens) {
+          deny('POLICY_VALUE_LIMIT', valueRule, 'value limits cover the native asset only, so token transfers and approvals are not allowed');
+        }
+      }
+
+      const value = toBigInt(tx.value);
+      if (policy.maxValuePerTx !== undefined && value > BigInt(policy.maxValuePerTx)) {
+        deny('POLICY_VALUE_LIMIT', 'maxValuePerTx', `value ${ethers.formatEther(value)} ETH exceeds the per-transaction limit of ${ethers.formatEther(policy.maxValuePerTx)} ETH`);
+      }
+      if (policy.maxValuePerDay !== undefined && value > 0n) {
+        const blockedUntil = ledger?.blockedUntil();
+        if (blockedUntil !== undefined && now < blockedUntil) {
+          deny('POLICY_DAILY_LIMIT', 'maxValuePerDay', `the spend ledger could not be verified, so daily limits deny any value until ${new Date(blockedUntil).toISOString()}`);
+        }
+        // A replacement (same nonce) takes the place of what was booked for that nonce
+        const spent = ledger ? ledger.spentSince(wallet.id, chainId ?? 0, now - DAY_MS, transactionSpend(request).nonce) : 0n;
+        if (spent + value > BigInt(policy.maxValuePerDay)) {
+          deny('POLICY_DAILY_LIMIT', 'maxValuePerDay', `${ethers.formatEther(spent)} ETH already signed in the last 24h, daily limit is ${ethers.formatEther(policy.maxValuePerDay)} ETH`);
+        }
+      }
+    }
+
+    else if (request.type === 'eth_signTypedData') {
+      const domain = request.payload?.domain || {};
+      const chainId = toChainId(domain.chainId);
+      if (allowedChainIds && chainId !== undefined && !allowedChainIds.includes(chainId)) {
+        deny('POLICY_CHAIN_NOT_ALLOWED', 'allowedChainIds', `domain chain ${chainId} is not allowed`);
+      }
+      if (allowedRecipients && domain.verifyingContract && !allowedRecipients.includes(String(domain.verifyingContract).toLowerCase())) {
+        deny('POLICY_RECIPIENT_NOT_ALLOWED', 'allowedRecipients', `verifying contract ${domain.verifyingContract} is not allowlisted`);
+      }
+      // The spender of a Permit / Permit2, or whoever else the message hands tokens to
+      const message = request.payload?.value ?? request.payload?.message ?? {};
+      for (const field of TYPED_DATA_COUNTERPARTIES) {
+        const address = message[field];
+        if (allowedRecipients && typeof address === 'string' && ethers.isAddress(address) && !allowedRecipients.includes(address.toLowerCase())) {
+          deny('POLICY_RECIPIENT_NOT_ALLOWED', 'allowedRecipients', `${field} ${address} is not allowlisted`);
+        }
+      }
+    }
+
+    else if (request.type === 'personal_sign') {
+      const texts = messageTexts(request.payload);
+      for (const pattern of policy.blockedMessagePatterns || []) {
+        let regex: RegExp;
+        try {
+          regex = new RegExp(pattern, 'i');
+        } catch (e) {
+          deny('POLICY_MESSAGE_BLOCKED', 'blockedMessagePatterns', `pattern /${pattern}/ is invalid`);
+        }
+        if (texts.some(t => regex.test(t))) {
+          deny('POLICY_MESSAGE_BLOCKED', 'blockedMessagePatterns', `message matches blocked pattern /${pattern}/`);
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Checks a transaction request against the policies and books its value in the ledger in the
+ * same synchronous step, so concurrent signings for one wallet cannot all pass maxValuePerDay
+ * on the same spent total. Returns a function that takes the booking back if the transaction
+ * ends up not being signed.
+ */
+export const authorizeTransaction = (
+  request: ApiRequest,
+  wallet: WalletData,
+  policies: SigningPolicy[],
+  ledger?: SpendLedger,
+  now: number = Date.now()
+): (() => void) => {
+  evaluatePolicies(request, wallet, policies, ledger, now);
+  const spend = transactionSpend(request);
+  if (!ledger || spend.value === 0n) return () => {};
+  return ledger.record({
+    walletId: wallet.id,
+    chainId: spend.chainId,
+    value: spend.value.toString(),
+    timestamp: now,
+    ...(spend.nonce !== undefined ? { nonce: spend.nonce } : {})
+  });
+};
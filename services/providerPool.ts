@@ -0,0 +1,235 @@
+import { ethers } from 'ethers';
+import { getNetwork, listNetworks } from './networkRegistry';
+import { RequestError } from './errors';
+
+// Long-lived providers for every configured RPC endpoint. Each endpoint keeps a latency and error
+// score; calls go to the best-scoring endpoint first and fail over to the next. An endpoint that
+// keeps failing trips its circuit breaker and is skipped until a cool-down has passed, after
+// which a single trial call decides whether it is used again. Before its first call, and again
+// after any failure, an endpoint has to report the chain ID its network is registered with.
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface EndpointHealth {
+  network: string;
+  url: string;
+  priority: number; // Position in the network's RPC list, 0 first
+  circuit: CircuitState;
+  latencyMs?: number; // Moving average of successful round trips
+  errorRate: number; // Moving average, 0..1
+  successes: number;
+  failures: number;
+  lastError?: string;
+  lastUsedAt?: number;
+  retryAt?: number; // While open: when the next trial call is allowed
+}
+
+// Uniform per-request timeout for every RPC call
+export const RPC_TIMEOUT_MS = 10000;
+const FAILURE_THRESHOLD = 3; // Consecutive failures that open the circuit
+const OPEN_MS = 30000;
+const SMOOTHING = 0.3; // Weight of the newest sample in the moving averages
+// A lower-priority endpoint has to be this much faster (ms) per step before it is preferred
+const PRIORITY_WEIGHT_MS = 250;
+
+interface Endpoint {
+  url: string;
+  chainId: number;
+  provider: ethers.JsonRpcProvider;
+  latencyMs?: number;
+  errorRate: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  circuit: CircuitState;
+  retryAt?: number;
+  trialInFlight: boolean;
+  chainVerified: boolean; // eth_chainId matched since the last failure
+  lastError?: string;
+  lastUsedAt?: number;
+}
+
+// Times every HTTP round trip, so a callback making several requests doesn't skew the latency
+class TimedProvider extends ethers.JsonRpcProvider {
+  constructor(url: string, chainId: number, private onRoundTrip: (ms: number) => void) {
+    const request = new ethers.FetchRequest(url);
+    request.timeout = RPC_TIMEOUT_MS;
+    // Static, since ethers' own network detection retries forever on a dead URL; the pool
+    // checks the served chain itself (see verifyChain)
+    super(request, chainId, { staticNetwork: true });
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const started = Date.now();
+    const result = await super._send(payload);
+    this.onRoundTrip(Date.now() - started);
+    return result;
+  }
+}
+
+const endpoints = new Map<string, Endpoint>();
+
+const endpointFor = (url: string, chainId: number): Endpoint => {
+  const cacheKey = `${chainId}:${url}`;
+  let endpoint = endpoints.get(cacheKey);
+  if (!endpoint) {
+    const created: Endpoint = {
+      url,
+      chainId,
+      provider: new TimedProvider(url, chainId, ms => {
+        created.latencyMs = created.latencyMs === undefined ? ms : created.latencyMs * (1 - SMOOTHING) + ms * SMOOTHING;
+      }),
+      errorRate: 0,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      circuit: 'closed',
+      trialInFlight: false,
+      chainVerified: false
+    };
+    endpoints.set(cacheKey, created);
+    endpoint = created;
+  }
+  return endpoint;
+};
+
+const recordSuccess = (endpoint: Endpoint) => {
+  endpoint.successes++;
+  endpoint.consecutiveFailures = 0;
+  endpoint.errorRate *= 1 - SMOOTHING;
+  endpoint.circuit = 'closed';
+  endpoint.retryAt = undefined;
+  endpoint.lastUsedAt = Date.now();
+};
+
+const isWrongChain = (error: any): boolean => error instanceof RequestError && error.code === 'CHAIN_MISMATCH';
+
+const recordFailure = (endpoint: Endpoint, error: any) => {
+  endpoint.failures++;
+  endpoint.consecutiveFailures++;
+  endpoint.errorRate = endpoint.errorRate * (1 - SMOOTHING) + SMOOTHING;
+  endpoint.lastError = error?.shortMessage || error?.message || String(error);
+  endpoint.lastUsedAt = Date.now();
+  endpoint.chainVerified = false;
+  // A wrong chain or a failed trial opens at once; otherwise only repeated failures do
+  if (isWrongChain(error) || endpoint.circuit === 'half-open' || endpoint.consecutiveFailures >= FAILURE_THRESHOLD) {
+    endpoint.circuit = 'open';
+    endpoint.retryAt = Date.now() + OPEN_MS;
+  }
+};
+
+// Throws CHAIN_MISMATCH when the endpoint serves another chain than its network is registered with
+const verifyChain = async (endpoint: Endpoint) => {
+  if (endpoint.chainVerified) return;
+  const served = Number(await endpoint.provider.send('eth_chainId', []));
+  if (served !== endpoint.chainId) {
+    throw new RequestError('CHAIN_MISMATCH', `RPC endpoint serves chain ${served}, expected ${endpoint.chainId}`);
+  }
+  endpoint.chainVerified = true;
+};
+
+// Errors in which the node answered the request. The call is not retried elsewhere, since
+// every node would give the same answer, and the endpoint counts as healthy.
+const NODE_ANSWERS = ['CALL_EXCEPTION', 'INSUFFICIENT_FUNDS', 'NONCE_EXPIRED', 'REPLACEMENT_UNDERPRICED', 'TRANSACTION_REPLACED', 'INVALID_ARGUMENT'] as const;
+
+const isNodeAnswer = (error: any): boolean => NODE_ANSWERS.some(code => ethers.isError(error, code));
+
+// Expected cost of a call in ms: the round trip, plus a timeout for the share of calls that fail
+const score = (endpoint: Endpoint, priority: number): number =>
+  (endpoint.latencyMs ?? 0) + endpoint.errorRate * RPC_TIMEOUT_MS + priority * PRIORITY_WEIGHT_MS;
+
+// Closed circuits by score, then open ones whose cool-down is over as a single trial each
+const candidates = (networkKey: string): Endpoint[] => {
+  const network = getNetwork(networkKey);
+  if (!network) throw new Error(`Unsupported network key: ${networkKey}`);
+
+  const now = Date.now();
+  const pool = network.rpcUrls.map((url, priority) => ({ endpoint: endpointFor(url, network.chainId), priority }));
+  const closed = pool.filter(p => p.endpoint.circuit === 'closed')
+    .sort((a, b) => score(a.endpoint, a.priority) - score(b.endpoint, b.priority));
+  const trials = pool.filter(p => p.endpoint.circuit !== 'closed' && !p.endpoint.trialInFlight && (p.endpoint.retryAt ?? 0) <= now);
+  return [...closed, ...trials].map(p => p.endpoint);
+};
+
+/**
+ * Runs `callback` against the best endpoint of the network, failing over to the next one on
+ * transport errors, timeouts, server errors and endpoints serving the wrong chain. Node answers
+ * such as reverts are thrown as is.
+ */
+export const withProvider = async <T>(networkKey: string, callback: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> => {
+  const ordered = candidates(networkKey);
+  if (ordered.length === 0) throw new Error(`All RPC endpoints of ${networkKey} are failing; retrying after a cool-down`);
+
+  let lastError: any;
+  for (const endpoint of ordered) {
+    const trial = endpoint.circuit !== 'closed';
+    if (trial) {
+      endpoint.circuit = 'half-open';
+      endpoint.trialInFlight = true;
+    }
+    try {
+      await verifyChain(endpoint);
+      const result = await callback(endpoint.provider);
+      recordSuccess(endpoint);
+      return result;
+    } catch (e) {
+      if (isNodeAnswer(e)) {
+        recordSuccess(endpoint);
+        throw e;
+      }
+      recordFailure(endpoint, e);
+      lastError = e;
+      // Continue to next endpoint
+    } finally {
+      if (trial) endpoint.trialInFlight = false;
+    }
+  }
+  throw lastError;
+};
+
+const toHealth = (network: string, endpoint: Endpoint, priority: number): EndpointHealth => ({
+  network,
+  url: endpoint.url,
+  priority,
+  circuit: endpoint.circuit,
+  latencyMs: endpoint.latencyMs === undefined ? undefined : Math.round(endpoint.latencyMs),
+  errorRate: endpoint.errorRate,
+  successes: endpoint.successes,
+  failures: endpoint.failures,
+  lastError: endpoint.lastError,
+  lastUsedAt: endpoint.lastUsedAt,
+  retryAt: endpoint.retryAt
+});
+
+/** Current score card of every endpoint of every configured network, in registry order. */
+export const getEndpointHealth = (): EndpointHealth[] =>
+  listNetworks().flatMap(network => network.rpcUrls.map((url, priority) => toHealth(network.key, endpointFor(url, network.chainId), priority)));
+
+/**
+ * Checks the chain ID of every endpoint and sends it eth_blockNumber, recording the outcome, so
+ * idle endpoints get a score and open circuits past their cool-down get their trial. Open
+ * circuits still cooling down are not contacted.
+ */
+export const checkEndpoints = async (): Promise<EndpointHealth[]> => {
+  const now = Date.now();
+  await Promise.all(listNetworks().flatMap(network => network.rpcUrls.map(async url => {
+    const endpoint = endpointFor(url, network.chainId);
+    if (endpoint.circuit !== 'closed' && (endpoint.trialInFlight || (endpoint.retryAt ?? 0) > now)) return;
+    const trial = endpoint.circuit !== 'closed';
+    if (trial) {
+      endpoint.circuit = 'half-open';
+      endpoint.trialInFlight = true;
+    }
+    try {
+      endpoint.chainVerified = false;
+      await verifyChain(endpoint);
+      await endpoint.provider.send('eth_blockNumber', []);
+      recordSuccess(endpoint);
+    } catch (e) {
+      recordFailure(endpoint, e);
+    } finally {
+      if (trial) endpoint.trialInFlight = false;
+    }
+  })));
+  return getEndpointHealth();
+};
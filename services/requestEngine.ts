@@ -0,0 +1,383 @@
+import { ethers } from 'ethers';
+import { WalletData, WalletMetadata, SeedData, ApiRequest, ServiceResponse, ApiKey, SigningPolicy, FeeSettings, OperationType, RegisteredToken } from '../types';
+import { decryptData, encryptData, signMessage, signTransaction, signTypedData, ethCall, estimateGas, createWalletFromKey, populateTransaction, isTransactionComplete } from './cryptoService';
+import { fetchBalance } from './balanceScanner';
+import { logger } from './systemLogger';
+import { authorizeRequest, isWalletAllowed } from './apiKeys';
+import { RequestError, PolicyViolationError } from './errors';
+import { resolveDerivedWallet } from './hdWallets';
+import { generateWallets } from './walletGenerator';
+import { evaluatePolicies, authorizeTransaction, SpendLedger } from './policyEngine';
+import { decodeTransaction } from './txDecoder';
+import { normalizeTypedData, reviewTypedData } from './typedDataReview';
+import { NonceManager } from './nonceManager';
+import { TransactionStore, trackSignedTransaction, broadcastAndTrack } from './txStore';
+import { buildReplacement } from './txReplacement';
+
+// UI-independent dispatcher for ApiRequest -> ServiceResponse.
+// Used by the SignerTool console in the browser and by the headless RPC server.
+
+export interface EngineContext {
+  wallets: WalletData[];
+  seeds?: SeedData[]; // Needed to resolve derivationPath/derivationIndex requests
+  dataKey: CryptoKey; // Vault data key, wallet keys are encrypted under it
+  onAddWallets: (wallets: WalletData[]) => void | Promise<void>;
+  trace?: (message: string) => void; // Per-request debug audit
+  apiKey?: ApiKey; // Set for remote callers; the local console is trusted
+  policies?: SigningPolicy[]; // Apply to every caller, including the local console
+  spendLedger?: SpendLedger; // Backs maxValuePerDay; without it only the current request counts
+  fees?: FeeSettings; // Used when transaction fees are filled in from the network
+  nonces?: NonceManager; // Hands out nonces locally so back-to-back signing doesn't reuse one
+  transactions?: TransactionStore; // History of signed and broadcast transactions
+  tokens?: RegisteredToken[]; // The vault's token registry, named in transaction previews
+}
+
+const READ_ONLY_OPERATIONS = ['eth_getBalance', 'eth_call', 'eth_estimateGas', 'eth_sendRawTransaction'];
+const REPLACEMENT_OPERATIONS = ['vault_speedUpTransaction', 'vault_cancelTransaction'];
+
+// Operations that need a payload, and the JSON types it may have
+const PAYLOAD_TYPES: Partial<Record<OperationType, string[]>> = {
+  personal_sign: ['string'],
+  eth_signTransaction: ['object'],
+  eth_signTypedData: ['object', 'string'],
+  eth_call: ['object'],
+  eth_estimateGas: ['object'],
+  eth_sendRawTransaction: ['object'],
+  vault_importPrivateKey: ['object'],
+  vault_speedUpTransaction: ['object'],
+  vault_cancelTransaction: ['object']
+};
+
+const validatePayload = (request: ApiRequest) => {
+  const allowed = PAYLOAD_TYPES[request.type];
+  if (!allowed) return;
+  const actual = request.payload === null || request.payload === undefined ? 'missing' : typeof request.payload;
+  if (!allowed.includes(actual)) {
+    throw new RequestError('INVALID_REQUEST', `${request.type} requires a payload of type ${allowed.join(' or ')}, got ${actual}`);
+  }
+};
+
+// Resolves the wallet a request acts on, by label or by HD derivation path/index. Remote
+// callers are re-checked against the resolved label, which path-based requests don't carry.
+const resolveWallet = (request: ApiRequest, ctx: EngineContext): WalletData | undefined => {
+  const wallet = request.walletLabel !== undefined
+    ? ctx.wallets.find(w => w.name === request.walletLabel)
+    : resolveDerivedWallet(request, ctx.wallets, ctx.seeds || []);
+  if (wallet && ctx.apiKey && !isWalletAllowed(ctx.apiKey, wallet.name)) {
+    throw new RequestError('FORBIDDEN_WALLET', `API key '${ctx.apiKey.name}' has no access to wallet '${wallet.name}'`);
+  }
+  return wallet;
+};
+
+const describeTarget = (request: ApiRequest): string => {
+  if (request.walletLabel !== undefined) return request.walletLabel;
+  return request.derivationPath ?? `index ${request.derivationIndex}`;
+};
+
+const handleVaultRequest = async (request: ApiRequest, ctx: EngineContext): Promise<ServiceResponse> => {
+  const { wallets, dataKey, apiKey } = ctx;
+
+  if (request.type === 'vault_listWallets') {
+     const visible = apiKey ? wallets.filter(w => isWalletAllowed(apiKey, w.name)) : wallets;
+     return {
+         status: 'success',
+         operation: request.type,
+         wallets: visible.map(w => ({ label: w.name, address: w.address, derivationPath: w.derivationPath }))
+     };
+  }
+
+  if (request.type === 'vault_getAddress') {
+     const w = resolveWallet(request, ctx);
+     if (!w) throw new Error(`Wallet not found: ${describeTarget(request)}`);
+     return {
+         status: 'success',
+         operation: request.type,
+         walletLabel: w.name,
+         address: w.address
+     };
+  }
+
+  if (request.type === 'vault_importPrivateKey') {
+      if (!request.payload?.label || !request.payload?.privateKey) {
+          throw new Error("Import requires 'label' and 'privateKey' in payload");
+      }
+      const label = request.payload.label;
+      if (wallets.some(w => w.name === label)) throw new Error(`Wallet label '${label}' already exists`);
+
+      const { address, valid } = createWalletFromKey(request.payload.privateKey);
+      if (!valid) throw new Error("Invalid Private Key");
+
+      const encrypted = await encryptData(request.payload.privateKey, dataKey);
+      const newWallet: WalletData = {
+          id: crypto.randomUUID(),
+          name: label,
+          address,
+          encryptedPrivateKey: encrypted,
+          createdAt: Date.now(),
+          metadata: { notes: 'Imported via API' }
+      };
+
+      await ctx.onAddWallets([newWallet]);
+
+      return {
+          status: 'success',
+          operation: request.type,
+          walletId: newWallet.id,
+          address: newWallet.address,
+          walletLabel: newWallet.name
+      };
+  }
+
+  if (request.type === 'vault_createWallet') {
+      const { count = 1, labelPrefix, metadata } = request.payload || {};
+      if (typeof labelPrefix !== 'string') throw new Error("vault_createWallet requires 'labelPrefix' in payload");
+
+      const extra = Object.fromEntries(Object.entries(metadata || {}).filter(([, v]) => typeof v === 'string')) as WalletMetadata;
+      const created = await generateWallets(Number(count), labelPrefix, dataKey, wallets, { notes: 'Generated via API', ...extra });
+      const denied = apiKey && created.find(w => !isWalletAllowed(apiKey, w.name));
+      if (denied) {
+          throw new RequestError('FORBIDDEN_WALLET', `API key '${apiKey!.name}' has no access to wallet '${denied.name}'`);
+      }
+
+      await ctx.onAddWallets(created);
+
+      return {
+          status: 'success',
+          operation: request.type,
+          wallets: created.map(w => ({ label: w.name, address: w.address }))
+      };
+  }
+
+  if (request.type === 'vault_getTransactions') {
+      const { network, status, limit } = request.payload || {};
+      const targeted = request.walletLabel !== undefined || request.derivationPath !== undefined || request.derivationIndex !== undefined;
+      const target = targeted ? resolveWallet(request, ctx) : undefined;
+      if (targeted && !target) throw new Error(`Wallet not found: ${describeTarget(request)}`);
+
+      // Remote callers only see transactions of wallets their key covers
+      const visible = (ctx.transactions?.list({ walletId: target?.id, network, status }) || []).filter(tx => {
+          if (!apiKey) return true;
+          const wallet = wallets.find(w => w.id === tx.walletId);
+          return wallet !== undefined && isWalletAllowed(apiKey, wallet.name);
+      });
+      return {
+          status: 'success',
+          operation: request.type,
+          transactions: limit !== undefined ? visible.slice(0, Number(limit)) : visible
+      };
+  }
+
+  throw new Error("Unknown vault method");
+};
+
+const handleRpcRequest = async (request: ApiRequest, ctx: EngineContext): Promise<ServiceResponse> => {
+  const trace = ctx.trace || (() => {});
+  const network = request.network || 'mainnet';
+  trace(`Executing Read-Only/RPC Op on ${network}...`);
+
+  const response: ServiceResponse = { status: 'success', operation: request.type };
+
+  if (request.type === 'eth_getBalance') {
+      const addr = request.address || request.payload?.address;
+      if (!addr) throw new Error("Missing 'address'");
+      const bal = await fetchBalance(addr, network);
+      if (bal === 'Error') throw new Error("RPC Error fetching balance");
+      response.balance_wei = bal.wei.toString();
+      response.balance_eth = bal.eth;
+  }
+  else if (request.type === 'eth_call') {
+      if (!request.payload) throw new Error("Missing payload");
+      response.result = await ethCall(request.payload, network);
+  }
+  else if (request.type === 'eth_estimateGas') {
+      if (!request.payload) throw new Error("Missing payload");
+      const gas = await estimateGas(request.payload, network);
+      response.gas = gas.toString();
+  }
+  else if (request.type === 'eth_sendRawTransaction') {
+      if (!request.payload?.raw) throw new Error("Missing payload.raw (hex string)");
+      response.txHash = await broadcastAndTrack(request.payload.raw, network, { wallets: ctx.wallets, nonces: ctx.nonces, transactions: ctx.transactions, tokens: ctx.tokens });
+  }
+
+  trace("RPC Operation Successful.");
+  return response;
+};
+
+// Review and signing, once the policies passed.
+const reviewAndSign = async (request: ApiRequest, targetWallet: WalletData, ctx: EngineContext): Promise<ServiceResponse> => {
+  const trace = ctx.trace || (() => {});
+
+  // Decoded before the key is decrypted, so RPC lookups never run with key material in memory.
+  const preview = request.type === 'eth_signTransaction' ? await decodeTransaction(request.payload, request.network, ctx.tokens) : undefined;
+  if (preview) {
+      trace(`Preview: ${preview.summary}`);
+      preview.risks.forEach(r => trace(`Risk [${r.level}] ${r.message}`));
+  }
+  const typedData = request.type === 'eth_signTypedData' ? reviewTypedData(request.payload, request.network) : undefined;
+  if (typedData) {
+      trace(`Typed data: ${typedData.kind ? `${typedData.kind} ` : ''}${typedData.primaryType}`);
+      typedData.risks.forEach(r => trace(`Risk [${r.level}] ${r.message}`));
+  }
+
+  trace(`Decrypting key for ${targetWallet.name}...`);
+  const privateKey = await decryptData(targetWallet.encryptedPrivateKey, ctx.dataKey);
+  trace("Decryption successful.");
+
+  const response: ServiceResponse = { status: 'success', operation: request.type, walletLabel: targetWallet.name };
+
+  if (request.type === 'personal_sign') {
+     trace("Signing message...");
+     response.signature = await signMessage(privateKey, request.payload);
+  }
+  else if (request.type === 'eth_signTransaction') {
+     trace("Signing transaction...");
+     const sig = await signTransaction(privateKey, request.payload);
+     response.signedTx = sig;
+     response.txHash = ethers.keccak256(sig);
+     response.preview = preview;
+     response.transaction = request.payload;
+     if (ctx.transactions) trackSignedTransaction(ctx.transactions, sig, targetWallet, preview?.summary);
+  }
+  else if (request.type === 'eth_signTypedData') {
+     trace("Signing typed data (EIP-712)...");
+     response.signature = await signTypedData(privateKey, request.payload);
+     response.typedData = typedData;
+  }
+  else {
+      throw new Error("Unsupported operation type");
+  }
+
+  trace("Signature generated successfully.");
+  logger.log(`Signed ${request.type} with ${targetWallet.name}`, 'success', 'Signer');
+  return response;
+};
+
+// Policy checks, review and signing, once the wallet is resolved and the payload normalized.
+const signWithWallet = async (request: ApiRequest, targetWallet: WalletData, ctx: EngineContext): Promise<ServiceResponse> => {
+  const trace = ctx.trace || (() => {});
+
+  // A transaction's value is booked together with the policy check, before anything is awaited,
+  // so concurrent requests for the wallet count each other; the booking is undone if signing fails.
+  let undoSpend = () => {};
+  if (request.type === 'eth_signTransaction') {
+      undoSpend = authorizeTransaction(request, targetWallet, ctx.policies || [], ctx.spendLedger);
+  } else if (ctx.policies?.length) {
+      evaluatePolicies(request, targetWallet, ctx.policies, ctx.spendLedger);
+  }
+  if (ctx.policies?.length) trace("Signing policies passed.");
+
+  try {
+      return await reviewAndSign(request, targetWallet, ctx);
+  } catch (err) {
+      undoSpend();
+      throw err;
+  }
+};
+
+const handleSignatureRequest = async (request: ApiRequest, ctx: EngineContext): Promise<ServiceResponse> => {
+  const trace = ctx.trace || (() => {});
+
+  const targetWallet = resolveWallet(request, ctx);
+  if (!targetWallet) {
+      throw new Error(`Operation ${request.type} requires a valid 'walletLabel', 'derivationPath' or 'derivationIndex' present in the vault.`);
+  }
+  trace(`Resolved wallet '${targetWallet.name}'${targetWallet.derivationPath ? ` (${targetWallet.derivationPath})` : ''}`);
+
+  let reservedNonce: number | undefined;
+
+  if (request.type === 'eth_signTypedData') {
+      request = { ...request, payload: normalizeTypedData(request.payload) };
+  }
+  if (request.type === 'eth_signTransaction') {
+      const tx = request.payload;
+      if (!tx || typeof tx !== 'object') throw new Error("eth_signTransaction requires a transaction object in payload");
+      if (tx.from && String(tx.from).toLowerCase() !== targetWallet.address.toLowerCase()) {
+          throw new Error(`Transaction 'from' ${tx.from} does not match wallet '${targetWallet.name}' (${targetWallet.address})`);
+      }
+      if (!isTransactionComplete(tx)) trace(`Filling in missing transaction fields from ${tx.chainId !== undefined ? `chain ${tx.chainId}` : request.network || 'network'}...`);
+      request = { ...request, payload: await populateTransaction(tx, targetWallet.address, request.network, ctx.fees, ctx.nonces) };
+      if (tx.nonce === undefined && ctx.nonces) {
+          reservedNonce = Number(request.payload.nonce);
+          trace(`Reserved nonce ${reservedNonce}`);
+      }
+  }
+
+  try {
+      const response = await signWithWallet(request, targetWallet, ctx);
+      if (request.type === 'eth_signTransaction' && reservedNonce === undefined) {
+          ctx.nonces?.markUsed(targetWallet.address, Number(request.payload.chainId), Number(request.payload.nonce));
+      }
+      return response;
+  } catch (err) {
+      if (reservedNonce !== undefined) {
+          ctx.nonces!.release(targetWallet.address, Number(request.payload.chainId), reservedNonce);
+          trace(`Released nonce ${reservedNonce}`);
+      }
+      throw err;
+  }
+};
+
+// Speed-up and cancel: signs a replacement for a pending transaction from the history through
+// the regular signing path (policies, preview, history) and broadcasts it.
+const handleReplacementRequest = async (request: ApiRequest, ctx: EngineContext): Promise<ServiceResponse> => {
+  const trace = ctx.trace || (() => {});
+  const hash = request.payload?.hash;
+  if (typeof hash !== 'string') throw new Error(`${request.type} requires 'hash' in payload`);
+  const original = ctx.transactions?.get(hash);
+  if (!original) throw new Error(`Transaction not found in history: ${hash}`);
+  const wallet = ctx.wallets.find(w => w.id === original.walletId);
+  if (!wallet) throw new Error(`Wallet of transaction ${hash} is no longer in the vault`);
+
+  // The replacement is a signing request of its own: the key needs the signing scope and the wallet
+  const signing: ApiRequest = { type: 'eth_signTransaction', walletLabel: wallet.name, network: original.network };
+  if (ctx.apiKey) authorizeRequest(ctx.apiKey, signing);
+
+  const kind = request.type === 'vault_cancelTransaction' ? 'cancel' : 'speedUp';
+  trace(`Building ${kind === 'cancel' ? 'cancellation' : 'speed-up'} for nonce ${original.nonce} on ${original.network}...`);
+  const replacement = await buildReplacement(original, kind, ctx.fees);
+
+  const signed = await handleSignatureRequest({ ...signing, payload: replacement }, ctx);
+  trace("Broadcasting replacement...");
+  const txHash = await broadcastAndTrack(signed.signedTx!, original.network!, { wallets: ctx.wallets, nonces: ctx.nonces, transactions: ctx.transactions, tokens: ctx.tokens });
+  ctx.transactions!.update(txHash, { replaces: original.hash, ...(kind === 'cancel' ? { summary: `Cancel: ${original.summary}` } : {}) });
+  ctx.transactions!.update(original.hash, { replacedBy: txHash });
+  logger.log(`${kind === 'cancel' ? 'Cancellation' : 'Speed-up'} of ${original.hash.slice(0, 10)}… broadcast as ${txHash.slice(0, 10)}…`, 'success', 'Signer');
+
+  return { ...signed, operation: request.type, txHash, replacedTxHash: original.hash };
+};
+
+/**
+ * Executes a single API request against an unlocked vault.
+ * Never throws: failures are reported as an error ServiceResponse.
+ */
+export const executeRequest = async (request: ApiRequest, ctx: EngineContext): Promise<ServiceResponse> => {
+  try {
+    if (!request || typeof request !== 'object' || Array.isArray(request) || typeof request.type !== 'string') {
+      throw new RequestError('INVALID_REQUEST', "Request must be a JSON object with a 'type' field.");
+    }
+    if (ctx.apiKey) {
+      authorizeRequest(ctx.apiKey, request);
+    }
+    validatePayload(request);
+
+    if (REPLACEMENT_OPERATIONS.includes(request.type)) {
+      return await handleReplacementRequest(request, ctx);
+    }
+    if (request.type.startsWith('vault_')) {
+      return await handleVaultRequest(request, ctx);
+    }
+    if (READ_ONLY_OPERATIONS.includes(request.type)) {
+      return await handleRpcRequest(request, ctx);
+    }
+    return await handleSignatureRequest(request, ctx);
+  } catch (err: any) {
+    ctx.trace?.(`Error: ${err.message}`);
+    logger.log(`Op failed: ${err.message}`, 'error', 'Signer');
+    return {
+        status: 'error',
+        code: err instanceof RequestError ? err.code : 'EXECUTION_ERROR',
+        error: err.message,
+        ...(err instanceof PolicyViolationError ? { policy: err.policy } : {})
+    };
+  }
+};
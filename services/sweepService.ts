@@ -0,0 +1,179 @@
+import { ethers } from 'ethers';
+import { WalletData, FeeSettings, RegisteredToken, SigningPolicy, ApiRequest } from '../types';
+import { createTransferTransaction, populateTransaction, fetchNativeBalance, fetchTokenBalance, fetchNonce, fetchL1Fee, decryptData, signTransaction } from './cryptoService';
+import { findToken } from './tokenRegistry';
+import { nativeSymbolFor } from './networkRegistry';
+import { NonceManager } from './nonceManager';
+import { TransactionStore, trackSignedTransaction, broadcastAndTrack } from './txStore';
+import { SpendLedger, authorizeTransaction } from './policyEngine';
+import { logger } from './systemLogger';
+
+// Consolidation of the native asset and registered tokens from many wallets. Each wallet is
+// planned from fresh balances right before it is swept; a dry run stops after planning. Token
+// transfers go first so the native sweep can leave exactly the gas they and the native transfer
+// itself may use. Every transfer is signed under the signing policies, like eth_signTransaction.
+
+export type SweepAsset = string; // The network's native symbol or the symbol of a registered token
+
+export interface SweepOptions {
+  network: string;
+  assets: SweepAsset[];
+  tokens: RegisteredToken[]; // The vault's token registry
+  destination?: string; // Common destination; fallback for wallets without a withdrawalAddress
+  useWithdrawalAddress: boolean; // Prefer each wallet's metadata.withdrawalAddress
+}
+
+export type SweepItemStatus = 'ready' | 'skipped' | 'sent' | 'failed';
+
+export interface SweepItem {
+  walletId: string;
+  walletLabel: string;
+  asset: SweepAsset;
+  to?: string;
+  amount?: string; // Human-readable, in the asset's units
+  maxFee?: string; // Native asset, gasLimit × max fee per gas plus the reserved L1 data fee
+  status: SweepItemStatus;
+  reason?: string; // Why the item was skipped or failed
+  txHash?: string;
+}
+
+export interface SweepExecution {
+  dataKey: CryptoKey;
+  wallets: WalletData[];
+  fees?: FeeSettings;
+  nonces?: NonceManager;
+  transactions?: TransactionStore;
+  policies?: SigningPolicy[];
+  spendLedger?: SpendLedger;
+}
+
+interface PlannedItem extends SweepItem {
+  tx?: Record<string, any>; // Populated transfer without a nonce, set when ready
+}
+
+export const resolveSweepDestination = (wallet: WalletData, options: SweepOptions): string | undefined => {
+  const own = options.useWithdrawalAddress ? wallet.metadata?.withdrawalAddress?.trim() : undefined;
+  return own || options.destination?.trim() || undefined;
+};
+
+// The L1 data fee follows the L1 base fee, which can move before inclusion; twice the quote is reserved
+const L1_FEE_RESERVE_FACTOR = 2n;
+
+const maxFeeOf = async (tx: Record<string, any>, network: string): Promise<bigint> =>
+  ethers.getBigInt(tx.gasLimit) * ethers.getBigInt(tx.maxFeePerGas ?? tx.gasPrice)
+    + await fetchL1Fee(tx, network) * L1_FEE_RESERVE_FACTOR;
+
+const planWallet = async (wallet: WalletData, options: SweepOptions, fees?: FeeSettings): Promise<PlannedItem[]> => {
+  const base = { walletId: wallet.id, walletLabel: wallet.name };
+  const to = resolveSweepDestination(wallet, options);
+  const problem = !to ? 'No withdrawal address or destination'
+    : !ethers.isAddress(to) ? `Invalid destination ${to}`
+    : to.toLowerCase() === wallet.address.toLowerCase() ? 'Destination is the wallet itself'
+    : undefined;
+  if (problem) return options.assets.map(asset => ({ ...base, asset, to, status: 'skipped', reason: problem }));
+
+  const native = nativeSymbolFor(options.network);
+  const items: PlannedItem[] = [];
+  let nativeAvailable = await fetchNativeBalance(wallet.address, options.network);
+
+  for (const asset of options.assets.filter(a => a !== native)) {
+    const token = findToken(options.tokens, options.network, asset);
+    if (!token) {
+      items.push({ ...base, asset, to, status: 'skipped', reason: `${asset} not registered for ${options.network}` });
+      continue;
+    }
+    const balance = await fetchTokenBalance(token.address, wallet.address, options.network);
+    if (balance === 0n) {
+      items.push({ ...base, asset, to, amount: '0', status: 'skipped', reason: 'No balance' });
+      continue;
+    }
+    const amount = ethers.formatUnits(balance, token.decimals);
+    const tx = await populateTransaction(await createTransferTransaction(to!, amount, token), wallet.address, options.network, fees);
+    const { nonce, ...unsigned } = tx;
+    const maxFee = await maxFeeOf(tx, options.network);
+    if (maxFee > nativeAvailable) {
+      items.push({ ...base, asset, to, amount, maxFee: ethers.formatEther(maxFee), status: 'skipped', reason: `Not enough ${native} for gas` });
+      continue;
+    }
+    nativeAvailable -= maxFee;
+    items.push({ ...base, asset, to, amount, maxFee: ethers.formatEther(maxFee), status: 'ready', tx: unsigned });
+  }
+
+  if (options.assets.includes(native)) {
+    if (nativeAvailable === 0n) {
+      items.push({ ...base, asset: native, to, amount: '0', status: 'skipped', reason: 'No balance' });
+    } else {
+      // Gas is the same whatever the value, so price the transfer with a placeholder amount
+      const tx = await populateTransaction({ to, value: 0n, data: '0x' }, wallet.address, options.network, fees);
+      const { nonce, ...unsigned } = tx;
+      // With the tip at the max fee, the gas price paid is exactly maxFeePerGas whatever the base
+      // fee, so a plain transfer (gasLimit 21000) spends the fee in full and leaves no dust
+      if (unsigned.maxFeePerGas !== undefined) unsigned.maxPriorityFeePerGas = unsigned.maxFeePerGas;
+      const maxFee = await maxFeeOf(unsigned, options.network);
+      const value = nativeAvailable - maxFee;
+      if (value <= 0n) {
+        items.push({ ...base, asset: native, to, maxFee: ethers.formatEther(maxFee), status: 'skipped', reason: 'Balance does not cover gas' });
+      } else {
+        items.push({ ...base, asset: native, to, amount: ethers.formatEther(value), maxFee: ethers.formatEther(maxFee), status: 'ready', tx: { ...unsigned, value: value.toString() } });
+      }
+    }
+  }
+  return items;
+};
+
+const publicItem = ({ tx, ...item }: PlannedItem): SweepItem => item;
+
+/**
+ * Plans one wallet's sweep and, unless `dryRun`, signs and broadcasts its ready items in order.
+ * Each transfer is checked against the policies and booked in the spend ledger before signing;
+ * a denied or failed item doesn't stop the others. Never throws: planning failures come back as
+ * failed items.
+ */
+export const sweepWallet = async (wallet: WalletData, options: SweepOptions, execution: SweepExecution, dryRun: boolean): Promise<SweepItem[]> => {
+  let items: PlannedItem[];
+  try {
+    items = await planWallet(wallet, options, execution.fees);
+  } catch (e: any) {
+    return options.assets.map(asset => ({ walletId: wallet.id, walletLabel: wallet.name, asset, status: 'failed', reason: e.shortMessage || e.message }));
+  }
+  if (dryRun || !items.some(i => i.status === 'ready')) return items.map(publicItem);
+
+  // Decrypted once the first transfer has passed the policies
+  let privateKey: string | undefined;
+  const results: SweepItem[] = [];
+  for (const item of items) {
+    if (item.status !== 'ready' || !item.tx) {
+      results.push(publicItem(item));
+      continue;
+    }
+    const chainId = Number(item.tx.chainId);
+    let nonce: number | undefined;
+    try {
+      nonce = execution.nonces
+        ? await execution.nonces.reserve(wallet.address, chainId, () => fetchNonce(wallet.address, options.network))
+        : await fetchNonce(wallet.address, options.network);
+      const request: ApiRequest = { type: 'eth_signTransaction', walletLabel: wallet.name, network: options.network, payload: { ...item.tx, nonce } };
+      const undoSpend = authorizeTransaction(request, wallet, execution.policies || [], execution.spendLedger);
+      let signed: string;
+      try {
+        privateKey ??= await decryptData(wallet.encryptedPrivateKey, execution.dataKey).catch(() => {
+          throw new Error('Could not decrypt wallet key');
+        });
+        signed = await signTransaction(privateKey, request.payload);
+      } catch (e) {
+        undoSpend();
+        throw e;
+      }
+      if (execution.transactions) trackSignedTransaction(execution.transactions, signed, wallet, `Sweep ${item.amount} ${item.asset} to ${item.to}`);
+      nonce = undefined; // From here on the broadcast reports the outcome to the nonce manager
+      const txHash = await broadcastAndTrack(signed, options.network, execution);
+      results.push({ ...publicItem(item), status: 'sent', txHash });
+      logger.log(`Swept ${item.amount} ${item.asset} from ${wallet.name} to ${item.to}`, 'success', 'Sweep');
+    } catch (e: any) {
+      if (nonce !== undefined) execution.nonces?.release(wallet.address, chainId, nonce);
+      results.push({ ...publicItem(item), status: 'failed', reason: e.shortMessage || e.message });
+      logger.log(`Sweep of ${item.asset} from ${wallet.name} failed: ${e.message}`, 'error', 'Sweep');
+    }
+  }
+  return results;
+};
@@ -0,0 +1,71 @@
+import { ethers } from 'ethers';
+import { RegisteredToken } from '../types';
+import { fetchTokenInfo } from './cryptoService';
+import { getNetwork, nativeSymbolFor } from './networkRegistry';
+
+// Per-network ERC-20 tokens the vault works with. The registry is part of the vault settings;
+// the defaults below seed new vaults and vaults saved before the registry existed.
+
+// Lowercased first: some of these were copied with a broken mixed-case checksum
+const stablecoin = (network: string, symbol: string, address: string): RegisteredToken =>
+  ({ network, symbol, address: ethers.getAddress(address.toLowerCase()), decimals: 6 });
+
+export const DEFAULT_TOKENS: RegisteredToken[] = [
+  stablecoin('mainnet', 'USDT', '0xdac17f958d2ee523a2206206994597c13d831ec7'),
+  stablecoin('mainnet', 'USDC', '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'),
+  stablecoin('arbitrum', 'USDT', '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9'),
+  stablecoin('arbitrum', 'USDC', '0xaf88d065e77c8cC2239327C5EDb3A432268e5831'),
+  stablecoin('optimism', 'USDT', '0x94b008aA00579c1307B0EF2c499aD98a8ce98748'),
+  stablecoin('optimism', 'USDC', '0x0b2C630C5307324423542016988782fC8f48345e'),
+  stablecoin('polygon', 'USDT', '0xc2132D05D31c914a87C6611C10748AEb04B58e8F'),
+  stablecoin('polygon', 'USDC', '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359'),
+  stablecoin('base', 'USDC', '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'),
+  stablecoin('zksync', 'USDC', '0x3355df6D4c9C3035724Fd0e3914dE96A5a83aaf4'),
+  stablecoin('linea', 'USDC', '0x176211869cA2b568f2A7D4EE941E073a821EE1ff')
+];
+
+// Symbols name assets in CSVs and sweeps, so they must stay one plain word
+const SYMBOL_PATTERN = /^[A-Za-z0-9.$_-]{1,16}$/;
+
+export const tokensFor = (tokens: RegisteredToken[], network: string): RegisteredToken[] =>
+  tokens.filter(t => t.network === network.toLowerCase());
+
+/** Finds a token on `network` by symbol (case-insensitive) or contract address. */
+export const findToken = (tokens: RegisteredToken[], network: string, symbolOrAddress: string): RegisteredToken | undefined => {
+  const key = symbolOrAddress.trim().toLowerCase();
+  return tokensFor(tokens, network).find(t => t.symbol.toLowerCase() === key || t.address.toLowerCase() === key);
+};
+
+/**
+ * Reads symbol and decimals from the contract. `symbol` overrides the on-chain one, e.g. to
+ * tell a bridged token from the native one. Throws when the contract is not an ERC-20 token.
+ */
+export const lookupToken = async (address: string, network: string, symbol?: string): Promise<RegisteredToken> => {
+  if (!ethers.isAddress(address)) throw new Error(`Invalid token address: ${address}`);
+  if (!getNetwork(network)) throw new Error(`Unsupported network key: ${network}`);
+
+  const info = await fetchTokenInfo(ethers.getAddress(address), network);
+  if (!info) throw new Error(`${address} does not implement ERC-20 decimals() on ${network}`);
+  return { network: network.toLowerCase(), address: info.address, symbol: symbol?.trim() || info.symbol, decimals: info.decimals };
+};
+
+/**
+ * Returns the registry with `token` added. Throws when its address or symbol is already registered
+ * on the network, or its symbol is the network's native one.
+ */
+export const addToken = (tokens: RegisteredToken[], token: RegisteredToken): RegisteredToken[] => {
+  if (!SYMBOL_PATTERN.test(token.symbol)) throw new Error(`Symbol "${token.symbol}" must be 1-16 letters, digits or . $ _ -`);
+  const native = nativeSymbolFor(token.network);
+  if (token.symbol.toUpperCase() === native.toUpperCase()) throw new Error(`${native} is the native asset of ${token.network}`);
+  const existing = tokensFor(tokens, token.network);
+  if (existing.some(t => t.address.toLowerCase() === token.address.toLowerCase())) {
+    throw new Error(`${token.address} is already registered on ${token.network}`);
+  }
+  if (existing.some(t => t.symbol.toLowerCase() === token.symbol.toLowerCase())) {
+    throw new Error(`A token with symbol ${token.symbol} is already registered on ${token.network}`);
+  }
+  return [...tokens, token];
+};
+
+export const removeToken = (tokens: RegisteredToken[], network: string, address: string): RegisteredToken[] =>
+  tokens.filter(t => !(t.network === network && t.address.toLowerCase() === address.toLowerCase()));
@@ -0,0 +1,339 @@
+import { ethers } from 'ethers';
+import { TransactionPreview, DecodedCall, DecodedArg, RiskFlag, TokenInfo, RegisteredToken } from '../types';
+import { fetchCode, fetchTokenInfo } from './cryptoService';
+import { getNetwork, getNetworkMetadata, nativeSymbolFor } from './networkRegistry';
+import { DEFAULT_TOKENS, tokensFor } from './tokenRegistry';
+
+// Turns a raw transaction request into a human-readable preview: known selectors are
+// decoded, token amounts formatted, and risky patterns flagged. On-chain lookups (contract
+// code, token symbol/decimals) are best-effort; the preview says when they were skipped.
+
+const LOOKUP_TIMEOUT_MS = 5000;
+const MAX_CALL_DEPTH = 3;
+// Wallets and dapps use MaxUint256 or values close to it for "infinite" approvals.
+const UNLIMITED_THRESHOLD = ethers.MaxUint256 / 2n;
+
+interface KnownMethod {
+  standard: NonNullable<DecodedCall['standard']>;
+  fragment: ethers.FunctionFragment;
+}
+
+// ERC20 approve/transferFrom share their selector with ERC721; the token lookup decides.
+// setApprovalForAll is shared by ERC721 and ERC1155.
+const KNOWN_METHODS: [KnownMethod['standard'], string][] = [
+  ['ERC20', 'transfer(address to, uint256 amount)'],
+  ['ERC20', 'approve(address spender, uint256 amount)'],
+  ['ERC20', 'transferFrom(address from, address to, uint256 amount)'],
+  ['ERC20', 'increaseAllowance(address spender, uint256 addedValue)'],
+  ['ERC20', 'permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)'],
+  ['ERC721', 'safeTransferFrom(address from, address to, uint256 tokenId)'],
+  ['ERC721', 'safeTransferFrom(address from, address to, uint256 tokenId, bytes data)'],
+  ['ERC721', 'setApprovalForAll(address operator, bool approved)'],
+  ['ERC1155', 'safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)'],
+  ['ERC1155', 'safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)'],
+  ['Multicall', 'multicall(bytes[] data)'],
+  ['Multicall', 'multicall(uint256 deadline, bytes[] data)'],
+  ['Multicall', 'aggregate((address target, bytes callData)[] calls)'],
+  ['Multicall', 'tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls)'],
+  ['Multicall', 'aggregate3((address target, bool allowFailure, bytes callData)[] calls)']
+];
+
+const METHODS_BY_SELECTOR = new Map<string, KnownMethod>(KNOWN_METHODS.map(([standard, signature]) => {
+  const fragment = ethers.FunctionFragment.from(`function ${signature}`);
+  return [fragment.selector, { standard, fragment }];
+}));
+
+const withTimeout = <T>(promise: Promise<T>): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<T>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('RPC Timeout')), LOOKUP_TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Cached on-chain lookups for one preview. The first failed lookup marks the network as
+// unreachable so an offline signer doesn't wait on every address.
+const createLookups = (network: string | undefined, registered: RegisteredToken[]) => {
+  let unavailable = !network;
+  const codes = new Map<string, boolean | undefined>();
+  const tokens = new Map<string, TokenInfo | null | undefined>();
+  const known = tokensFor(registered, network || '')
+    .map(({ address, symbol, decimals }) => ({ address: address.toLowerCase(), symbol, decimals }));
+
+  const attempt = async <T>(lookup: () => Promise<T>): Promise<T | undefined> => {
+    if (unavailable) return undefined;
+    try {
+      return await withTimeout(lookup());
+    } catch (e) {
+      unavailable = true;
+      return undefined;
+    }
+  };
+
+  return {
+    get unavailable() {
+      return unavailable;
+    },
+    // undefined = unknown
+    hasCode: async (address: string): Promise<boolean | undefined> => {
+      const key = address.toLowerCase();
+      if (!codes.has(key)) {
+        const code = await attempt(() => fetchCode(address, network!));
+        codes.set(key, code === undefined ? undefined : code !== '0x');
+      }
+      return codes.get(key);
+    },
+    // null = contract is not an ERC20 token, undefined = unknown
+    token: async (address: string): Promise<TokenInfo | null | undefined> => {
+      const key = address.toLowerCase();
+      const listed = known.find(t => t.address === key);
+      if (listed) return listed;
+      if (!tokens.has(key)) tokens.set(key, await attempt(() => fetchTokenInfo(address, network!)));
+      return tokens.get(key);
+    }
+  };
+};
+
+type Lookups = ReturnType<typeof createLookups>;
+
+const short = (address: string): string => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const stringify = (value: any): string => {
+  const plain = value instanceof ethers.Result ? value.toArray(true) : value;
+  if (typeof plain === 'object' && plain !== null) {
+    return JSON.stringify(plain, (_, v) => typeof v === 'bigint' ? v.toString() : v);
+  }
+  return String(plain);
+};
+
+const formatAmount = (amount: bigint, token?: TokenInfo | null): string => {
+  if (amount >= UNLIMITED_THRESHOLD) return `Unlimited${token ? ` ${token.symbol}` : ''}`;
+  if (!token) return `${amount.toString()} units`;
+  return `${ethers.formatUnits(amount, token.decimals)} ${token.symbol}`;
+};
+
+const checkRecipient = (to: string, target: string, risks: RiskFlag[]) => {
+  if (to === ethers.ZeroAddress) {
+    risks.push({ code: 'TRANSFER_TO_ZERO_ADDRESS', level: 'danger', message: 'Tokens are sent to the zero address and will be lost.' });
+  } else if (to.toLowerCase() === target.toLowerCase()) {
+    risks.push({ code: 'TRANSFER_TO_TOKEN_CONTRACT', level: 'warning', message: `Tokens are sent to the token contract ${short(target)} itself.` });
+  }
+};
+
+const decodeCall = async (target: string, data: string, lookups: Lookups, risks: RiskFlag[], depth: number): Promise<DecodedCall> => {
+  const selector = data.slice(0, 10).toLowerCase();
+
+  if (await lookups.hasCode(target) === false) {
+    risks.push({ code: 'NO_CONTRACT_CODE', level: 'danger', message: `${short(target)} has no contract code; the call will not execute anything.` });
+  }
+
+  const known = METHODS_BY_SELECTOR.get(selector);
+  if (!known) {
+    risks.push({ code: 'UNKNOWN_SELECTOR', level: 'warning', message: `Function ${selector} on ${short(target)} is not recognized.` });
+    return { target, selector, args: [], summary: `Call unknown function ${selector} on ${short(target)}` };
+  }
+
+  const { fragment } = known;
+  let decoded: ethers.Result;
+  try {
+    decoded = new ethers.Interface([fragment]).decodeFunctionData(fragment, data);
+  } catch (e) {
+    risks.push({ code: 'MALFORMED_CALLDATA', level: 'danger', message: `Calldata does not match ${fragment.format()}.` });
+    return { target, selector, method: fragment.format(), args: [], summary: `Malformed ${fragment.name} call on ${short(target)}` };
+  }
+
+  const args: DecodedArg[] = fragment.inputs.map((input, i) => ({ name: input.name, type: input.format(), value: stringify(decoded[i]) }));
+  const setDisplay = (name: string, display: string) => {
+    const arg = args.find(a => a.name === name);
+    if (arg) arg.display = display;
+  };
+  const call: DecodedCall = { target, selector, standard: known.standard, method: fragment.format(), args, summary: '' };
+
+  switch (fragment.name) {
+    case 'transfer': {
+      const token = await lookups.token(target);
+      if (token) call.token = token;
+      const amount = formatAmount(decoded.amount, token);
+      setDisplay('amount', amount);
+      call.summary = `Transfer ${amount} to ${short(decoded.to)}`;
+      checkRecipient(decoded.to, target, risks);
+      break;
+    }
+    case 'approve':
+    case 'increaseAllowance':
+    case 'permit': {
+      const token = await lookups.token(target);
+      const spender: string = decoded.spender;
+      if (fragment.name === 'approve' && token === null) {
+        call.standard = 'ERC721';
+        call.summary = `Approve ${short(spender)} to transfer NFT #${decoded.amount} of ${short(target)}`;
+        break;
+      }
+      if (token) call.token = token;
+      const valueArg = fragment.name === 'approve' ? 'amount' : fragment.name === 'permit' ? 'value' : 'addedValue';
+      const value: bigint = decoded[valueArg];
+      const amount = formatAmount(value, token);
+      setDisplay(valueArg, amount);
+      if (fragment.name === 'permit') {
+        const deadline = Number(decoded.deadline);
+        setDisplay('deadline', Number.isSafeInteger(deadline) && deadline * 1000 < 8.64e15 ? new Date(deadline * 1000).toISOString() : 'Never');
+        call.summary = `Permit ${short(spender)} to spend ${amount} of ${short(decoded.owner)}`;
+      } else if (value === 0n && fragment.name === 'approve') {
+        call.summary = `Revoke ${short(spender)}'s allowance${token ? ` for ${token.symbol}` : ''}`;
+      } else {
+        call.summary = `Approve ${short(spender)} to spend ${amount}`;
+      }
+      if (value >= UNLIMITED_THRESHOLD) {
+        risks.push({ code: 'UNLIMITED_APPROVAL', level: 'danger', message: `${short(spender)} gets an unlimited allowance${token ? ` for ${token.symbol}` : ''}.` });
+      }
+      break;
+    }
+    case 'transferFrom': {
+      const token = await lookups.token(target);
+      if (token === null) {
+        call.standard = 'ERC721';
+        call.summary = `Transfer NFT #${decoded.amount} of ${short(target)} from ${short(decoded.from)} to ${short(decoded.to)}`;
+      } else {
+        if (token) call.token = token;
+        const amount = formatAmount(decoded.amount, token);
+        setDisplay('amount', amount);
+        call.summary = `Transfer ${amount} from ${short(decoded.from)} to ${short(decoded.to)}`;
+      }
+      checkRecipient(decoded.to, target, risks);
+      break;
+    }
+    case 'safeTransferFrom':
+      call.summary = known.standard === 'ERC1155'
+        ? `Transfer ${decoded.amount} of token #${decoded.id} (${short(target)}) to ${short(decoded.to)}`
+        : `Transfer NFT #${decoded.tokenId} of ${short(target)} to ${short(decoded.to)}`;
+      checkRecipient(decoded.to, target, risks);
+      break;
+    case 'safeBatchTransferFrom':
+      call.summary = `Transfer ${decoded.ids.length} token types of ${short(target)} to ${short(decoded.to)}`;
+      checkRecipient(decoded.to, target, risks);
+      break;
+    case 'setApprovalForAll':
+      if (decoded.approved) {
+        call.summary = `Allow ${short(decoded.operator)} to transfer all NFTs of ${short(target)}`;
+        risks.push({ code: 'APPROVAL_FOR_ALL', level: 'danger', message: `${short(decoded.operator)} can transfer every NFT of the collection ${short(target)}.` });
+      } else {
+        call.summary = `Revoke ${short(decoded.operator)}'s approval for all NFTs of ${short(target)}`;
+      }
+      break;
+    default: {
+      // Multicall variants
+      const inner: [string, string][] = fragment.name === 'multicall'
+        ? decoded.data.map((d: string) => [target, d])
+        : decoded.calls.map((c: ethers.Result) => [c.target, c.callData]);
+      call.summary = `Multicall with ${inner.length} call${inner.length === 1 ? '' : 's'}`;
+      if (depth >= MAX_CALL_DEPTH) {
+        risks.push({ code: 'NESTING_TOO_DEEP', level: 'warning', message: `Multicall nested deeper than ${MAX_CALL_DEPTH} levels was not decoded.` });
+        break;
+      }
+      call.calls = [];
+      for (const [innerTarget, innerData] of inner) {
+        call.calls.push(await decodeCall(innerTarget, innerData, lookups, risks, depth + 1));
+      }
+      break;
+    }
+  }
+  return call;
+};
+
+// Arguments of the known methods that receive tokens, an allowance or an operator approval
+const COUNTERPARTY_ARGS = ['to', 'spender', 'operator'];
+
+/**
+ * Addresses a call hands tokens, allowances or approvals to, decoded without any lookup: the
+ * recipient, spender or operator of the known token methods and, in multicalls, every inner
+ * target with its own counterparties. Unknown selectors yield none. Throws on calldata that
+ * doesn't match its known method or multicalls nested deeper than the preview decodes.
+ */
+export const callCounterparties = (target: string, data: string, depth = 0): string[] => {
+  const known = METHODS_BY_SELECTOR.get(data.slice(0, 10).toLowerCase());
+  if (!known) return [];
+  const { fragment } = known;
+  const decoded = new ethers.Interface([fragment]).decodeFunctionData(fragment, data);
+  if (known.standard !== 'Multicall') {
+    return fragment.inputs.filter(input => input.type === 'address' && COUNTERPARTY_ARGS.includes(input.name)).map(input => decoded[input.name]);
+  }
+  if (depth >= MAX_CALL_DEPTH) throw new Error(`Multicall nested deeper than ${MAX_CALL_DEPTH} levels`);
+  const inner: [string, string][] = fragment.name === 'multicall'
+    ? decoded.data.map((d: string) => [target, d])
+    : decoded.calls.map((c: ethers.Result) => [c.target, c.callData]);
+  return inner.flatMap(([innerTarget, innerData]) => [innerTarget, ...callCounterparties(innerTarget, innerData, depth + 1)]);
+};
+
+/**
+ * Whether a call, or any call inside its multicalls, is one of the known token transfers or
+ * approvals. Throws like callCounterparties.
+ */
+export const callMovesTokens = (target: string, data: string, depth = 0): boolean => {
+  const known = METHODS_BY_SELECTOR.get(data.slice(0, 10).toLowerCase());
+  if (!known) return false;
+  if (known.standard !== 'Multicall') return true;
+  if (depth >= MAX_CALL_DEPTH) throw new Error(`Multicall nested deeper than ${MAX_CALL_DEPTH} levels`);
+  const { fragment } = known;
+  const decoded = new ethers.Interface([fragment]).decodeFunctionData(fragment, data);
+  const inner: [string, string][] = fragment.name === 'multicall'
+    ? decoded.data.map((d: string) => [target, d])
+    : decoded.calls.map((c: ethers.Result) => [c.target, c.callData]);
+  return inner.some(([innerTarget, innerData]) => callMovesTokens(innerTarget, innerData, depth + 1));
+};
+
+/**
+ * Decodes a transaction request (eth_signTransaction payload). The chain is taken from
+ * `chainId`, falling back to `networkKey` when the transaction has none. Tokens registered
+ * for that chain are named without a lookup, and values are shown in its native symbol.
+ * Never throws: malformed input yields a preview with a MALFORMED_TRANSACTION flag.
+ */
+export const decodeTransaction = async (tx: any, networkKey?: string, tokens: RegisteredToken[] = DEFAULT_TOKENS): Promise<TransactionPreview> => {
+  const risks: RiskFlag[] = [];
+  try {
+    const chainId = tx?.chainId !== undefined && tx?.chainId !== null && tx?.chainId !== '' ? Number(ethers.getBigInt(tx.chainId)) : undefined;
+    const network = chainId !== undefined
+      ? getNetworkMetadata(chainId)?.key
+      : (networkKey ? getNetwork(networkKey)?.key : undefined);
+    const lookups = createLookups(network, tokens);
+    const symbol = network ? nativeSymbolFor(network) : 'ETH';
+
+    const value = ethers.getBigInt(tx.value ?? 0);
+    const eth = ethers.formatEther(value);
+    const data: string = (tx.data || tx.input || '0x').toLowerCase();
+    const preview: TransactionPreview = { kind: 'transfer', chainId, network, to: tx.to || undefined, value: eth, summary: '', risks };
+
+    if (!tx.to) {
+      preview.kind = 'deployment';
+      preview.summary = `Deploy a contract (${Math.max(0, (data.length - 2) / 2)} bytes of code)`;
+      risks.push({ code: 'CONTRACT_DEPLOYMENT', level: 'warning', message: 'The transaction has no recipient and deploys a contract.' });
+    } else if (!ethers.isAddress(tx.to)) {
+      throw new Error(`Invalid recipient ${tx.to}`);
+    } else if (data === '0x') {
+      preview.summary = `Send ${eth} ${symbol} to ${short(tx.to)}`;
+      if (tx.to === ethers.ZeroAddress) {
+        risks.push({ code: 'TRANSFER_TO_ZERO_ADDRESS', level: 'danger', message: `${symbol} is sent to the zero address and will be lost.` });
+      }
+    } else {
+      preview.kind = 'contract_call';
+      preview.call = await decodeCall(tx.to, data, lookups, risks, 0);
+      preview.summary = value > 0n ? `${preview.call.summary}, sending ${eth} ${symbol}` : preview.call.summary;
+      if (value > 0n && preview.call.standard && preview.call.standard !== 'Multicall') {
+        risks.push({ code: 'VALUE_WITH_TOKEN_CALL', level: 'warning', message: `${eth} ${symbol} is attached to a token call; token contracts normally don't accept ${symbol}.` });
+      }
+    }
+
+    if (lookups.unavailable && preview.kind !== 'deployment') {
+      risks.push({
+        code: 'UNVERIFIED',
+        level: 'info',
+        message: network
+          ? `Could not reach ${network} RPC; contract code and token details were not verified.`
+          : 'Unknown chain; contract code and token details were not verified.'
+      });
+    }
+    return preview;
+  } catch (e: any) {
+    risks.push({ code: 'MALFORMED_TRANSACTION', level: 'danger', message: e.message || 'Transaction could not be decoded.' });
+    return { kind: 'contract_call', to: tx?.to, value: '0.0', summary: 'Transaction could not be decoded', risks };
+  }
+};
@@ -0,0 +1,58 @@
+import { ethers } from 'ethers';
+import { TrackedTransaction, FeeSettings } from '../types';
+import { RequestError } from './errors';
+import { fetchFeeData, applyMultiplier, estimateGas, GAS_LIMIT_BUFFER_PERCENT } from './cryptoService';
+
+// Replacements for stuck transactions: the same nonce signed again with higher fees, either
+// with the original call (speed-up) or as a 0-value self-transfer (cancel).
+
+export type ReplacementKind = 'speedUp' | 'cancel';
+
+// Nodes only accept a replacement when every fee field rises by at least geth's default
+// txpool price bump.
+export const REPLACEMENT_BUMP_PERCENT = 10n;
+
+const bump = (value: bigint): bigint => (value * (100n + REPLACEMENT_BUMP_PERCENT) + 99n) / 100n;
+
+const maxOf = (...values: bigint[]): bigint => values.reduce((a, b) => a > b ? a : b);
+
+/**
+ * Builds the replacement for a pending transaction from the history. Each fee is the larger of
+ * the bumped original and the current network estimate scaled by `fees.multiplier`. Throws
+ * NOT_REPLACEABLE when the transaction is no longer pending.
+ */
+export const buildReplacement = async (
+  original: TrackedTransaction,
+  kind: ReplacementKind,
+  fees: FeeSettings = { multiplier: 1 }
+): Promise<Record<string, any>> => {
+  if (original.status !== 'pending') {
+    throw new RequestError('NOT_REPLACEABLE', `Transaction ${original.hash} is ${original.status}; only pending transactions can be replaced`);
+  }
+  if (!original.network) throw new Error(`Chain ID ${original.chainId} is not configured with an RPC endpoint`);
+
+  const tx = ethers.Transaction.from(original.rawTx);
+  const feeData = await fetchFeeData(original.network);
+
+  let replacement: Record<string, any>;
+  if (kind === 'cancel') {
+    // A plain transfer costs more than 21000 gas on some L2s (Arbitrum bills L1 data as gas)
+    const estimate = await estimateGas({ from: original.from, to: original.from, value: 0n, data: '0x' }, original.network);
+    const gasLimit = estimate === 21000n ? estimate : estimate * (100n + GAS_LIMIT_BUFFER_PERCENT) / 100n;
+    replacement = { to: original.from, value: 0n, data: '0x', gasLimit };
+  } else {
+    replacement = { to: tx.to, value: tx.value, data: tx.data, gasLimit: tx.gasLimit, accessList: tx.type === 0 ? undefined : tx.accessList };
+  }
+  replacement.type = tx.type;
+  replacement.nonce = tx.nonce;
+  replacement.chainId = original.chainId;
+
+  if (tx.maxFeePerGas !== null && tx.maxPriorityFeePerGas !== null) {
+    const priority = maxOf(bump(tx.maxPriorityFeePerGas), applyMultiplier(feeData.maxPriorityFeePerGas ?? 0n, fees.multiplier));
+    replacement.maxPriorityFeePerGas = priority;
+    replacement.maxFeePerGas = maxOf(bump(tx.maxFeePerGas), applyMultiplier(feeData.maxFeePerGas ?? 0n, fees.multiplier), priority);
+  } else {
+    replacement.gasPrice = maxOf(bump(tx.gasPrice ?? 0n), applyMultiplier(feeData.gasPrice ?? 0n, fees.multiplier));
+  }
+  return replacement;
+};
@@ -0,0 +1,255 @@
+import { ethers } from 'ethers';
+import { WalletData, TrackedTransaction, TransactionFilter, RegisteredToken } from '../types';
+import { broadcastTransaction, fetchBlockNumber, fetchConfirmedNonce, fetchTransactionReceipt, sealRecords, openRecords, SealedRecords } from './cryptoService';
+import { getNetworkMetadata } from './networkRegistry';
+import { decodeTransaction } from './txDecoder';
+import { NonceManager } from './nonceManager';
+import { RequestError } from './errors';
+import { logger } from './systemLogger';
+
+// History of transactions signed or broadcast from the vault. A poller follows open entries
+// until they have CONFIRMATION_TARGET confirmations, are reverted, or are dropped.
+
+// Browser persistence; the RPC server keeps the same records next to the vault file.
+export const TX_STORAGE_KEY = 'falconvault_v1_transactions';
+
+export const POLL_INTERVAL_MS = 15_000;
+export const CONFIRMATION_TARGET = 12;
+const MAX_HISTORY = 1000;
+const SIGNED_TTL_MS = 24 * 60 * 60 * 1000; // Signed but never seen on chain after this: dropped
+
+export interface TransactionStore {
+  /** Inserts a transaction, replacing an earlier record with the same hash. */
+  record: (tx: TrackedTransaction) => void;
+  update: (hash: string, patch: Partial<TrackedTransaction>) => void;
+  get: (hash: string) => TrackedTransaction | undefined;
+  /** Newest first. */
+  list: (filter?: TransactionFilter) => TrackedTransaction[];
+}
+
+export const sealTransactions = (records: TrackedTransaction[], integrityKey: CryptoKey): Promise<SealedRecords<TrackedTransaction>> =>
+  sealRecords('transactions', records, integrityKey);
+
+/**
+ * Verifies persisted history (already JSON-parsed; undefined when there is none). History that
+ * fails the integrity check is dropped rather than trusted for replacements and payout runs;
+ * `problem` says why.
+ */
+export const openTransactions = async (persisted: unknown, integrityKey: CryptoKey): Promise<{ records: TrackedTransaction[]; problem?: string }> => {
+  if (persisted === undefined || persisted === null) return { records: [] };
+  const records = await openRecords<TrackedTransaction>('transactions', persisted, integrityKey);
+  return records ? { records } : { records: [], problem: 'failed its integrity check' };
+};
+
+/**
+ * In-memory store seeded with persisted records. `onChange` receives every record after
+ * each change so the caller can persist and display them. Only the newest MAX_HISTORY are kept.
+ */
+export const createTransactionStore = (initial: TrackedTransaction[], onChange?: (records: TrackedTransaction[]) => void): TransactionStore => {
+  let records = initial
+    .filter(r => r && typeof r.hash === 'string' && typeof r.status === 'string')
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  const changed = () => onChange?.(records);
+
+  return {
+    record: (tx) => {
+      records = [tx, ...records.filter(r => r.hash !== tx.hash)].slice(0, MAX_HISTORY);
+      changed();
+    },
+
+    update: (hash, patch) => {
+      if (!records.some(r => r.hash === hash)) return;
+      records = records.map(r => r.hash === hash ? { ...r, ...patch, updatedAt: Date.now() } : r);
+      changed();
+    },
+
+    get: (hash) => records.find(r => r.hash === hash),
+
+    list: (filter = {}) => {
+      const matching = records.filter(r =>
+        (filter.walletId === undefined || r.walletId === filter.walletId)
+        && (filter.walletLabel === undefined || r.walletLabel === filter.walletLabel)
+        && (filter.network === undefined || r.network === filter.network)
+        && (filter.status === undefined || r.status === filter.status)
+      );
+      return filter.limit !== undefined ? matching.slice(0, filter.limit) : matching;
+    }
+  };
+};
+
+/**
+ * Records a freshly signed transaction. Without a summary, the transaction is decoded in the
+ * background (naming `tokens` from the vault's registry) and the record updated once the
+ * decoder's lookups are done.
+ */
+export const trackSignedTransaction = (
+  store: TransactionStore,
+  signedTx: string,
+  wallet: WalletData,
+  summary?: string,
+  tokens?: RegisteredToken[]
+): TrackedTransaction => {
+  const tx = ethers.Transaction.from(signedTx);
+  const chainId = Number(tx.chainId);
+  const now = Date.now();
+  const record: TrackedTransaction = {
+    hash: tx.hash!,
+    walletId: wallet.id,
+    walletLabel: wallet.name,
+    from: wallet.address,
+    chainId,
+    network: getNetworkMetadata(chainId)?.key,
+    nonce: tx.nonce,
+    to: tx.to || undefined,
+    value: tx.value.toString(),
+    summary: summary || (tx.to ? `Call to ${tx.to}` : 'Contract deployment'),
+    status: 'signed',
+    rawTx: signedTx,
+    createdAt: now,
+    updatedAt: now
+  };
+  store.record(record);
+
+  if (!summary) {
+    decodeTransaction({ to: tx.to, value: tx.value, data: tx.data, chainId }, undefined, tokens).then(preview => {
+      store.update(record.hash, { summary: preview.summary });
+    }).catch((e: any) => {
+      // The generic summary stays
+      logger.log(`Could not decode transaction ${record.hash.slice(0, 10)}…: ${e.message}`, 'warning', 'TxTracker');
+    });
+  }
+  return record;
+};
+
+export interface BroadcastTracking {
+  wallets: WalletData[]; // Raw transactions from other addresses are broadcast but not recorded
+  nonces?: NonceManager;
+  transactions?: TransactionStore;
+  tokens?: RegisteredToken[]; // Names registered tokens in the summary of transactions signed elsewhere
+}
+
+/**
+ * Broadcasts a signed transaction and reports the outcome: accepted nonces are confirmed and
+ * failed ones released for reuse, and the transaction is recorded as pending (or its last
+ * broadcast error noted). After a timeout the nonce stays reserved, since the transaction may
+ * still be mined; the tracker settles it.
+ */
+export const broadcastAndTrack = async (rawTx: string, networkKey: string, tracking: BroadcastTracking): Promise<string> => {
+  const { nonces, transactions } = tracking;
+  let tx: ethers.Transaction | undefined;
+  try {
+    tx = ethers.Transaction.from(rawTx);
+  } catch (e) {
+    // Not decodable; broadcastTransaction refuses it
+  }
+  const from = tx?.from?.toLowerCase();
+  const wallet = from ? tracking.wallets.find(w => w.address.toLowerCase() === from) : undefined;
+
+  try {
+    const txHash = await broadcastTransaction(rawTx, networkKey);
+    if (tx?.from) nonces?.confirm(tx.from, Number(tx.chainId), tx.nonce);
+    if (transactions && wallet) {
+      if (!transactions.get(txHash)) trackSignedTransaction(transactions, rawTx, wallet, undefined, tracking.tokens);
+      transactions.update(txHash, { status: 'pending', error: undefined });
+    }
+    return txHash;
+  } catch (e: any) {
+    const uncertain = e instanceof RequestError && e.code === 'BROADCAST_UNCERTAIN';
+    if (tx?.from && !uncertain) nonces?.release(tx.from, Number(tx.chainId), tx.nonce);
+    if (tx?.hash) transactions?.update(tx.hash, { error: e.shortMessage || e.message });
+    throw e;
+  }
+};
+
+const isOpen = (tx: TrackedTransaction): boolean => {
+  if (!tx.network) return false;
+  if (tx.status === 'signed' || tx.status === 'pending') return true;
+  return (tx.status === 'mined' || tx.status === 'reverted') && (tx.confirmations ?? 0) < CONFIRMATION_TARGET;
+};
+
+const refreshTransaction = async (store: TransactionStore, tx: TrackedTransaction, network: string, head: number) => {
+  let receipt = await fetchTransactionReceipt(tx.hash, network);
+  if (!receipt && tx.status !== 'mined' && tx.status !== 'reverted') {
+    const confirmedNonce = await fetchConfirmedNonce(tx.from, network);
+    if (confirmedNonce > tx.nonce) {
+      // Mined between the two calls, or replaced by another transaction with the same nonce
+      receipt = await fetchTransactionReceipt(tx.hash, network);
+      if (!receipt) {
+        store.update(tx.hash, { status: 'dropped' });
+        logger.log(`Transaction ${tx.hash.slice(0, 10)}… dropped: nonce ${tx.nonce} was used by another transaction`, 'warning', 'TxTracker');
+        return;
+      }
+    } else if (tx.status === 'signed' && Date.now() - tx.createdAt > SIGNED_TTL_MS) {
+      store.update(tx.hash, { status: 'dropped' });
+      return;
+    }
+  }
+
+  if (!receipt) {
+    if (tx.status === 'mined' || tx.status === 'reverted') {
+      store.update(tx.hash, { status: 'pending', blockNumber: undefined, confirmations: undefined, gasUsed: undefined });
+      logger.log(`Transaction ${tx.hash.slice(0, 10)}… left the chain in a reorg`, 'warning', 'TxTracker');
+    }
+    return;
+  }
+
+  const status = receipt.success ? 'mined' : 'reverted';
+  if (status !== tx.status) {
+    logger.log(
+      `Transaction ${tx.hash.slice(0, 10)}… ${status === 'mined' ? 'mined' : 'reverted'} in block ${receipt.blockNumber}`,
+      status === 'mined' ? 'success' : 'error',
+      'TxTracker'
+    );
+  }
+  store.update(tx.hash, {
+    status,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+    confirmations: Math.max(0, head - receipt.blockNumber + 1)
+  });
+};
+
+/**
+ * One pass over the open transactions. RPC failures leave a record unchanged until the
+ * next pass.
+ */
+export const pollTransactions = async (store: TransactionStore): Promise<void> => {
+  const byNetwork = new Map<string, TrackedTransaction[]>();
+  for (const tx of store.list().filter(isOpen)) {
+    byNetwork.set(tx.network!, [...(byNetwork.get(tx.network!) || []), tx]);
+  }
+
+  for (const [network, txs] of byNetwork) {
+    let head: number;
+    try {
+      head = await fetchBlockNumber(network);
+    } catch (e) {
+      continue;
+    }
+    for (const tx of txs) {
+      try {
+        await refreshTransaction(store, tx, network, head);
+      } catch (e) {
+        // Retried on the next pass
+      }
+    }
+  }
+};
+
+/** Polls right away and then every `intervalMs`. Returns a function that stops polling. */
+export const startTransactionPoller = (store: TransactionStore, intervalMs = POLL_INTERVAL_MS): (() => void) => {
+  let busy = false;
+  const tick = async () => {
+    if (busy) return;
+    busy = true;
+    try {
+      await pollTransactions(store);
+    } finally {
+      busy = false;
+    }
+  };
+  const timer = setInterval(tick, intervalMs);
+  tick();
+  return () => clearInterval(timer);
+};
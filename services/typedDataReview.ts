@@ -0,0 +1,255 @@
+import { ethers } from 'ethers';
+import { TypedDataReview, TypedDataNode, TypedDataApproval, RiskFlag } from '../types';
+import { RequestError } from './errors';
+import { getChainIdForNetwork } from './networkRegistry';
+
+// EIP-712 request handling: normalizes the payload shapes dapps produce, pins the primary
+// type, checks the domain chain and builds a readable review. Permit (EIP-2612), Permit2
+// and Seaport orders get their approvals spelled out, since signing them moves assets.
+
+export interface TypedDataPayload {
+  domain: Record<string, any>;
+  types: Record<string, ethers.TypedDataField[]>; // Only types reachable from primaryType, without EIP712Domain
+  primaryType: string;
+  value: Record<string, any>;
+}
+
+const LONG_DEADLINE_SECONDS = 30 * 24 * 60 * 60;
+const MAX_DATE_SECONDS = 253402300799n; // 9999-12-31, later deadlines never expire in practice
+
+const invalid = (message: string) => new RequestError('INVALID_TYPED_DATA', message);
+
+const baseType = (type: string): string => type.replace(/(\[\d*\])+$/, '');
+
+const pruneTypes = (types: Record<string, ethers.TypedDataField[]>, primaryType: string) => {
+  const kept: Record<string, ethers.TypedDataField[]> = {};
+  const visit = (name: string) => {
+    if (kept[name] || !types[name]) return;
+    kept[name] = types[name];
+    types[name].forEach(field => visit(baseType(field.type)));
+  };
+  visit(primaryType);
+  return kept;
+};
+
+/**
+ * Accepts `{ domain, types, value }`, the eth_signTypedData_v4 shape
+ * `{ types: { EIP712Domain, ... }, primaryType, domain, message }`, or either one as a JSON
+ * string. Throws INVALID_TYPED_DATA when the payload cannot be hashed as given.
+ */
+export const normalizeTypedData = (payload: any): TypedDataPayload => {
+  let data = payload;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch (e) {
+      throw invalid('Typed data payload is not valid JSON');
+    }
+  }
+  const value = data?.message ?? data?.value;
+  if (!data || typeof data !== 'object' || !data.domain || !data.types || !value) {
+    throw invalid('TypedData payload must contain domain, types, and message (or value)');
+  }
+
+  const { EIP712Domain, ...types } = data.types as Record<string, ethers.TypedDataField[]>;
+  if (EIP712Domain) {
+    const declared = EIP712Domain.map(f => f.name).sort().join(',');
+    const present = Object.keys(data.domain).filter(k => data.domain[k] !== undefined).sort().join(',');
+    if (declared !== present) throw invalid(`EIP712Domain declares [${declared}] but the domain has [${present}]`);
+  }
+
+  let primaryType: string = data.primaryType;
+  try {
+    if (primaryType !== undefined) {
+      if (!types[primaryType]) throw invalid(`primaryType '${primaryType}' is not defined in types`);
+    } else {
+      primaryType = ethers.TypedDataEncoder.from(types).primaryType;
+    }
+    const pruned = pruneTypes(types, primaryType);
+    ethers.TypedDataEncoder.hash(data.domain, pruned, value);
+    return { domain: data.domain, types: pruned, primaryType, value };
+  } catch (e: any) {
+    if (e instanceof RequestError) throw e;
+    throw invalid(e.shortMessage || e.message);
+  }
+};
+
+const buildNode = (types: Record<string, ethers.TypedDataField[]>, name: string, type: string, value: any): TypedDataNode => {
+  const array = type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    return { name, type, children: (Array.isArray(value) ? value : []).map((item, i) => buildNode(types, `[${i}]`, array[1], item)) };
+  }
+  if (types[type]) {
+    return { name, type, children: types[type].map(field => buildNode(types, field.name, field.type, value?.[field.name])) };
+  }
+  return { name, type, value: String(value) };
+};
+
+const formatAmount = (amount: any, bits: number): string => {
+  const value = ethers.getBigInt(amount);
+  return value >= 1n << BigInt(bits - 1) ? 'Unlimited' : value.toString();
+};
+
+const formatDeadline = (deadline: any): string => {
+  const value = ethers.getBigInt(deadline);
+  return value > MAX_DATE_SECONDS ? 'Never' : new Date(Number(value) * 1000).toISOString();
+};
+
+const checkDeadline = (deadline: any, label: string, risks: RiskFlag[]) => {
+  const value = ethers.getBigInt(deadline);
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (value < now) {
+    risks.push({ code: 'EXPIRED', level: 'info', message: `The ${label} has already passed; the signature cannot be used.` });
+  } else if (value - now > BigInt(LONG_DEADLINE_SECONDS)) {
+    risks.push({ code: 'LONG_DEADLINE', level: 'warning', message: `The ${label} is ${value > MAX_DATE_SECONDS ? 'never' : formatDeadline(value)}, more than 30 days away.` });
+  }
+};
+
+const checkApproval = (approval: TypedDataApproval, risks: RiskFlag[]) => {
+  if (approval.amount === 'Unlimited') {
+    risks.push({ code: 'UNLIMITED_APPROVAL', level: 'danger', message: `${approval.spender} gets an unlimited allowance for ${approval.token}.` });
+  }
+};
+
+const isNumeric = (value: any): boolean => {
+  try {
+    ethers.getBigInt(value);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Returns false when a message named Permit lacks the EIP-2612 (or DAI) fields, so the caller
+// shows it as generic typed data instead of guessing at its approval.
+const reviewPermit = (data: TypedDataPayload, review: TypedDataReview): boolean => {
+  const v = data.value;
+  const token = data.domain.verifyingContract;
+  if (typeof v.spender !== 'string') return false;
+  if ('allowed' in v) {
+    // DAI-style permit: all-or-nothing allowance, expiry 0 never expires
+    if (!isNumeric(v.expiry)) return false;
+    const approval = { token, spender: v.spender, amount: v.allowed ? 'Unlimited' : '0', deadline: ethers.getBigInt(v.expiry) === 0n ? 'Never' : formatDeadline(v.expiry) };
+    review.approvals.push(approval);
+    checkApproval(approval, review.risks);
+    if (ethers.getBigInt(v.expiry) === 0n) {
+      review.risks.push({ code: 'LONG_DEADLINE', level: 'warning', message: 'The permit never expires.' });
+    } else {
+      checkDeadline(v.expiry, 'permit expiry', review.risks);
+    }
+    return true;
+  }
+  if (!isNumeric(v.value) || !isNumeric(v.deadline)) return false;
+  const approval = { token, spender: v.spender, amount: formatAmount(v.value, 256), deadline: formatDeadline(v.deadline) };
+  review.approvals.push(approval);
+  checkApproval(approval, review.risks);
+  checkDeadline(v.deadline, 'permit deadline', review.risks);
+  return true;
+};
+
+const reviewPermit2 = (data: TypedDataPayload, review: TypedDataReview) => {
+  const v = data.value;
+  if (v.details) {
+    // PermitSingle / PermitBatch: standing allowance with its own expiration
+    for (const d of Array.isArray(v.details) ? v.details : [v.details]) {
+      const approval = { token: d.token, spender: v.spender, amount: formatAmount(d.amount, 160), deadline: formatDeadline(d.expiration) };
+      review.approvals.push(approval);
+      checkApproval(approval, review.risks);
+      checkDeadline(d.expiration, 'allowance expiration', review.risks);
+    }
+    if (v.sigDeadline !== undefined) checkDeadline(v.sigDeadline, 'signature deadline', review.risks);
+  } else if (v.permitted) {
+    // PermitTransferFrom / PermitBatchTransferFrom (and witness variants): one-time transfer
+    for (const p of Array.isArray(v.permitted) ? v.permitted : [v.permitted]) {
+      const approval = { token: p.token, spender: v.spender, amount: formatAmount(p.amount, 256), deadline: formatDeadline(v.deadline) };
+      review.approvals.push(approval);
+      checkApproval(approval, review.risks);
+    }
+    checkDeadline(v.deadline, 'transfer deadline', review.risks);
+  }
+};
+
+const SEAPORT_ITEM_TYPES = ['NATIVE', 'ERC20', 'ERC721', 'ERC1155', 'ERC721_WITH_CRITERIA', 'ERC1155_WITH_CRITERIA'];
+
+const reviewSeaport = (data: TypedDataPayload, review: TypedDataReview) => {
+  const v = data.value;
+  if (data.primaryType !== 'OrderComponents') {
+    review.risks.push({ code: 'SEAPORT_BULK_ORDER', level: 'warning', message: 'Bulk Seaport order: every order in the tree is signed at once.' });
+    return;
+  }
+  const offerer = String(v.offerer).toLowerCase();
+  const offer: any[] = v.offer || [];
+  const consideration: any[] = v.consideration || [];
+
+  for (const item of offer) {
+    const itemType = SEAPORT_ITEM_TYPES[Number(item.itemType)] || `type ${item.itemType}`;
+    const nft = Number(item.itemType) >= 2;
+    review.approvals.push({
+      token: item.token,
+      spender: data.domain.verifyingContract,
+      amount: nft && Number(item.itemType) < 4 ? `#${item.identifierOrCriteria} (${itemType})` : `${item.startAmount} (${itemType})`,
+      deadline: formatDeadline(v.endTime)
+    });
+    if (Number(item.itemType) >= 4) {
+      review.risks.push({ code: 'SEAPORT_CRITERIA_ITEM', level: 'warning', message: `The offer includes any token of ${item.token} matching a criteria, not a specific item.` });
+    }
+  }
+
+  review.risks.push({ code: 'SEAPORT_ORDER', level: 'warning', message: `Signing lists ${offer.length} item(s); anyone can fill the order until ${formatDeadline(v.endTime)}.` });
+  const toOfferer = consideration.filter(c => String(c.recipient).toLowerCase() === offerer);
+  if (offer.length > 0 && toOfferer.length === 0) {
+    review.risks.push({ code: 'SEAPORT_NO_PAYMENT', level: 'danger', message: 'The offerer receives nothing in return for the offered items.' });
+  }
+  const others = new Set(consideration.filter(c => String(c.recipient).toLowerCase() !== offerer).map(c => c.recipient));
+  if (others.size > 0) {
+    review.risks.push({ code: 'SEAPORT_THIRD_PARTY', level: 'info', message: `Part of the consideration goes to ${[...others].join(', ')}.` });
+  }
+};
+
+/**
+ * Builds the review for a normalized payload. With `networkKey`, throws CHAIN_MISMATCH when the
+ * domain chainId is missing or doesn't match that network; without it, a domain without chainId
+ * is only flagged.
+ */
+export const reviewTypedData = (data: TypedDataPayload, networkKey?: string): TypedDataReview => {
+  const review: TypedDataReview = {
+    primaryType: data.primaryType,
+    domain: data.domain,
+    approvals: [],
+    tree: data.types[data.primaryType].map(field => buildNode(data.types, field.name, field.type, data.value[field.name])),
+    risks: []
+  };
+
+  const expected = networkKey ? getChainIdForNetwork(networkKey) : undefined;
+  if (networkKey && expected === undefined) throw new Error(`Unsupported network key: ${networkKey}`);
+  // Without a chainId the signature is valid on every chain, whatever network was asked for
+  if (data.domain.chainId === undefined || data.domain.chainId === null) {
+    throw new RequestError('CHAIN_MISMATCH', networkKey
+      ? `Domain has no chainId, so the signature would not be bound to network '${networkKey}' (chain ${expected})`
+      : 'Domain has no chainId, so the signature would be valid on every chain');
+  }
+  if (networkKey) {
+    const chainId = Number(ethers.getBigInt(data.domain.chainId));
+    if (chainId !== expected) {
+      throw new RequestError('CHAIN_MISMATCH', `Domain chainId ${chainId} does not match network '${networkKey}' (chain ${expected})`);
+    }
+  }
+
+  if (data.domain.name === 'Permit2') {
+    review.kind = 'Permit2';
+    reviewPermit2(data, review);
+  } else if (data.domain.name === 'Seaport') {
+    review.kind = 'Seaport';
+    reviewSeaport(data, review);
+  } else if (data.primaryType === 'Permit') {
+    if (reviewPermit(data, review)) {
+      review.kind = 'Permit';
+    } else {
+      review.risks.push({ code: 'NONSTANDARD_PERMIT', level: 'warning', message: 'The message is named Permit but lacks the standard spender, value and deadline fields; check every field before signing.' });
+    }
+  }
+  if (review.kind === 'Permit' || review.kind === 'Permit2') {
+    review.risks.push({ code: 'GASLESS_APPROVAL', level: 'warning', message: 'This signature lets the spender move tokens without an on-chain approval from this wallet.' });
+  }
+  return review;
+};
@@ -0,0 +1,258 @@
+import { WalletData, SeedData, VaultSettings, KdfParams } from '../types';
+import { generateIntegrityHash, deriveIntegrityKey, computeIntegrityMac, verifyIntegrityMac, hashPassword, createKdfParams, deriveMasterKey, computeVerifier, CURRENT_KDF_VERSION, decryptData, encryptData, generateDataKeyMaterial, importDataKey, wrapDataKey, unwrapDataKey, isLegacyPacket, decryptLegacyData } from './cryptoService';
+import { logger } from './systemLogger';
+import { VaultIntegrityError } from './errors';
+import { DEFAULT_TOKENS } from './tokenRegistry';
+import { DEFAULT_NETWORKS } from './networkRegistry';
+
+// Shared persistence format. The browser keeps it in localStorage under STORAGE_KEY,
+// the headless RPC server reads the very same JSON from a file on disk.
+export const STORAGE_KEY = 'falconvault_v1_store';
+
+export interface VaultStore {
+  wallets: WalletData[];
+  seeds?: SeedData[]; // HD mnemonics, encrypted under the data key
+  kdf?: KdfParams;
+  verifier?: string;
+  wrappedKey?: string; // Vault data key, wrapped by the password-derived key
+  masterHash?: string; // Legacy unsalted SHA-256, replaced by kdf/verifier on first unlock
+  settings: VaultSettings;
+  mac?: string; // HMAC-SHA256 over everything above, keyed from the master password
+  checksum?: string; // Legacy unkeyed SHA-256 of wallets and settings, replaced by mac on first unlock
+}
+
+// Master password verification material and wrapped data key, kept in memory while
+// unlocked so saves don't re-run the KDF.
+export interface VaultAuth {
+  kdf: KdfParams;
+  verifier: string;
+  wrappedKey: string;
+  integrityKey: CryptoKey; // Non-extractable HMAC key for the store mac, never persisted
+}
+
+export interface UnlockOptions {
+  onProgress?: (done: number, total: number) => void;
+  allowTampered?: boolean; // Recovery only: open the data key even if the store fails its integrity check
+}
+
+export interface UnlockedVault {
+  auth: VaultAuth;
+  dataKey: CryptoKey; // Non-extractable
+  wallets: WalletData[];
+  seeds: SeedData[];
+  migrated: boolean; // Store must be re-saved (KDF upgrade or legacy packets re-encrypted)
+}
+
+export const DEFAULT_SETTINGS: VaultSettings = {
+    autoLockMinutes: 15,
+    enableLogging: true,
+    attributeDefinitions: [
+        { key: 'notes', label: 'Notes', type: 'text' }
+    ],
+    apiKeys: [],
+    policies: [],
+    fees: { multiplier: 1 },
+    tokens: DEFAULT_TOKENS,
+    networks: DEFAULT_NETWORKS
+};
+
+// The authenticated part of a store, in a fixed field order so the MAC input is stable.
+const authenticatedContent = (store: VaultStore) => ({
+  wallets: store.wallets,
+  seeds: store.seeds,
+  kdf: store.kdf,
+  verifier: store.verifier,
+  wrappedKey: store.wrappedKey,
+  settings: store.settings
+});
+
+export const buildStore = async (wallets: WalletData[], settings: VaultSettings, auth: VaultAuth, seeds: SeedData[]): Promise<VaultStore> => {
+  const content = authenticatedContent({ wallets, seeds, kdf: auth.kdf, verifier: auth.verifier, wrappedKey: auth.wrappedKey, settings });
+  const mac = await computeIntegrityMac(content, auth.integrityKey);
+  return { ...content, mac };
+};
+
+export const parseStore = (raw: string): VaultStore => {
+  const parsed = JSON.parse(raw);
+  const hasAuth = parsed && ((parsed.kdf && typeof parsed.verifier === 'string') || typeof parsed.masterHash === 'string');
+  if (!hasAuth || !Array.isArray(parsed.wallets)) {
+    throw new Error("Invalid vault store format");
+  }
+  return parsed;
+};
+
+// Merge with defaults to ensure new fields exist
+export const withDefaultSettings = (settings?: Partial<VaultSettings>): VaultSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...settings
+});
+
+// KDF-based stores must carry a valid mac. Legacy SHA-256 stores can only be checked
+// against their unkeyed checksum; they get a mac when they are re-saved after unlock.
+const checkIntegrity = async (store: VaultStore, masterKey: Uint8Array | null): Promise<boolean> => {
+  if (masterKey) {
+    if (!store.mac) return false;
+    return verifyIntegrityMac(authenticatedContent(store), store.mac, await deriveIntegrityKey(masterKey));
+  }
+  if (!store.checksum) return false;
+  return store.checksum === await generateIntegrityHash({ wallets: store.wallets, settings: store.settings });
+};
+
+// Derives a fresh master key (current KDF version) and wraps the data key material under it.
+const sealDataKey = async (password: string, raw: Uint8Array): Promise<VaultAuth> => {
+  const kdf = createKdfParams();
+  const masterKey = await deriveMasterKey(password, kdf);
+  return {
+    kdf,
+    verifier: await computeVerifier(masterKey),
+    wrappedKey: await wrapDataKey(raw, masterKey),
+    integrityKey: await deriveIntegrityKey(masterKey)
+  };
+};
+
+export const createVaultAuth = async (password: string): Promise<{ auth: VaultAuth; dataKey: CryptoKey }> => {
+  const raw = generateDataKeyMaterial();
+  const auth = await sealDataKey(password, raw);
+  const dataKey = await importDataKey(raw);
+  raw.fill(0);
+  return { auth, dataKey };
+};
+
+// Re-encrypts per-wallet PBKDF2 packets under the data key. A packet that fails to
+// decrypt is left untouched so one bad entry cannot lock the whole vault.
+const migrateLegacyWallets = async (
+  wallets: WalletData[],
+  password: string,
+  dataKey: CryptoKey,
+  onProgress?: (done: number, total: number) => void
+): Promise<WalletData[]> => {
+  const total = wallets.filter(w => isLegacyPacket(w.encryptedPrivateKey)).length;
+  if (total === 0) return wallets;
+
+  let done = 0;
+  let changed = false;
+  const result: WalletData[] = [];
+  for (const wallet of wallets) {
+    if (!isLegacyPacket(wallet.encryptedPrivateKey)) {
+      result.push(wallet);
+      continue;
+    }
+    try {
+      const privateKey = await decryptLegacyData(wallet.encryptedPrivateKey, password);
+      result.push({ ...wallet, encryptedPrivateKey: await encryptData(privateKey, dataKey) });
+      changed = true;
+    } catch (e) {
+      logger.log(`Could not migrate key of '${wallet.name}' to the vault key`, 'warning', 'Vault');
+      result.push(wallet);
+    }
+    onProgress?.(++done, total);
+  }
+  return changed ? result : wallets;
+};
+
+/**
+ * Checks the master password against a store and opens the vault data key.
+ * Returns null when the password is wrong and throws VaultIntegrityError when the
+ * password is right but the store was modified. Legacy SHA-256 vaults, vaults on an
+ * outdated KDF version and per-wallet password packets are upgraded on the way.
+ */
+export const unlockStore = async (
+  store: VaultStore,
+  password: string,
+  options: UnlockOptions = {}
+): Promise<UnlockedVault | null> => {
+  const { kdf, verifier, wrappedKey } = store;
+
+  let masterKey: Uint8Array | null = null;
+  if (kdf && verifier) {
+    masterKey = await deriveMasterKey(password, kdf);
+    if (await computeVerifier(masterKey) !== verifier) return null;
+  } else if (!store.masterHash || store.masterHash !== await hashPassword(password)) {
+    return null;
+  }
+
+  if (!options.allowTampered && !(await checkIntegrity(store, masterKey))) {
+    throw new VaultIntegrityError();
+  }
+
+  let raw: Uint8Array;
+  let auth: VaultAuth;
+  let migrated = false;
+  if (masterKey && kdf && verifier && wrappedKey) {
+    raw = await unwrapDataKey(wrappedKey, masterKey);
+    if (kdf.version < CURRENT_KDF_VERSION) {
+      auth = await sealDataKey(password, raw);
+      migrated = true;
+    } else {
+      auth = { kdf, verifier, wrappedKey, integrityKey: await deriveIntegrityKey(masterKey) };
+    }
+  } else {
+    // Vault predates envelope encryption: mint its data key now
+    raw = generateDataKeyMaterial();
+    auth = await sealDataKey(password, raw);
+    migrated = true;
+  }
+  const dataKey = await importDataKey(raw);
+  raw.fill(0);
+
+  const wallets = await migrateLegacyWallets(store.wallets, password, dataKey, options.onProgress);
+  return { auth, dataKey, wallets, seeds: store.seeds || [], migrated: migrated || !store.mac || wallets !== store.wallets };
+};
+
+export interface ReencryptedWallets {
+  wallets: WalletData[];
+  skipped: string[]; // Names of wallets left in a legacy packet that `password` doesn't open
+}
+
+/**
+ * Re-encrypts every wallet key from one data key to another. Legacy password packets that
+ * unlock could not migrate are opened with `password` and moved to the new key; those it
+ * doesn't open are kept as they are and reported as skipped. Works on copies and throws on
+ * the first data-key packet that fails, so callers only ever swap in a fully re-keyed list.
+ */
+export const reencryptWallets = async (
+  wallets: WalletData[],
+  fromKey: CryptoKey,
+  toKey: CryptoKey,
+  password: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<ReencryptedWallets> => {
+  const result: WalletData[] = [];
+  const skipped: string[] = [];
+  for (const wallet of wallets) {
+    let privateKey: string;
+    if (isLegacyPacket(wallet.encryptedPrivateKey)) {
+      try {
+        privateKey = await decryptLegacyData(wallet.encryptedPrivateKey, password);
+      } catch (e) {
+        skipped.push(wallet.name);
+        result.push(wallet);
+        onProgress?.(result.length, wallets.length);
+        continue;
+      }
+    } else {
+      try {
+        privateKey = await decryptData(wallet.encryptedPrivateKey, fromKey);
+      } catch (e) {
+        throw new Error(`Could not decrypt wallet '${wallet.name}'. No changes were made.`);
+      }
+    }
+    result.push({ ...wallet, encryptedPrivateKey: await encryptData(privateKey, toKey) });
+    onProgress?.(result.length, wallets.length);
+  }
+  return { wallets: result, skipped };
+};
+
+export const reencryptSeeds = async (seeds: SeedData[], fromKey: CryptoKey, toKey: CryptoKey): Promise<SeedData[]> => {
+  const result: SeedData[] = [];
+  for (const seed of seeds) {
+    let mnemonic: string;
+    try {
+      mnemonic = await decryptData(seed.encryptedMnemonic, fromKey);
+    } catch (e) {
+      throw new Error(`Could not decrypt seed '${seed.name}'. No changes were made.`);
+    }
+    result.push({ ...seed, encryptedMnemonic: await encryptData(mnemonic, toKey) });
+  }
+  return result;
+};
@@ -0,0 +1,51 @@
+import { WalletData, WalletMetadata } from '../types';
+import { encryptData, generatePrivateKey, createWalletFromKey } from './cryptoService';
+
+// Creates keys inside the vault so they never exist outside it. Used by the Generate mode
+// in WalletManager and the vault_createWallet RPC operation.
+
+export const MAX_GENERATE_BATCH = 100;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Labels continue after the highest `${prefix}<n>` already in the vault.
+const nextLabelIndex = (labelPrefix: string, existing: WalletData[]): number => {
+  const pattern = new RegExp(`^${escapeRegExp(labelPrefix)}(\\d+)$`);
+  return existing.reduce((max, w) => {
+    const match = w.name.match(pattern);
+    return match ? Math.max(max, Number(match[1]) + 1) : max;
+  }, 1);
+};
+
+/**
+ * Generates `count` random wallets labelled `${labelPrefix}<n>`. Keys are encrypted under
+ * the data key as soon as they are created; only the encrypted records are returned.
+ */
+export const generateWallets = async (
+  count: number,
+  labelPrefix: string,
+  dataKey: CryptoKey,
+  existing: WalletData[],
+  metadata: WalletMetadata = {}
+): Promise<WalletData[]> => {
+  const prefix = labelPrefix.trim();
+  if (!prefix) throw new Error('Label prefix required');
+  if (!Number.isInteger(count) || count < 1 || count > MAX_GENERATE_BATCH) {
+    throw new Error(`Count must be between 1 and ${MAX_GENERATE_BATCH}`);
+  }
+
+  const start = nextLabelIndex(prefix, existing);
+  const created: WalletData[] = [];
+  for (let i = 0; i < count; i++) {
+    const privateKey = generatePrivateKey();
+    created.push({
+      id: crypto.randomUUID(),
+      name: `${prefix}${start + i}`,
+      address: createWalletFromKey(privateKey).address,
+      encryptedPrivateKey: await encryptData(privateKey, dataKey),
+      metadata: { ...metadata },
+      createdAt: Date.now()
+    });
+  }
+  return created;
+};
@@ -12,6 +12,17 @@ export interface WalletData {
   encryptedPrivateKey: string; // Base64 encoded JSON of {iv, salt, data}
   metadata?: WalletMetadata;
   createdAt: number;
+  seedId?: string; // Set for accounts derived from an HD seed
+  derivationPath?: string; // Full BIP-32 path, e.g. m/44'/60'/0'/0/7
+}
+
+// BIP-39 mnemonic stored in the vault. Accounts are derived as `${basePath}/${index}`.
+export interface SeedData {
+  id: string;
+  name: string;
+  encryptedMnemonic: string; // Encrypted under the vault data key, like wallet keys
+  basePath: string;
+  createdAt: number;
 }
 
 export type OperationType = 
@@ -24,14 +35,21 @@ export type OperationType =
   | 'eth_sendRawTransaction' 
   | 'personal_sign' 
   | 'eth_signTypedData'
+  | 'vault_speedUpTransaction'
+  | 'vault_cancelTransaction'
   // Vault Management (3)
   | 'vault_listWallets'
   | 'vault_getAddress'
-  | 'vault_importPrivateKey';
+  | 'vault_importPrivateKey'
+  | 'vault_createWallet'
+  | 'vault_getTransactions';
 
 export interface ApiRequest {
   type: OperationType;
   walletLabel?: string; 
+  derivationPath?: string; // Alternative to walletLabel: a derived account's full path
+  derivationIndex?: number; // Alternative to walletLabel: index under the seed's base path
+  seedLabel?: string; // Selects the seed for derivationPath/derivationIndex when the vault holds several
   address?: string; // Legacy support, prefer payload
   network?: string;  
   payload?: any; 
@@ -57,18 +75,104 @@ export interface ServiceResponse {
   broadcast_status?: string;
   explorer_link?: string;
   walletId?: string; // For import response
+  policy?: PolicyRuleRef; // Set when a signing policy denied the request
+  preview?: TransactionPreview; // Decoded eth_signTransaction payload
+  transaction?: Record<string, any>; // eth_signTransaction payload after missing fields were filled in
+  typedData?: TypedDataReview; // Reviewed eth_signTypedData payload
+  transactions?: TrackedTransaction[]; // vault_getTransactions, newest first
+  replacedTxHash?: string; // vault_speedUpTransaction / vault_cancelTransaction
+}
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export type RiskLevel = 'info' | 'warning' | 'danger';
+
+export interface RiskFlag {
+  code: string; // e.g. UNLIMITED_APPROVAL, NO_CONTRACT_CODE
+  level: RiskLevel;
+  message: string;
+}
+
+export interface DecodedArg {
+  name: string;
+  type: string;
+  value: string; // Raw value as a string
+  display?: string; // Formatted with token decimals/symbol where known
+}
+
+export interface DecodedCall {
+  target: string;
+  selector: string;
+  standard?: 'ERC20' | 'ERC721' | 'ERC1155' | 'Multicall';
+  method?: string; // Undefined when the selector is unknown
+  args: DecodedArg[];
+  token?: TokenInfo;
+  summary: string;
+  calls?: DecodedCall[]; // Inner calls of a multicall
+}
+
+export interface TypedDataNode {
+  name: string;
+  type: string;
+  value?: string; // Leaf value; structs and arrays have children instead
+  children?: TypedDataNode[];
+}
+
+// Fields of a recognized approval-style signature (Permit, Permit2, Seaport).
+export interface TypedDataApproval {
+  token?: string;
+  spender?: string;
+  amount?: string; // Raw amount, 'Unlimited' for max values
+  deadline?: string; // ISO date, 'Never' for max values
+}
+
+export interface TypedDataReview {
+  primaryType: string;
+  domain: Record<string, any>;
+  kind?: 'Permit' | 'Permit2' | 'Seaport';
+  approvals: TypedDataApproval[];
+  tree: TypedDataNode[];
+  risks: RiskFlag[];
 }
 
-export type ViewState = 'dashboard' | 'wallets' | 'signer' | 'transfer' | 'settings' | 'docs';
+// Human-readable view of a transaction, shown before signing and returned with the signature.
+export interface TransactionPreview {
+  kind: 'transfer' | 'contract_call' | 'deployment';
+  chainId?: number;
+  network?: string; // Network used for on-chain lookups, if any
+  to?: string;
+  value: string; // ETH
+  summary: string;
+  call?: DecodedCall;
+  risks: RiskFlag[];
+}
+
+export type ViewState = 'dashboard' | 'wallets' | 'signer' | 'transfer' | 'sweep' | 'history' | 'settings' | 'docs';
 
 export interface VaultState {
   isLocked: boolean;
   wallets: WalletData[];
-  masterHash: string | null;
+  kdf: KdfParams | null;
   integrityHash?: string; // Checksum of the encrypted data
   settings: VaultSettings;
 }
 
+// Versioned parameters of the master password KDF. Stored next to the verifier so
+// older vaults keep unlocking after the defaults are raised.
+export interface KdfParams {
+  version: number;
+  algorithm: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  dkLen: number;
+  salt: string; // Hex encoded
+}
+
 export type AttributeType = 'text' | 'select' | 'date';
 
 export interface AttributeDefinition {
@@ -78,19 +182,118 @@ export interface AttributeDefinition {
   options?: string[]; // Comma separated values for select
 }
 
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string; // First characters of the secret, for identification only
+  keyHash: string; // SHA-256 of the full secret; the secret itself is never stored
+  scopes: OperationType[];
+  walletLabels: string[]; // Allowed wallet labels ('*' wildcards allowed). Empty = all wallets
+  createdAt: number;
+}
+
+// Declarative signing policy, evaluated before a wallet key is decrypted. Every enabled
+// policy matching the wallet must pass. Unset rules don't restrict anything.
+export interface SigningPolicy {
+  id: string;
+  name: string;
+  enabled: boolean;
+  walletLabels: string[]; // Wallets the policy applies to ('*' wildcards allowed). Empty = all wallets
+  allowedRecipients?: string[]; // Transaction `to` plus decoded token recipients/spenders / EIP-712 verifyingContract and spender, lowercase
+  maxValuePerTx?: string; // Wei of the native asset; while set, known token transfers and approvals are denied
+  maxValuePerDay?: string; // Wei, rolling 24h per wallet and chain; same token restriction
+  allowedChainIds?: number[];
+  allowedSelectors?: string[]; // 4-byte function selectors (0x12345678); plain transfers are always allowed
+  blockedMessagePatterns?: string[]; // Case-insensitive regular expressions matched against personal_sign messages
+  createdAt: number;
+}
+
+export interface PolicyRuleRef {
+  id: string;
+  name: string;
+  rule: keyof SigningPolicy;
+}
+
+// Applied when nonce, gas or fee fields are filled in from the network.
+export interface FeeSettings {
+  multiplier: number; // Applied to the network's fee estimate, e.g. 1.2 = +20%
+  maxFeeGwei?: number; // Transactions with a higher max fee (or gas price) are refused
+}
+
+// signed: not broadcast from the vault (API callers may broadcast it themselves).
+// dropped: its nonce was used by another transaction, or it was never seen on chain.
+export type TransactionStatus = 'signed' | 'pending' | 'mined' | 'reverted' | 'dropped';
+
+// A transaction signed or broadcast from the vault, followed until it is final.
+export interface TrackedTransaction {
+  hash: string;
+  walletId: string;
+  walletLabel: string;
+  from: string;
+  chainId: number;
+  network?: string; // Configured network key; without one the transaction can't be followed
+  nonce: number;
+  to?: string;
+  value: string; // Wei
+  summary: string; // Decoded intent, e.g. "Transfer 100 USDC to 0x…"
+  status: TransactionStatus;
+  rawTx: string;
+  blockNumber?: number;
+  confirmations?: number;
+  gasUsed?: string;
+  error?: string; // Last failed broadcast
+  replaces?: string; // Hash of the pending transaction this speed-up or cancel replaces
+  replacedBy?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TransactionFilter {
+  walletId?: string;
+  walletLabel?: string;
+  network?: string;
+  status?: TransactionStatus;
+  limit?: number;
+}
+
+// ERC-20 token known to the vault on one network. Symbol and decimals are read from the
+// contract when the token is added, so balances and transfers never assume a precision.
+export interface RegisteredToken {
+  network: string; // Network key, e.g. 'mainnet'
+  address: string; // Checksummed
+  symbol: string; // Unique per network
+  decimals: number;
+}
+
+// EVM network the vault can reach. `key` names the network in API requests, CSV runs and the
+// token registry; the native asset is still called ETH there, `nativeSymbol` is for display.
+export interface NetworkConfig {
+  key: string; // Lowercase, unique
+  chainId: number; // Unique
+  name: string;
+  rpcUrls: string[]; // HTTP(S) endpoints in priority order, the first is tried first
+  explorer?: string; // Base URL, e.g. https://etherscan.io
+  nativeSymbol: string;
+  multicall3?: string; // Multicall3 deployment when not at the canonical address
+}
+
 export interface VaultSettings {
   autoLockMinutes: number;
   enableLogging: boolean;
   attributeDefinitions: AttributeDefinition[];
+  apiKeys: ApiKey[];
+  policies: SigningPolicy[];
+  fees: FeeSettings;
+  tokens: RegisteredToken[];
+  networks: NetworkConfig[];
 }
 
-export type NetworkKey = 'mainnet' | 'zksync' | 'linea' | 'arbitrum' | 'optimism' | 'polygon' | 'base' | 'sepolia';
+export type NetworkKey = string; // Key of a configured network
 
 export interface AssetValues {
   eth: string;
   wei: bigint;
-  usdt: string;
-  usdc: string;
+  tokens: Record<string, string>; // Symbol -> formatted balance, for the network's registered tokens
 }
 
 export interface BalanceMap {